@@ -0,0 +1,321 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import type { ActionResult, IAgentRuntime, Memory } from "@elizaos/core";
+import { analyzeGitHubNotificationAction } from "../actions/analyzeGitHubNotification";
+import type { GitHubNotification } from "../services/githubService";
+import { getLlmDailyUsage } from "../services/llmUsage";
+
+const AGENT_ID = "00000000-0000-0000-0000-000000000001";
+
+const subscribers = [
+  {
+    id: "alice",
+    githubUsername: "alice",
+    githubToken: "token-a",
+    telegramChatId: "1",
+  },
+  {
+    id: "bob",
+    githubUsername: "bob",
+    githubToken: "token-b",
+    telegramChatId: "2",
+  },
+];
+
+// Thread ids are unique per test: processed activity is also remembered in
+// memory, across tests
+let nextThreadId = 1000;
+
+function createNotification(
+  overrides: Partial<GitHubNotification> = {},
+): GitHubNotification {
+  const id = overrides.id ?? String(nextThreadId++);
+  return {
+    id,
+    url: `https://api.github.com/notifications/threads/${id}`,
+    subject: {
+      title: "Release checklist",
+      url: null,
+      latest_comment_url: null,
+      type: "Issue",
+    },
+    reason: "mention",
+    repository: {
+      id: 1,
+      name: "widgets",
+      full_name: "acme/widgets",
+      html_url: "https://github.com/acme/widgets",
+    },
+    updated_at: "2026-01-07T10:00:00Z",
+    last_read_at: null,
+    unread: true,
+    ...overrides,
+  };
+}
+
+/**
+ * A runtime with in-memory cache and processed records. The LLM rates every
+ * notification in the prompt with `priority` unless told otherwise.
+ */
+function createRuntime(priority = "low") {
+  const cache = new Map<string, unknown>();
+  const records: Memory[] = [];
+  const prompts: string[] = [];
+  const sent: Memory[] = [];
+  const useModel = mock(async (_model: string, params: { prompt: string }) => {
+    prompts.push(params.prompt);
+    const ids = [...params.prompt.matchAll(/^### Notification (\S+)$/gm)].map(
+      (match) => match[1],
+    );
+    return {
+      results: ids.map((id) => ({
+        id,
+        priority,
+        category: "fyi",
+        reason: `Rated ${priority}`,
+      })),
+    };
+  });
+  const runtime = {
+    agentId: AGENT_ID,
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    getMemories: async ({ tableName }: { tableName: string }) =>
+      tableName === "pingpal_github_processed" ? [...records].reverse() : [],
+    createMemory: async (memory: Memory) => {
+      const id = crypto.randomUUID();
+      records.push({ ...memory, id });
+      return id;
+    },
+    getService: () => null,
+    useModel,
+    actions: [
+      {
+        name: "SEND_NOTIFICATION",
+        validate: async () => true,
+        handler: async (_runtime: IAgentRuntime, message: Memory) => {
+          sent.push(message);
+          return { success: true };
+        },
+      },
+    ],
+  } as unknown as IAgentRuntime;
+  return { runtime, records, prompts, sent, useModel };
+}
+
+async function analyze(
+  runtime: IAgentRuntime,
+  notification: GitHubNotification,
+  subscriberId = "alice",
+): Promise<ActionResult> {
+  return (await analyzeGitHubNotificationAction.handler(runtime, {
+    id: crypto.randomUUID(),
+    entityId: AGENT_ID,
+    agentId: AGENT_ID,
+    roomId: AGENT_ID,
+    content: { text: "", githubNotification: notification, subscriberId },
+  } as Memory)) as ActionResult;
+}
+
+const originalFetch = globalThis.fetch;
+const originalSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+
+beforeEach(() => {
+  process.env.PINGPAL_SUBSCRIBERS = JSON.stringify(subscribers);
+  // Thread content isn't available, so only the notification is analyzed
+  globalThis.fetch = (async () =>
+    new Response("{}", { status: 404 })) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  if (originalSubscribers === undefined) {
+    delete process.env.PINGPAL_SUBSCRIBERS;
+  } else {
+    process.env.PINGPAL_SUBSCRIBERS = originalSubscribers;
+  }
+});
+
+describe("deduplication on thread activity", () => {
+  it("skips activity that was already processed", async () => {
+    const { runtime, records, useModel } = createRuntime();
+    const notification = createNotification();
+
+    expect((await analyze(runtime, notification)).data).toMatchObject({
+      notificationId: notification.id,
+      priority: "low",
+    });
+    expect((await analyze(runtime, notification)).data).toEqual({
+      skipped: true,
+      reason: "duplicate",
+    });
+    expect(records).toHaveLength(1);
+    expect(useModel).toHaveBeenCalledTimes(1);
+  });
+
+  it("analyzes new activity on a known thread and tells the LLM what came before", async () => {
+    const { runtime, records, prompts } = createRuntime();
+    const notification = createNotification();
+    await analyze(runtime, notification);
+
+    const update = { ...notification, updated_at: "2026-02-01T08:00:00Z" };
+    const result = await analyze(runtime, update);
+
+    expect(result.data).toMatchObject({ notificationId: notification.id });
+    expect(records).toHaveLength(2);
+    expect(prompts[1]).toContain(
+      "(thread updated_at was 2026-01-07T10:00:00Z)",
+    );
+    expect(prompts[1]).toContain("Previous classification: low priority");
+  });
+
+  it("doesn't let one subscriber's processed thread suppress another's", async () => {
+    const { runtime, records } = createRuntime();
+    const notification = createNotification();
+    await analyze(runtime, notification, "alice");
+
+    expect((await analyze(runtime, notification, "bob")).data).toMatchObject({
+      notificationId: notification.id,
+    });
+    expect(
+      records.map((record) => (record.metadata as any).subscriberId),
+    ).toEqual(["alice", "bob"]);
+    expect((await analyze(runtime, notification, "bob")).data).toMatchObject({
+      skipped: true,
+    });
+  });
+
+  it("re-analyzes on request even when nothing changed", async () => {
+    const { runtime, records } = createRuntime();
+    const notification = createNotification();
+    await analyze(runtime, notification);
+
+    const result = (await analyzeGitHubNotificationAction.handler(runtime, {
+      id: crypto.randomUUID(),
+      entityId: AGENT_ID,
+      agentId: AGENT_ID,
+      roomId: AGENT_ID,
+      content: {
+        text: "",
+        githubNotification: notification,
+        subscriberId: "alice",
+        reprocess: true,
+      },
+    } as Memory)) as ActionResult;
+
+    expect(result.data).toMatchObject({ notificationId: notification.id });
+    expect(records).toHaveLength(2);
+  });
+});
+
+describe("LLM cache and budget", () => {
+  const originalBudget = process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET;
+
+  afterEach(() => {
+    if (originalBudget === undefined) {
+      delete process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET;
+    } else {
+      process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET = originalBudget;
+    }
+  });
+
+  it("reuses the answer for identical content without calling the LLM", async () => {
+    const { runtime, records, useModel } = createRuntime("high");
+    await analyze(runtime, createNotification());
+    const result = await analyze(runtime, createNotification());
+
+    expect(result.data).toMatchObject({ priority: "high" });
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect(records.map((record) => (record.metadata as any).decidedBy)).toEqual(
+      ["llm", "llm:cache"],
+    );
+    expect(await getLlmDailyUsage(runtime)).toMatchObject({
+      calls: 1,
+      cacheHits: 1,
+    });
+  });
+
+  it("falls back to heuristics once the daily budget is used up", async () => {
+    process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET = "1";
+    const { runtime, records, useModel } = createRuntime("high");
+    await analyze(runtime, createNotification());
+    await analyze(
+      runtime,
+      createNotification({
+        subject: {
+          title: "Another checklist",
+          url: null,
+          latest_comment_url: null,
+          type: "Issue",
+        },
+      }),
+    );
+
+    expect(useModel).toHaveBeenCalledTimes(1);
+    expect(records[1].metadata).toMatchObject({ decidedBy: "budget" });
+    expect(await getLlmDailyUsage(runtime)).toMatchObject({
+      calls: 1,
+      budgetFallbacks: 1,
+    });
+  });
+});
+
+describe("feedback", () => {
+  it("shows the subscriber's rated notifications to the LLM", async () => {
+    const { runtime, records, prompts } = createRuntime();
+    await analyze(runtime, createNotification());
+    expect(prompts[0]).not.toContain("Feedback 'alice' gave");
+
+    records[0] = {
+      ...records[0],
+      metadata: {
+        ...records[0].metadata,
+        feedback: { rating: "missed", at: Date.now() },
+      },
+    } as Memory;
+    await analyze(runtime, createNotification());
+
+    // The new feedback also changes the prompt, so the cache isn't used
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain("Feedback 'alice' gave");
+    expect(prompts[1]).toContain(
+      '- [acme/widgets] mention on Issue "Release checklist": rated low without an alert; the user missed it and wanted an alert.',
+    );
+  });
+});
+
+describe("routing on priority", () => {
+  it("alerts critical and high notifications right away", async () => {
+    for (const priority of ["critical", "high"]) {
+      const { runtime, sent } = createRuntime(priority);
+      const result = await analyze(runtime, createNotification());
+
+      expect(result.data).toMatchObject({ priority, route: "immediate" });
+      expect(sent).toHaveLength(1);
+      expect(sent[0].content).toMatchObject({
+        priority,
+        category: "fyi",
+        analysisReason: `Rated ${priority}`,
+      });
+    }
+  });
+
+  it("leaves normal notifications for the digest and low ones in the log", async () => {
+    for (const [priority, route] of [
+      ["normal", "digest"],
+      ["low", "log"],
+    ]) {
+      const { runtime, records, sent } = createRuntime(priority);
+      const result = await analyze(runtime, createNotification());
+
+      expect(result.data).toMatchObject({ priority, route });
+      expect(sent).toEqual([]);
+      expect(records[0].metadata).toMatchObject({
+        priority,
+        notifiedViaTelegram: false,
+      });
+    }
+  });
+});
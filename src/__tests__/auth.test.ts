@@ -0,0 +1,266 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { IAgentRuntime } from "@elizaos/core";
+import { createVerify, generateKeyPairSync } from "node:crypto";
+import { createGitHubAuthProvider, getGitHubAuthProvider } from "../auth";
+import { GitHubAppAuthProvider } from "../auth/githubApp";
+import {
+  OAuthDeviceAuthProvider,
+  saveOAuthToken,
+  waitForDeviceAuthorization,
+  type StoredOAuthToken,
+} from "../auth/oauthDevice";
+import { GitHubAuthError } from "../services/githubErrors";
+import type { Subscriber } from "../subscribers";
+
+const MINUTE = 60 * 1000;
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+/** Answers every request with `respond`; records the requests. */
+function mockFetch(respond: (url: string, init: RequestInit) => Response) {
+  const requests: { url: string; init: RequestInit }[] = [];
+  globalThis.fetch = (async (
+    input: string | URL | Request,
+    init: RequestInit = {},
+  ) => {
+    requests.push({ url: String(input), init });
+    return respond(String(input), init);
+  }) as typeof fetch;
+  return requests;
+}
+
+function createRuntime() {
+  const cache = new Map<string, unknown>();
+  return {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+}
+
+describe("createGitHubAuthProvider", () => {
+  const runtime = createRuntime();
+  const subscriber = (auth: Partial<Subscriber>) =>
+    ({ id: "default", githubUsername: "octocat", ...auth }) as Subscriber;
+
+  it("only lets user tokens read the notification inbox", () => {
+    const providers = [
+      { githubToken: "classic" },
+      { githubAuth: { type: "fine_grained_pat", token: "github_pat_x" } },
+      { githubAuth: { type: "oauth_device", clientId: "client" } },
+      {
+        githubAuth: {
+          type: "github_app",
+          appId: "1",
+          installationId: "2",
+          privateKey: "key",
+        },
+      },
+    ].map((auth) =>
+      createGitHubAuthProvider(
+        runtime,
+        subscriber(auth as Partial<Subscriber>),
+      ),
+    );
+
+    expect(
+      providers.map((provider) => [
+        provider.type,
+        provider.canReadNotifications,
+      ]),
+    ).toEqual([
+      ["pat", true],
+      ["fine_grained_pat", false],
+      ["oauth_device", true],
+      ["github_app", false],
+    ]);
+  });
+
+  it("reuses a subscriber's provider until the configuration changes", () => {
+    const first = getGitHubAuthProvider(
+      runtime,
+      subscriber({ githubToken: "a" }),
+    );
+    expect(
+      getGitHubAuthProvider(runtime, subscriber({ githubToken: "a" })),
+    ).toBe(first);
+    const replaced = getGitHubAuthProvider(
+      runtime,
+      subscriber({ githubToken: "b" }),
+    );
+    expect(replaced).not.toBe(first);
+    expect(replaced.fingerprint).not.toBe(first.fingerprint);
+  });
+});
+
+describe("GitHubAppAuthProvider", () => {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  });
+
+  function mockInstallationTokens(expiresInMs: number) {
+    let issued = 0;
+    return mockFetch(() => {
+      issued++;
+      return Response.json(
+        {
+          token: `installation-token-${issued}`,
+          expires_at: new Date(Date.now() + expiresInMs).toISOString(),
+        },
+        { status: 201 },
+      );
+    });
+  }
+
+  it("exchanges a signed app JWT for an installation token and reuses it", async () => {
+    const requests = mockInstallationTokens(60 * MINUTE);
+    const provider = new GitHubAppAuthProvider("42", "7", privateKey);
+
+    const tokens = await Promise.all([
+      provider.getToken(),
+      provider.getToken(),
+    ]);
+    expect(tokens).toEqual(["installation-token-1", "installation-token-1"]);
+    expect(await provider.getToken()).toBe("installation-token-1");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe(
+      "https://api.github.com/app/installations/7/access_tokens",
+    );
+    expect(requests[0].init.method).toBe("POST");
+
+    const jwt = (
+      requests[0].init.headers as Record<string, string>
+    ).Authorization.replace("Bearer ", "").split(".");
+    const verified = createVerify("RSA-SHA256")
+      .update(`${jwt[0]}.${jwt[1]}`)
+      .verify(publicKey, Buffer.from(jwt[2], "base64url"));
+    expect(verified).toBe(true);
+    const payload = JSON.parse(Buffer.from(jwt[1], "base64url").toString());
+    expect(payload.iss).toBe("42");
+    expect(payload.exp - payload.iat).toBeLessThanOrEqual(10 * 60);
+  });
+
+  it("refreshes the token before it expires and after GitHub rejects it", async () => {
+    const requests = mockInstallationTokens(4 * MINUTE);
+    const provider = new GitHubAppAuthProvider("42", "7", privateKey);
+
+    expect(await provider.getToken()).toBe("installation-token-1");
+    // Within five minutes of expiry
+    expect(await provider.getToken()).toBe("installation-token-2");
+
+    mockInstallationTokens(60 * MINUTE);
+    await provider.getToken();
+    provider.invalidate();
+    expect(await provider.getToken()).toBe("installation-token-2");
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe("OAuthDeviceAuthProvider", () => {
+  const storedToken = (
+    overrides: Partial<StoredOAuthToken> = {},
+  ): StoredOAuthToken => ({
+    accessToken: "user-token",
+    refreshToken: null,
+    expiresAt: null,
+    scope: "notifications,repo",
+    obtainedAt: Date.now(),
+    ...overrides,
+  });
+
+  it("asks the subscriber to connect until a token is stored", async () => {
+    const runtime = createRuntime();
+    const provider = new OAuthDeviceAuthProvider(runtime, "default", "client");
+    await expect(provider.getToken()).rejects.toThrow(GitHubAuthError);
+
+    await saveOAuthToken(runtime, "default", storedToken());
+    expect(await provider.getToken()).toBe("user-token");
+  });
+
+  it("refreshes an expiring token and stores the new one", async () => {
+    const runtime = createRuntime();
+    await saveOAuthToken(
+      runtime,
+      "default",
+      storedToken({
+        refreshToken: "refresh-1",
+        expiresAt: Date.now() + MINUTE,
+      }),
+    );
+    const requests = mockFetch(() =>
+      Response.json({
+        access_token: "user-token-2",
+        refresh_token: "refresh-2",
+        expires_in: 8 * 60 * 60,
+      }),
+    );
+    const provider = new OAuthDeviceAuthProvider(runtime, "default", "client");
+
+    expect(await provider.getToken()).toBe("user-token-2");
+    expect(await provider.getToken()).toBe("user-token-2");
+    expect(requests).toHaveLength(1);
+    const body = requests[0].init.body as URLSearchParams;
+    expect(body.get("grant_type")).toBe("refresh_token");
+    expect(body.get("refresh_token")).toBe("refresh-1");
+  });
+
+  it("asks to connect again when an expired token can't be refreshed", async () => {
+    const runtime = createRuntime();
+    await saveOAuthToken(
+      runtime,
+      "default",
+      storedToken({ expiresAt: Date.now() - MINUTE }),
+    );
+    const provider = new OAuthDeviceAuthProvider(runtime, "default", "client");
+    await expect(provider.getToken()).rejects.toThrow("token expired");
+  });
+});
+
+describe("waitForDeviceAuthorization", () => {
+  const code = {
+    deviceCode: "device",
+    userCode: "ABCD-1234",
+    verificationUri: "https://github.com/login/device",
+    expiresAt: Date.now() + 15 * MINUTE,
+    intervalSeconds: 0,
+  };
+
+  it("polls until the user approves the code", async () => {
+    const answers = [
+      { error: "authorization_pending" },
+      { error: "slow_down", interval: 0 },
+      { access_token: "user-token", scope: "notifications,repo" },
+    ];
+    const requests = mockFetch(() => Response.json(answers.shift()));
+
+    const token = await waitForDeviceAuthorization("client", code);
+    expect(token).toMatchObject({
+      accessToken: "user-token",
+      refreshToken: null,
+      expiresAt: null,
+      scope: "notifications,repo",
+    });
+    expect(requests).toHaveLength(3);
+    expect(requests[0].url).toBe("https://github.com/login/oauth/access_token");
+  });
+
+  it("stops when the user denies access", async () => {
+    mockFetch(() =>
+      Response.json({
+        error: "access_denied",
+        error_description: "The user has denied your application access.",
+      }),
+    );
+    await expect(waitForDeviceAuthorization("client", code)).rejects.toThrow(
+      "denied",
+    );
+  });
+});
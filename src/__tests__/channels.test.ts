@@ -0,0 +1,258 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  deliverAlert,
+  getChannelsForSubscriber,
+  type ChannelAlert,
+} from "../channels";
+import { DiscordChannel } from "../channels/discord";
+import { EmailChannel } from "../channels/email";
+import { SlackChannel } from "../channels/slack";
+import { TelegramChannel } from "../channels/telegram";
+import { WebhookChannel } from "../channels/webhook";
+import type { GitHubNotification } from "../services/githubService";
+import type { Subscriber } from "../subscribers";
+
+const SLACK_URL = "https://hooks.slack.com/services/T/B/X";
+const DISCORD_URL = "https://discord.com/api/webhooks/1/abc";
+const WEBHOOK_URL = "https://hooks.example.com/pingpal";
+
+function createAlert(overrides: Partial<ChannelAlert> = {}): ChannelAlert {
+  return {
+    alertId: "alert-1",
+    subscriberId: "default",
+    notification: {
+      id: "1001",
+      subject: { title: "Fix <script> & [docs]", type: "PullRequest" },
+      reason: "review_requested",
+      repository: { full_name: "acme/widgets" },
+      updated_at: "2026-01-07T10:00:00Z",
+    } as GitHubNotification,
+    reason: "Release blocker_1.2",
+    priority: "high",
+    category: "review_needed",
+    suggestedAction: "Review before Friday",
+    deadline: null,
+    link: "https://github.com/acme/widgets/pull/8#issuecomment-5",
+    timeZone: "UTC",
+    ...overrides,
+  };
+}
+
+describe("channel formatting", () => {
+  it("escapes MarkdownV2 for Telegram", () => {
+    const text = new TelegramChannel("100").format(createAlert());
+    expect(text).toContain("*Subject:* Fix <script\\> & \\[docs\\]");
+    expect(text).toContain("*Reason:* Release blocker\\_1\\.2");
+    expect(text).toContain("*Category:* Review needed");
+    expect(text).toContain(
+      "[View on GitHub](https://github.com/acme/widgets/pull/8#issuecomment-5)",
+    );
+  });
+
+  it("escapes Slack mrkdwn and links the title", () => {
+    const text = new SlackChannel(SLACK_URL).format(createAlert());
+    expect(text).toContain(
+      "<https://github.com/acme/widgets/pull/8#issuecomment-5|Fix &lt;script&gt; &amp; [docs]>",
+    );
+    expect(text).toContain("*Suggested action:* Review before Friday");
+    expect(text.startsWith(":bell:")).toBe(true);
+    expect(
+      new SlackChannel(SLACK_URL)
+        .format(createAlert({ priority: "critical" }))
+        .startsWith(":rotating_light:"),
+    ).toBe(true);
+  });
+
+  it("builds a Discord embed that only rings for critical alerts", () => {
+    const payload = JSON.parse(
+      new DiscordChannel(DISCORD_URL).format(createAlert()),
+    );
+    expect(payload.embeds[0]).toMatchObject({
+      title: "Fix <script> & [docs]",
+      url: "https://github.com/acme/widgets/pull/8#issuecomment-5",
+      description: "Release blocker\\_1.2",
+    });
+    expect(payload.allowed_mentions).toEqual({ parse: [] });
+    expect(payload.flags).toBe(1 << 12);
+
+    const critical = JSON.parse(
+      new DiscordChannel(DISCORD_URL).format(
+        createAlert({ priority: "critical" }),
+      ),
+    );
+    expect(critical.flags).toBeUndefined();
+  });
+
+  it("lists the details in plain text for email", () => {
+    const text = new EmailChannel(["me@example.com"]).format(createAlert());
+    expect(text).toContain("Repository: acme/widgets");
+    expect(text).toContain("Subject: Fix <script> & [docs]");
+    expect(text).toContain("Priority: 🔴 High");
+    expect(text).not.toContain("Deadline:");
+    expect(text).toEndWith(
+      "View on GitHub: https://github.com/acme/widgets/pull/8#issuecomment-5",
+    );
+  });
+
+  it("posts a stable JSON event to webhooks", () => {
+    expect(
+      JSON.parse(new WebhookChannel(WEBHOOK_URL).format(createAlert())),
+    ).toEqual({
+      event: "pingpal.alert",
+      alertId: "alert-1",
+      subscriberId: "default",
+      priority: "high",
+      category: "review_needed",
+      reason: "Release blocker_1.2",
+      suggestedAction: "Review before Friday",
+      deadline: null,
+      link: "https://github.com/acme/widgets/pull/8#issuecomment-5",
+      notification: {
+        id: "1001",
+        reason: "review_requested",
+        repository: "acme/widgets",
+        title: "Fix <script> & [docs]",
+        type: "PullRequest",
+        updatedAt: "2026-01-07T10:00:00Z",
+      },
+    });
+  });
+});
+
+describe("TelegramChannel", () => {
+  it("only rings for critical alerts", async () => {
+    const cache = new Map<string, unknown>();
+    const calls: { method: string; payload: Record<string, unknown> }[] = [];
+    const runtime = {
+      getCache: async (key: string) => cache.get(key),
+      setCache: async (key: string, value: unknown) => {
+        cache.set(key, value);
+        return true;
+      },
+      getService: () => ({
+        bot: {
+          telegram: {
+            callApi: async (
+              method: string,
+              payload: Record<string, unknown>,
+            ) => {
+              calls.push({ method, payload });
+              return { message_id: calls.length };
+            },
+          },
+        },
+      }),
+    } as unknown as IAgentRuntime;
+    const channel = new TelegramChannel("100");
+
+    await channel.send(runtime, createAlert({ priority: "high" }));
+    await channel.send(
+      runtime,
+      createAlert({
+        alertId: "alert-2",
+        priority: "critical",
+        notification: { ...createAlert().notification, id: "2002" },
+      }),
+    );
+
+    expect(calls.map((call) => call.method)).toEqual([
+      "sendMessage",
+      "sendMessage",
+    ]);
+    expect(calls[0].payload).toMatchObject({
+      chat_id: "100",
+      disable_notification: true,
+    });
+    expect(calls[1].payload.disable_notification).toBe(false);
+  });
+});
+
+describe("getChannelsForSubscriber", () => {
+  it("defaults to the subscriber's Telegram chat", () => {
+    const channels = getChannelsForSubscriber({
+      id: "default",
+      telegramChatId: "100",
+    } as Subscriber);
+    expect(channels.map((channel) => channel.type)).toEqual(["telegram"]);
+  });
+
+  it("refuses a Telegram channel without a chat id", () => {
+    expect(() =>
+      getChannelsForSubscriber({
+        id: "default",
+        channels: [{ type: "telegram" }],
+      } as Subscriber),
+    ).toThrow("no telegramChatId");
+  });
+});
+
+describe("deliverAlert", () => {
+  const originalFetch = globalThis.fetch;
+  const runtime = {} as IAgentRuntime;
+  const subscriber = {
+    id: "default",
+    channels: [
+      { type: "slack", webhookUrl: SLACK_URL },
+      { type: "discord", webhookUrl: DISCORD_URL },
+      { type: "webhook", url: WEBHOOK_URL, headers: { "X-Token": "secret" } },
+    ],
+  } as Subscriber;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function mockFetch() {
+    const requests: { url: string; init: RequestInit }[] = [];
+    globalThis.fetch = (async (input: string | URL | Request, init = {}) => {
+      requests.push({ url: String(input), init });
+      return String(input) === DISCORD_URL
+        ? new Response(null, {
+            status: 429,
+            statusText: "Too Many Requests",
+            headers: { "Retry-After": "7" },
+          })
+        : new Response(null, { status: 204 });
+    }) as typeof fetch;
+    return requests;
+  }
+
+  it("sends to every channel and reports a failing one without stopping", async () => {
+    const requests = mockFetch();
+    const deliveries = await deliverAlert(runtime, subscriber, createAlert());
+
+    expect(requests.map((request) => request.url)).toEqual([
+      SLACK_URL,
+      DISCORD_URL,
+      WEBHOOK_URL,
+    ]);
+    expect(deliveries).toEqual([
+      { channel: "slack", ok: true },
+      {
+        channel: "discord",
+        ok: false,
+        error: "Discord webhook error: 429 Too Many Requests",
+        retryAfterMs: 7000,
+      },
+      { channel: "webhook", ok: true },
+    ]);
+    expect(
+      (requests[2].init.headers as Record<string, string>)["X-Token"],
+    ).toBe("secret");
+    // Each send is cut off after CHANNEL_SEND_TIMEOUT_MS
+    for (const request of requests) {
+      expect(request.init.signal).toBeInstanceOf(AbortSignal);
+    }
+  });
+
+  it("only retries the channels it is given", async () => {
+    const requests = mockFetch();
+    const deliveries = await deliverAlert(runtime, subscriber, createAlert(), [
+      "discord",
+    ]);
+
+    expect(requests.map((request) => request.url)).toEqual([DISCORD_URL]);
+    expect(deliveries.map((delivery) => delivery.channel)).toEqual(["discord"]);
+  });
+});
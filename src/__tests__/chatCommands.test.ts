@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import { handleChatCommand } from "../services/chatCommands";
+
+const NOTIFICATIONS_URL = "https://api.github.com/notifications";
+
+function createNotification(id: number) {
+  return {
+    id: String(id),
+    unread: true,
+    reason: "mention",
+    updated_at: "2026-01-07T10:00:00Z",
+    subject: {
+      title: `Thread ${id}`,
+      url: `https://api.github.com/repos/acme/widgets/issues/${id}`,
+      type: "Issue",
+    },
+    repository: { full_name: "acme/widgets" },
+  };
+}
+
+function createRuntime(alertedThreadIds: string[]) {
+  const sendMessage = mock(async () => ({ message_id: 1 }));
+  const runtime = {
+    agentId: "00000000-0000-0000-0000-000000000001",
+    getMemories: async () =>
+      alertedThreadIds.map(
+        (threadId) =>
+          ({
+            id: `record-${threadId}`,
+            createdAt: Date.now(),
+            content: { text: "" },
+            metadata: {
+              subscriberId: "default",
+              githubNotificationId: threadId,
+              notifiedViaTelegram: true,
+              priority: "high",
+            },
+          }) as unknown as Memory,
+      ),
+    getService: () => ({ bot: { telegram: { sendMessage } } }),
+  } as unknown as IAgentRuntime;
+  const reply = () => (sendMessage.mock.calls[0] as unknown[])[1] as string;
+  return { runtime, reply };
+}
+
+describe("/pending", () => {
+  const originalFetch = globalThis.fetch;
+  const originalSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+  let requestedUrls: string[];
+
+  beforeEach(() => {
+    requestedUrls = [];
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([
+      {
+        id: "default",
+        githubUsername: "octocat",
+        githubToken: `token-${Math.random()}`,
+        telegramChatId: "100",
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (originalSubscribers === undefined) {
+      delete process.env.PINGPAL_SUBSCRIBERS;
+    } else {
+      process.env.PINGPAL_SUBSCRIBERS = originalSubscribers;
+    }
+  });
+
+  // One notification per page, with a next page up to `pageCount`
+  function mockInbox(pageCount: number) {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      requestedUrls.push(url.toString());
+      const page = Number(url.searchParams.get("page") ?? "1");
+      const headers: Record<string, string> = {};
+      if (page < pageCount) {
+        headers.Link = `<${NOTIFICATIONS_URL}?all=false&page=${page + 1}>; rel="next"`;
+      }
+      return Response.json([createNotification(page)], { headers });
+    }) as typeof fetch;
+  }
+
+  it("checks unread notifications past the first page", async () => {
+    mockInbox(3);
+    const { runtime, reply } = createRuntime(["1", "3"]);
+
+    expect(await handleChatCommand(runtime, "/pending", "100")).toBe(true);
+    expect(requestedUrls).toHaveLength(3);
+    expect(requestedUrls[0]).toContain("all=false");
+    expect(reply()).toContain("2 unread important items");
+    expect(reply()).toContain("Thread 3");
+    expect(reply()).not.toContain("were checked");
+  });
+
+  it("says when there were more unread notifications than it checked", async () => {
+    mockInbox(20);
+    const { runtime, reply } = createRuntime([]);
+
+    await handleChatCommand(runtime, "/pending", "100");
+    expect(requestedUrls).toHaveLength(10);
+    expect(reply()).toContain("Nothing important is waiting for you");
+    expect(reply()).toContain(
+      "Only your 10 most recent unread notifications were checked\\.",
+    );
+  });
+});
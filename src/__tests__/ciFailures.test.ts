@@ -0,0 +1,95 @@
+import { describe, expect, it } from "bun:test";
+import { classifyCiRun } from "../services/ciFailures";
+import type { GitHubCiRun } from "../services/githubService";
+
+function createCiRun(overrides: Partial<GitHubCiRun> = {}): GitHubCiRun {
+  return {
+    runId: 100,
+    checkSuiteId: 200,
+    workflowName: "CI",
+    conclusion: "failure",
+    htmlUrl: "https://github.com/acme/widgets/actions/runs/100",
+    headBranch: "add-widgets",
+    pullRequest: {
+      number: 8,
+      title: "Add widgets",
+      author: "OctoCat",
+      htmlUrl: "https://github.com/acme/widgets/pull/8",
+    },
+    jobs: [
+      {
+        id: 1,
+        name: "test",
+        htmlUrl: null,
+        failedSteps: ["Run bun test"],
+        logTail: "1 fail",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("classifyCiRun", () => {
+  it("alerts on failed jobs of the user's own pull request", () => {
+    expect(classifyCiRun(createCiRun(), "octocat", null)).toEqual({
+      priority: "high",
+      category: "ci_failure",
+      reason: "Job 'test' failed at step 'Run bun test' on #8.",
+      suggestedAction: "Check the failing job's log",
+      deadline: null,
+    });
+  });
+
+  it("adds the summary's likely cause and next step", () => {
+    const result = classifyCiRun(createCiRun(), "octocat", {
+      likelyCause: "The widget test expects 3 widgets.",
+      suggestedAction: "Update the fixture",
+    });
+    expect(result.reason).toBe(
+      "Job 'test' failed at step 'Run bun test' on #8. Likely cause: The widget test expects 3 widgets.",
+    );
+    expect(result.suggestedAction).toBe("Update the fixture");
+  });
+
+  it("counts the other failed jobs", () => {
+    const run = createCiRun();
+    const result = classifyCiRun(
+      {
+        ...run,
+        jobs: [
+          ...run.jobs,
+          { ...run.jobs[0], id: 2, name: "lint", failedSteps: [] },
+          { ...run.jobs[0], id: 3, name: "build" },
+        ],
+      },
+      "octocat",
+      null,
+    );
+    expect(result.reason).toBe(
+      "Job 'test' failed at step 'Run bun test' (and 2 more jobs) on #8.",
+    );
+  });
+
+  it("only logs failures outside the user's pull requests", () => {
+    expect(
+      classifyCiRun(createCiRun({ pullRequest: null }), "octocat", null),
+    ).toMatchObject({ priority: "low", category: "ci_failure" });
+    expect(classifyCiRun(createCiRun(), "someone-else", null).priority).toBe(
+      "low",
+    );
+  });
+
+  it("treats a run without failed jobs as FYI", () => {
+    expect(
+      classifyCiRun(
+        createCiRun({ jobs: [], conclusion: "cancelled" }),
+        "octocat",
+        null,
+      ),
+    ).toMatchObject({
+      priority: "low",
+      category: "fyi",
+      reason: "CI finished with 'cancelled'.",
+    });
+  });
+});
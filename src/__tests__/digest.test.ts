@@ -0,0 +1,195 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import {
+  collectDigestItems,
+  formatDigest,
+  processDueDigests,
+} from "../services/digestService";
+import type { Subscriber } from "../subscribers";
+
+const subscriber = {
+  id: "alice",
+  githubUsername: "alice",
+  githubToken: "token",
+  telegramChatId: "1",
+  timezone: "UTC",
+} as Subscriber;
+
+function createRecord(
+  threadId: string,
+  createdAt: number,
+  metadata: Record<string, unknown> = {},
+): Memory {
+  return {
+    id: crypto.randomUUID(),
+    createdAt,
+    content: { text: "" },
+    metadata: {
+      subscriberId: "alice",
+      githubNotificationId: threadId,
+      priority: "normal",
+      notifiedViaTelegram: false,
+      analysisResult: `Analysis of ${threadId}`,
+      webUrl: `https://github.com/acme/widgets/issues/${threadId}`,
+      sourceContext: {
+        repository: "acme/widgets",
+        notificationType: "mention",
+        subjectTitle: `Thread ${threadId}`,
+      },
+      ...metadata,
+    },
+  } as unknown as Memory;
+}
+
+function createRuntime(records: Memory[]) {
+  const cache = new Map<string, unknown>();
+  const sendMessage = mock(async () => ({ message_id: 1 }));
+  const runtime = {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    getMemories: async () => records,
+    getService: () => ({ bot: { telegram: { sendMessage } } }),
+  } as unknown as IAgentRuntime;
+  return { runtime, sendMessage };
+}
+
+describe("collectDigestItems", () => {
+  it("keeps the latest unalerted normal-priority record per thread", async () => {
+    const { runtime } = createRuntime([
+      createRecord("1", 100, { analysisResult: "Older" }),
+      createRecord("1", 300, { analysisResult: "Newer" }),
+      createRecord("2", 200),
+      // Before the previous digest
+      createRecord("3", 50),
+      // Alerted, or not for the digest
+      createRecord("4", 200, { priority: "high", notifiedViaTelegram: true }),
+      createRecord("5", 200, { priority: "normal", notifiedViaTelegram: true }),
+      createRecord("6", 200, { priority: "low" }),
+      // Another subscriber's
+      createRecord("7", 200, { subscriberId: "bob" }),
+      // From before priorities: only what the LLM judged not important
+      createRecord("8", 250, { priority: undefined, decidedBy: "llm" }),
+      createRecord("9", 250, { priority: undefined, decidedBy: "rule:noise" }),
+    ]);
+
+    const items = await collectDigestItems(runtime, subscriber, 60);
+    expect(items.map((item) => [item.threadId, item.analysis])).toEqual([
+      ["1", "Newer"],
+      ["8", "Analysis of 8"],
+      ["2", "Analysis of 2"],
+    ]);
+  });
+});
+
+describe("formatDigest", () => {
+  it("groups items by repository and reason with counts", () => {
+    const item = (threadId: string, repository: string, reason: string) => ({
+      threadId,
+      repository,
+      reason,
+      title: `Thread ${threadId}`,
+      analysis: "",
+      webUrl: `https://github.com/${repository}/issues/${threadId}`,
+      processedAt: 0,
+    });
+    const text = formatDigest(
+      [
+        item("1", "acme/widgets", "mention"),
+        item("2", "acme/gadgets", "subscribed"),
+        item("3", "acme/widgets", "mention"),
+        item("4", "acme/widgets", "author"),
+      ],
+      Date.parse("2026-01-07T09:00:00Z"),
+      "UTC",
+    );
+
+    expect(text).toContain("4 non\\-urgent notifications since");
+    // Repositories in alphabetical order
+    expect(text.indexOf("*acme/gadgets* \\(1\\)")).toBeLessThan(
+      text.indexOf("*acme/widgets* \\(3\\)"),
+    );
+    expect(text).toContain(
+      "_mention_ \\(2\\)\n• [Thread 1](https://github.com/acme/widgets/issues/1)\n• [Thread 3]",
+    );
+    expect(text).toContain("_author_ \\(1\\)");
+  });
+});
+
+describe("processDueDigests", () => {
+  const originalSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+
+  const at = (iso: string) => {
+    setSystemTime(new Date(iso));
+    return Date.parse(iso);
+  };
+
+  beforeEach(() => {
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([
+      { ...subscriber, digest: { time: "09:00" } },
+    ]);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+    if (originalSubscribers === undefined) {
+      delete process.env.PINGPAL_SUBSCRIBERS;
+    } else {
+      process.env.PINGPAL_SUBSCRIBERS = originalSubscribers;
+    }
+  });
+
+  it("sends once the digest time has passed, not on the first check", async () => {
+    const records: Memory[] = [];
+    const { runtime, sendMessage } = createRuntime(records);
+
+    // Wednesday
+    records.push(createRecord("1", at("2026-01-07T08:00:00Z") - 1000));
+    await processDueDigests(runtime);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    records.push(createRecord("2", at("2026-01-07T08:30:00Z")));
+    await processDueDigests(runtime);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    at("2026-01-07T09:00:00Z");
+    await processDueDigests(runtime);
+    await processDueDigests(runtime);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    const text = (sendMessage.mock.calls[0] as unknown[])[1] as string;
+    // Only what came after the first check
+    expect(text).toContain("Thread 2");
+    expect(text).not.toContain("Thread 1");
+  });
+
+  it("sends weekly digests on their weekday only", async () => {
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([
+      {
+        ...subscriber,
+        digest: { schedule: "weekly", time: "09:00", weekday: "friday" },
+      },
+    ]);
+    const records: Memory[] = [];
+    const { runtime, sendMessage } = createRuntime(records);
+
+    at("2026-01-07T10:00:00Z");
+    await processDueDigests(runtime);
+    records.push(createRecord("1", at("2026-01-08T09:00:00Z")));
+    await processDueDigests(runtime);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    at("2026-01-09T09:00:00Z");
+    await processDueDigests(runtime);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+});
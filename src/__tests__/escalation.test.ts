@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import type { IAgentRuntime } from "@elizaos/core";
+import type { ChannelAlert } from "../channels";
+import {
+  acknowledgeEscalations,
+  processDueEscalations,
+  scheduleEscalation,
+} from "../services/escalation";
+import type { GitHubNotification } from "../services/githubService";
+import { attemptDelivery, enqueueAlert } from "../services/outbox";
+import type { Subscriber } from "../subscribers";
+
+const ESCALATIONS_CACHE_KEY = "pingpal_github_escalations";
+
+const subscriber = {
+  id: "default",
+  githubUsername: "octocat",
+  githubToken: "token",
+  telegramChatId: "100",
+  channels: [{ type: "webhook", url: "https://hooks.example.com/pingpal" }],
+  escalation: { telegramChatId: "999", after: "30m" },
+} as Subscriber;
+
+function createAlert(overrides: Partial<ChannelAlert> = {}): ChannelAlert {
+  return {
+    alertId: "alert-1",
+    subscriberId: "default",
+    notification: {
+      id: "webhook-42-7",
+      subject: { title: "Production is down", type: "Issue" },
+      reason: "mention",
+      repository: { full_name: "acme/widgets" },
+      updated_at: "2026-01-07T10:00:00Z",
+    } as GitHubNotification,
+    reason: "Outage reported",
+    priority: "critical",
+    category: null,
+    suggestedAction: null,
+    deadline: null,
+    link: "https://github.com/acme/widgets/issues/7",
+    timeZone: "UTC",
+    ...overrides,
+  };
+}
+
+function createRuntime() {
+  const cache = new Map<string, unknown>();
+  const sendMessage = mock(async () => ({ message_id: 1 }));
+  const runtime = {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    getMemoryById: async () => null,
+    getService: () => ({ bot: { telegram: { sendMessage } } }),
+  } as unknown as IAgentRuntime;
+  const pending = () => (cache.get(ESCALATIONS_CACHE_KEY) as any[]) ?? [];
+  return { runtime, cache, sendMessage, pending };
+}
+
+describe("scheduleEscalation", () => {
+  const originalContact = process.env.PINGPAL_ESCALATION_TELEGRAM_USERID;
+
+  afterEach(() => {
+    if (originalContact === undefined) {
+      delete process.env.PINGPAL_ESCALATION_TELEGRAM_USERID;
+    } else {
+      process.env.PINGPAL_ESCALATION_TELEGRAM_USERID = originalContact;
+    }
+  });
+
+  it("starts the clock for critical alerts only", async () => {
+    const { runtime, pending } = createRuntime();
+    await scheduleEscalation(
+      runtime,
+      subscriber,
+      createAlert({ priority: "high" }),
+    );
+    expect(pending()).toEqual([]);
+
+    const before = Date.now();
+    await scheduleEscalation(runtime, subscriber, createAlert());
+    expect(pending()).toHaveLength(1);
+    expect(pending()[0].dueAt).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+  });
+
+  it("does nothing without an escalation contact", async () => {
+    delete process.env.PINGPAL_ESCALATION_TELEGRAM_USERID;
+    const { runtime, pending } = createRuntime();
+    await scheduleEscalation(
+      runtime,
+      { ...subscriber, escalation: undefined },
+      createAlert(),
+    );
+    expect(pending()).toEqual([]);
+  });
+
+  it("keeps the earlier escalation of a thread until it is acknowledged", async () => {
+    const { runtime, pending } = createRuntime();
+    await scheduleEscalation(runtime, subscriber, createAlert());
+    await scheduleEscalation(
+      runtime,
+      subscriber,
+      createAlert({ alertId: "alert-2" }),
+    );
+    expect(pending().map((escalation) => escalation.alertId)).toEqual([
+      "alert-1",
+    ]);
+
+    await acknowledgeEscalations(runtime, "default", "webhook-42-7");
+    expect(pending()).toEqual([]);
+  });
+});
+
+describe("processDueEscalations", () => {
+  const originalSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+
+  beforeEach(() => {
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([subscriber]);
+  });
+
+  afterEach(() => {
+    if (originalSubscribers === undefined) {
+      delete process.env.PINGPAL_SUBSCRIBERS;
+    } else {
+      process.env.PINGPAL_SUBSCRIBERS = originalSubscribers;
+    }
+  });
+
+  it("messages the contact once the alert is overdue", async () => {
+    const { runtime, cache, sendMessage, pending } = createRuntime();
+    await scheduleEscalation(runtime, subscriber, createAlert());
+
+    await processDueEscalations(runtime);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    cache.set(
+      ESCALATIONS_CACHE_KEY,
+      pending().map((escalation) => ({ ...escalation, dueAt: Date.now() })),
+    );
+    await processDueEscalations(runtime);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect((sendMessage.mock.calls[0] as unknown[])[0]).toBe("999");
+    expect(pending()).toEqual([]);
+  });
+});
+
+describe("escalation of alerts delivered by the outbox", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("starts when a retry delivers the alert", async () => {
+    const { runtime, pending } = createRuntime();
+    let status = 500;
+    globalThis.fetch = (async () =>
+      new Response(null, { status })) as unknown as typeof fetch;
+    const alert = createAlert();
+    const entry = await enqueueAlert(runtime, subscriber, alert, null);
+
+    await attemptDelivery(runtime, subscriber, entry);
+    expect(pending()).toEqual([]);
+
+    status = 200;
+    const retried = ((await runtime.getCache<any[]>("pingpal_github_outbox")) ??
+      [])[0];
+    await attemptDelivery(runtime, subscriber, retried);
+    expect(pending().map((escalation) => escalation.alertId)).toEqual([
+      alert.alertId,
+    ]);
+  });
+
+  it("isn't started again for channels retried after another delivered", async () => {
+    const { runtime, pending } = createRuntime();
+    globalThis.fetch = (async () =>
+      new Response(null, { status: 200 })) as unknown as typeof fetch;
+    const entry = await enqueueAlert(runtime, subscriber, createAlert(), null, {
+      deliveredAt: Date.now(),
+    });
+
+    await attemptDelivery(runtime, subscriber, entry);
+    expect(pending()).toEqual([]);
+  });
+});
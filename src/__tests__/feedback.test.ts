@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import {
+  getFeedbackExamples,
+  getFeedbackReport,
+  recordFeedback,
+  type FeedbackRating,
+} from "../services/feedback";
+
+function createRecord(
+  threadId: string,
+  rating: FeedbackRating | null,
+  metadata: Record<string, unknown> = {},
+): Memory {
+  return {
+    id: `record-${threadId}`,
+    createdAt: Number(threadId),
+    content: { text: "" },
+    metadata: {
+      subscriberId: "alice",
+      githubNotificationId: threadId,
+      priority: rating === "missed" ? "normal" : "high",
+      sourceContext: {
+        repository: "acme/widgets",
+        notificationType: "mention",
+        subjectType: "Issue",
+        subjectTitle: `Thread ${threadId}`,
+      },
+      ...(rating ? { feedback: { rating, at: Number(threadId) } } : {}),
+      ...metadata,
+    },
+  } as unknown as Memory;
+}
+
+function createRuntime(records: Memory[]) {
+  const updates: Partial<Memory>[] = [];
+  const runtime = {
+    getMemories: async () => records,
+    updateMemory: async (memory: Partial<Memory>) => {
+      updates.push(memory);
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+  return { runtime, updates };
+}
+
+describe("recordFeedback", () => {
+  it("stores the rating on the record, keeping its metadata", async () => {
+    const record = createRecord("1", "noise");
+    const { runtime, updates } = createRuntime([record]);
+
+    await recordFeedback(runtime, record, "useful");
+    expect(updates).toHaveLength(1);
+    expect(updates[0].id).toBe(record.id);
+    expect(updates[0].metadata).toMatchObject({
+      githubNotificationId: "1",
+      priority: "high",
+      feedback: { rating: "useful" },
+    });
+  });
+});
+
+describe("getFeedbackReport", () => {
+  it("counts ratings and alert precision per repository and reason", () => {
+    const report = getFeedbackReport([
+      createRecord("1", "useful"),
+      createRecord("2", "noise"),
+      createRecord("3", "useful"),
+      createRecord("4", "missed", {
+        sourceContext: {
+          repository: "acme/gadgets",
+          notificationType: "author",
+        },
+      }),
+      createRecord("5", null),
+    ]);
+
+    expect(report.overall).toEqual({
+      useful: 2,
+      noise: 1,
+      missed: 1,
+      precision: 2 / 3,
+    });
+    expect(report.byRepository["acme/widgets"].precision).toBe(2 / 3);
+    // Missed notifications say nothing about alert precision
+    expect(report.byRepository["acme/gadgets"]).toEqual({
+      useful: 0,
+      noise: 0,
+      missed: 1,
+      precision: null,
+    });
+    expect(Object.keys(report.byReason)).toEqual(["mention", "author"]);
+  });
+});
+
+describe("getFeedbackExamples", () => {
+  const originalCount = process.env.PINGPAL_FEEDBACK_EXAMPLES;
+
+  afterEach(() => {
+    if (originalCount === undefined) {
+      delete process.env.PINGPAL_FEEDBACK_EXAMPLES;
+    } else {
+      process.env.PINGPAL_FEEDBACK_EXAMPLES = originalCount;
+    }
+  });
+
+  it("describes the subscriber's latest ratings, newest first", async () => {
+    process.env.PINGPAL_FEEDBACK_EXAMPLES = "2";
+    const { runtime } = createRuntime([
+      createRecord("1", "useful"),
+      createRecord("2", "noise"),
+      createRecord("3", "missed"),
+      createRecord("4", null),
+      createRecord("5", "useful", { subscriberId: "bob" }),
+    ]);
+
+    expect(await getFeedbackExamples(runtime, "alice")).toEqual([
+      '[acme/widgets] mention on Issue "Thread 3": rated normal without an alert; the user missed it and wanted an alert.',
+      '[acme/widgets] mention on Issue "Thread 2": rated high and alerted; the user found the alert was noise and would have preferred no alert.',
+    ]);
+  });
+
+  it("can be turned off", async () => {
+    process.env.PINGPAL_FEEDBACK_EXAMPLES = "0";
+    const { runtime } = createRuntime([createRecord("1", "useful")]);
+    expect(await getFeedbackExamples(runtime, "alice")).toEqual([]);
+  });
+});
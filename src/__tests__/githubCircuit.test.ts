@@ -0,0 +1,191 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  getCircuitOpenUntil,
+  getCircuitState,
+  recordGitHubFailure,
+  recordGitHubSuccess,
+} from "../services/githubCircuit";
+import {
+  createGitHubError,
+  GitHubApiError,
+  GitHubAuthError,
+  GitHubPermissionError,
+  GitHubRateLimitError,
+  GitHubServerError,
+} from "../services/githubErrors";
+import type { Subscriber } from "../subscribers";
+
+const MINUTE = 60 * 1000;
+
+function createSubscriber(githubToken = "token-1"): Subscriber {
+  return {
+    id: "default",
+    githubUsername: "octocat",
+    githubToken,
+    telegramChatId: "100",
+  } as Subscriber;
+}
+
+function createRuntime() {
+  const cache = new Map<string, unknown>();
+  const sendMessage = mock(async () => ({ message_id: 1 }));
+  const runtime = {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    deleteCache: async (key: string) => cache.delete(key),
+    getService: () => ({ bot: { telegram: { sendMessage } } }),
+  } as unknown as IAgentRuntime;
+  return { runtime, sendMessage };
+}
+
+function respond(
+  status: number,
+  headers: Record<string, string> = {},
+  message?: string,
+): Response {
+  return new Response(message ? JSON.stringify({ message }) : null, {
+    status,
+    headers,
+  });
+}
+
+describe("createGitHubError", () => {
+  it("tells a rejected token from a missing scope", async () => {
+    expect(await createGitHubError(respond(401))).toBeInstanceOf(
+      GitHubAuthError,
+    );
+    const permission = await createGitHubError(
+      respond(403, { "X-Accepted-OAuth-Scopes": "notifications, repo" }),
+    );
+    expect(permission).toBeInstanceOf(GitHubPermissionError);
+    expect((permission as GitHubPermissionError).acceptedScopes).toEqual([
+      "notifications",
+      "repo",
+    ]);
+  });
+
+  it("waits for the primary rate limit to reset", async () => {
+    const resetAt = Math.ceil((Date.now() + 10 * MINUTE) / 1000);
+    const error = await createGitHubError(
+      respond(403, {
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": String(resetAt),
+      }),
+    );
+    expect(error).toBeInstanceOf(GitHubRateLimitError);
+    expect((error as GitHubRateLimitError).secondary).toBe(false);
+    expect(error.retryAfterMs).toBeGreaterThan(9 * MINUTE);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(10 * MINUTE + 1000);
+  });
+
+  it("honors Retry-After on secondary rate limits, with a minute otherwise", async () => {
+    const withHeader = await createGitHubError(
+      respond(429, { "Retry-After": "30" }),
+    );
+    expect(withHeader).toBeInstanceOf(GitHubRateLimitError);
+    expect(withHeader.retryAfterMs).toBe(30 * 1000);
+
+    const fromMessage = await createGitHubError(
+      respond(403, {}, "You have exceeded a secondary rate limit."),
+    );
+    expect((fromMessage as GitHubRateLimitError).secondary).toBe(true);
+    expect(fromMessage.retryAfterMs).toBe(MINUTE);
+  });
+
+  it("classifies server errors and keeps GitHub's message", async () => {
+    const error = await createGitHubError(respond(502, {}, "Bad gateway"));
+    expect(error).toBeInstanceOf(GitHubServerError);
+    expect(error.message).toContain("(Bad gateway)");
+    const notFound = await createGitHubError(respond(404));
+    expect(notFound).toBeInstanceOf(GitHubApiError);
+    expect(notFound).not.toBeInstanceOf(GitHubServerError);
+  });
+});
+
+describe("recordGitHubFailure", () => {
+  const serverError = () => new GitHubServerError("GitHub API error: 502", 502);
+
+  it("pauses after three failures in a row, doubling up to 30 minutes", async () => {
+    const { runtime } = createRuntime();
+    const subscriber = createSubscriber();
+    const pauses: (number | null)[] = [];
+    for (let failure = 0; failure < 10; failure++) {
+      const before = Date.now();
+      const state = await recordGitHubFailure(
+        runtime,
+        subscriber,
+        serverError(),
+      );
+      pauses.push(
+        state.openUntil === null
+          ? null
+          : Math.round((state.openUntil - before) / MINUTE),
+      );
+    }
+    expect(pauses).toEqual([null, null, 1, 2, 4, 8, 16, 30, 30, 30]);
+  });
+
+  it("starts over after a success", async () => {
+    const { runtime } = createRuntime();
+    const subscriber = createSubscriber();
+    await recordGitHubFailure(runtime, subscriber, serverError());
+    await recordGitHubFailure(runtime, subscriber, serverError());
+    await recordGitHubSuccess(runtime, subscriber);
+    expect(await getCircuitState(runtime, subscriber)).toBeNull();
+
+    const state = await recordGitHubFailure(runtime, subscriber, serverError());
+    expect(state.consecutiveFailures).toBe(1);
+    expect(state.openUntil).toBeNull();
+  });
+
+  it("pauses for as long as a rate limit asks", async () => {
+    const { runtime } = createRuntime();
+    const subscriber = createSubscriber();
+    const before = Date.now();
+    await recordGitHubFailure(
+      runtime,
+      subscriber,
+      new GitHubRateLimitError("rate limited", 429, 5 * MINUTE, true),
+    );
+    const openUntil = await getCircuitOpenUntil(runtime, subscriber);
+    expect(openUntil).toBeGreaterThanOrEqual(before + 5 * MINUTE);
+    expect(openUntil).toBeLessThan(before + 5 * MINUTE + 1000);
+  });
+
+  it("alerts about a rejected token once and pauses right away", async () => {
+    const { runtime, sendMessage } = createRuntime();
+    const subscriber = createSubscriber();
+    const authError = () => new GitHubAuthError("GitHub API error: 401", 401);
+
+    const first = await recordGitHubFailure(runtime, subscriber, authError());
+    const second = await recordGitHubFailure(runtime, subscriber, authError());
+
+    expect(first.openUntil).not.toBeNull();
+    expect(first.accessAlertSentAt).not.toBeNull();
+    expect(second.accessAlertSentAt).toBe(first.accessAlertSentAt);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect((sendMessage.mock.calls[0] as unknown[])[0]).toBe("100");
+  });
+
+  it("forgets the state of a replaced token", async () => {
+    const { runtime, sendMessage } = createRuntime();
+    const authError = new GitHubAuthError("GitHub API error: 401", 401);
+    await recordGitHubFailure(runtime, createSubscriber("old"), authError);
+    expect(
+      await getCircuitOpenUntil(runtime, createSubscriber("old")),
+    ).not.toBeNull();
+
+    const replaced = createSubscriber("new");
+    expect(await getCircuitState(runtime, replaced)).toBeNull();
+    expect(await getCircuitOpenUntil(runtime, replaced)).toBeNull();
+
+    // A new token that is rejected too is alerted about again
+    const state = await recordGitHubFailure(runtime, replaced, authError);
+    expect(state.consecutiveFailures).toBe(1);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { generateKeyPairSync } from "node:crypto";
+import { PersonalAccessTokenProvider } from "../auth/pat";
+import { GitHubAppAuthProvider } from "../auth/githubApp";
+import { startDeviceFlow } from "../auth/oauthDevice";
+import {
+  getGitHubApiBaseUrl,
+  getGitHubWebBaseUrl,
+} from "../services/githubHost";
+import { GitHubService } from "../services/githubService";
+
+const ENV_NAMES = ["GITHUB_API_URL", "GITHUB_WEB_URL"];
+
+const originalEnv = Object.fromEntries(
+  ENV_NAMES.map((name) => [name, process.env[name]]),
+);
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  for (const name of ENV_NAMES) {
+    delete process.env[name];
+  }
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+/** Answers every request with `body`; records the requested URLs. */
+function mockFetch(body: unknown) {
+  const urls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    urls.push(String(input));
+    return Response.json(body);
+  }) as typeof fetch;
+  return urls;
+}
+
+describe("GitHub base URLs", () => {
+  it("default to github.com", () => {
+    expect(getGitHubApiBaseUrl()).toBe("https://api.github.com");
+    expect(getGitHubWebBaseUrl()).toBe("https://github.com");
+  });
+
+  it("derive the web URL from a GitHub Enterprise Server API URL", () => {
+    process.env.GITHUB_API_URL = "https://ghe.example.com/api/v3/";
+    expect(getGitHubApiBaseUrl()).toBe("https://ghe.example.com/api/v3");
+    expect(getGitHubWebBaseUrl()).toBe("https://ghe.example.com");
+
+    // GHE.com data residency hosts have an `api.` subdomain instead
+    process.env.GITHUB_API_URL = "https://api.acme.ghe.com";
+    expect(getGitHubWebBaseUrl()).toBe("https://acme.ghe.com");
+  });
+
+  it("prefer an explicit web URL", () => {
+    process.env.GITHUB_API_URL = "https://ghe-api.example.com";
+    process.env.GITHUB_WEB_URL = "https://code.example.com/";
+    expect(getGitHubWebBaseUrl()).toBe("https://code.example.com");
+  });
+
+  it("reject a URL that isn't absolute", () => {
+    process.env.GITHUB_API_URL = "ghe.example.com/api/v3";
+    expect(() => getGitHubApiBaseUrl()).toThrow(
+      "GITHUB_API_URL must be an absolute URL",
+    );
+  });
+});
+
+describe("requests to GitHub Enterprise Server", () => {
+  beforeEach(() => {
+    process.env.GITHUB_API_URL = "https://ghe.example.com/api/v3";
+  });
+
+  it("read the inbox from the configured API", async () => {
+    const urls = mockFetch([]);
+    const service = new GitHubService(
+      new PersonalAccessTokenProvider(`token-${Math.random()}`),
+    );
+    await service.getNotifications();
+    expect(urls[0].split("?")[0]).toBe(
+      "https://ghe.example.com/api/v3/notifications",
+    );
+  });
+
+  it("exchange GitHub App tokens on the configured API", async () => {
+    const urls = mockFetch({
+      token: "installation-token",
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    const { privateKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    await new GitHubAppAuthProvider("42", "7", privateKey).getToken();
+    expect(urls).toEqual([
+      "https://ghe.example.com/api/v3/app/installations/7/access_tokens",
+    ]);
+  });
+
+  it("start the OAuth device flow on the web host", async () => {
+    const urls = mockFetch({
+      device_code: "device",
+      user_code: "ABCD-1234",
+      verification_uri: "https://ghe.example.com/login/device",
+      expires_in: 900,
+    });
+    const code = await startDeviceFlow("client");
+    expect(urls).toEqual(["https://ghe.example.com/login/device/code"]);
+    expect(code.verificationUri).toBe("https://ghe.example.com/login/device");
+  });
+});
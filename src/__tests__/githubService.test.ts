@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { PersonalAccessTokenProvider } from "../auth/pat";
+import {
+  GitHubService,
+  type GitHubNotification,
+} from "../services/githubService";
+
+const REPO_URL = "https://api.github.com/repos/acme/widgets";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+/** Answers each URL from `responses`, 404 for the rest; records requests. */
+function mockGitHub(responses: Record<string, unknown>) {
+  const requests: { url: string; init: RequestInit }[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init = {}) => {
+    const url = String(input);
+    requests.push({ url, init });
+    return url in responses
+      ? Response.json(responses[url])
+      : new Response("{}", { status: 404 });
+  }) as typeof fetch;
+  return requests;
+}
+
+const createService = () =>
+  new GitHubService(new PersonalAccessTokenProvider(`token-${Math.random()}`));
+
+function createNotification(
+  subject: Partial<GitHubNotification["subject"]>,
+): GitHubNotification {
+  return {
+    id: "1001",
+    url: "https://api.github.com/notifications/threads/1001",
+    subject: {
+      title: "Fix the release build",
+      url: null,
+      latest_comment_url: null,
+      type: "PullRequest",
+      ...subject,
+    },
+    reason: "mention",
+    repository: {
+      id: 1,
+      name: "widgets",
+      full_name: "acme/widgets",
+      html_url: "https://github.com/acme/widgets",
+    },
+    updated_at: "2026-01-07T10:00:00Z",
+    last_read_at: null,
+    unread: true,
+  };
+}
+
+describe("getThreadContext", () => {
+  const PR_URL = `${REPO_URL}/pulls/8`;
+  const COMMENT_URL = `${REPO_URL}/issues/comments/55`;
+
+  it("collects the pull request, its latest comment, review and files", async () => {
+    mockGitHub({
+      [PR_URL]: {
+        user: { login: "alice" },
+        body: "Bumps the bundler",
+        state: "open",
+        labels: [{ name: "release" }],
+        html_url: "https://github.com/acme/widgets/pull/8",
+        changed_files: 2,
+        additions: 10,
+        deletions: 3,
+      },
+      [COMMENT_URL]: {
+        id: 55,
+        user: { login: "bob" },
+        body: "@octocat can you look at this before release?",
+        html_url: "https://github.com/acme/widgets/pull/8#issuecomment-55",
+        created_at: "2026-01-07T09:59:00Z",
+      },
+      [`${PR_URL}/reviews?per_page=100`]: [
+        { id: 1, user: { login: "carol" }, state: "APPROVED", body: "" },
+        { id: 2, user: { login: "dave" }, state: "PENDING", body: "draft" },
+      ],
+      [`${PR_URL}/files?per_page=30`]: [
+        { filename: "package.json", additions: 8, deletions: 2 },
+        { filename: "build.ts", additions: 2, deletions: 1 },
+      ],
+    });
+
+    const context = await createService().getThreadContext(
+      createNotification({ url: PR_URL, latest_comment_url: COMMENT_URL }),
+    );
+
+    expect(context).toMatchObject({
+      author: "alice",
+      body: "Bumps the bundler",
+      state: "open",
+      labels: ["release"],
+      htmlUrl: "https://github.com/acme/widgets/pull/8",
+      latestComment: {
+        id: 55,
+        author: "bob",
+        body: "@octocat can you look at this before release?",
+      },
+      // Pending reviews aren't submitted yet
+      latestReview: { id: 1, author: "carol", state: "APPROVED" },
+      pullRequest: {
+        changedFiles: 2,
+        additions: 10,
+        deletions: 3,
+        files: [
+          { filename: "package.json", additions: 8, deletions: 2 },
+          { filename: "build.ts", additions: 2, deletions: 1 },
+        ],
+      },
+    });
+  });
+
+  it("doesn't fetch the subject twice for a thread without comments", async () => {
+    const ISSUE_URL = `${REPO_URL}/issues/7`;
+    const requests = mockGitHub({
+      [ISSUE_URL]: { user: { login: "alice" }, body: null, labels: ["bug"] },
+    });
+
+    const context = await createService().getThreadContext(
+      createNotification({
+        type: "Issue",
+        url: ISSUE_URL,
+        latest_comment_url: ISSUE_URL,
+      }),
+    );
+
+    expect(requests.map((request) => request.url)).toEqual([ISSUE_URL]);
+    expect(context).toMatchObject({
+      labels: ["bug"],
+      latestComment: null,
+      latestReview: null,
+      pullRequest: null,
+    });
+  });
+
+  it("keeps what it got when the comment can't be fetched", async () => {
+    mockGitHub({ [PR_URL]: { body: "Bumps the bundler" } });
+    const context = await createService().getThreadContext(
+      createNotification({ url: PR_URL, latest_comment_url: COMMENT_URL }),
+    );
+    expect(context?.body).toBe("Bumps the bundler");
+    expect(context?.latestComment).toBeNull();
+    expect(context?.pullRequest?.files).toEqual([]);
+  });
+
+  it("is null without a subject to fetch, or when it can't be fetched", async () => {
+    mockGitHub({});
+    expect(
+      await createService().getThreadContext(createNotification({})),
+    ).toBeNull();
+    expect(
+      await createService().getThreadContext(
+        createNotification({ url: PR_URL }),
+      ),
+    ).toBeNull();
+  });
+});
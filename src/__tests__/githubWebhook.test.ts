@@ -0,0 +1,212 @@
+import { describe, expect, it } from "bun:test";
+import { createHmac } from "node:crypto";
+import {
+  normalizeWebhookEvent,
+  verifyWebhookSignature,
+} from "../routes/githubWebhook";
+
+const SECRET = "webhook-secret";
+
+function sign(body: string | Buffer, secret = SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+const repository = {
+  id: 42,
+  name: "widgets",
+  full_name: "acme/widgets",
+  html_url: "https://github.com/acme/widgets",
+};
+
+describe("verifyWebhookSignature", () => {
+  const body = '{"action":"created","note":"caf\\u00e9 \\/ 1.0"}';
+
+  it("accepts the signature of the exact body", () => {
+    expect(verifyWebhookSignature(body, sign(body), SECRET)).toBe(true);
+    expect(verifyWebhookSignature(Buffer.from(body), sign(body), SECRET)).toBe(
+      true,
+    );
+  });
+
+  it("rejects a body that was re-serialized", () => {
+    const reserialized = JSON.stringify(JSON.parse(body));
+    expect(reserialized).not.toBe(body);
+    expect(verifyWebhookSignature(reserialized, sign(body), SECRET)).toBe(
+      false,
+    );
+  });
+
+  it("rejects another secret, a missing header and other algorithms", () => {
+    expect(verifyWebhookSignature(body, sign(body, "other"), SECRET)).toBe(
+      false,
+    );
+    expect(verifyWebhookSignature(body, undefined, SECRET)).toBe(false);
+    expect(
+      verifyWebhookSignature(
+        body,
+        sign(body).replace("sha256=", "sha1="),
+        SECRET,
+      ),
+    ).toBe(false);
+    expect(verifyWebhookSignature(body, "sha256=abc", SECRET)).toBe(false);
+  });
+});
+
+describe("normalizeWebhookEvent", () => {
+  const issue = {
+    number: 7,
+    title: "Crash on start",
+    url: "https://api.github.com/repos/acme/widgets/issues/7",
+    user: { login: "someone" },
+    assignees: [],
+    body: "",
+    updated_at: "2026-01-01T10:00:00Z",
+  };
+  const comment = {
+    url: "https://api.github.com/repos/acme/widgets/issues/comments/99",
+    user: { login: "reviewer" },
+    body: "@Octocat can you look?",
+    created_at: "2026-01-01T10:05:00Z",
+    updated_at: "2026-01-01T10:05:00Z",
+  };
+
+  it("turns a comment mentioning the user into a mention", () => {
+    const notification = normalizeWebhookEvent(
+      "issue_comment",
+      { action: "created", repository, issue, comment },
+      "octocat",
+    );
+    expect(notification).toEqual({
+      id: "webhook-42-7",
+      url: issue.url,
+      repository,
+      subject: {
+        title: issue.title,
+        url: issue.url,
+        latest_comment_url: comment.url,
+        type: "Issue",
+      },
+      reason: "mention",
+      unread: true,
+      last_read_at: null,
+      updated_at: comment.updated_at,
+    });
+  });
+
+  it("points pull request comments at the pull request", () => {
+    const pullUrl = "https://api.github.com/repos/acme/widgets/pulls/7";
+    const notification = normalizeWebhookEvent(
+      "issue_comment",
+      {
+        action: "created",
+        repository,
+        issue: { ...issue, pull_request: { url: pullUrl } },
+        comment,
+      },
+      "octocat",
+    );
+    expect(notification?.subject.type).toBe("PullRequest");
+    expect(notification?.subject.url).toBe(pullUrl);
+  });
+
+  it("ignores the user's own comments and comments not addressed to them", () => {
+    expect(
+      normalizeWebhookEvent(
+        "issue_comment",
+        {
+          action: "created",
+          repository,
+          issue,
+          comment: { ...comment, user: { login: "OctoCat" } },
+        },
+        "octocat",
+      ),
+    ).toBeNull();
+    expect(
+      normalizeWebhookEvent(
+        "issue_comment",
+        {
+          action: "created",
+          repository,
+          issue,
+          comment: { ...comment, body: "Looks good" },
+        },
+        "octocat",
+      ),
+    ).toBeNull();
+    expect(
+      normalizeWebhookEvent(
+        "issue_comment",
+        { action: "deleted", repository, issue, comment },
+        "octocat",
+      ),
+    ).toBeNull();
+  });
+
+  it("turns a review request for the user into review_requested", () => {
+    const notification = normalizeWebhookEvent(
+      "pull_request",
+      {
+        action: "review_requested",
+        repository,
+        requested_reviewer: { login: "octocat" },
+        pull_request: {
+          number: 8,
+          title: "Add widgets",
+          url: "https://api.github.com/repos/acme/widgets/pulls/8",
+          updated_at: "2026-01-01T11:00:00Z",
+        },
+      },
+      "octocat",
+    );
+    expect(notification?.reason).toBe("review_requested");
+    expect(notification?.id).toBe("webhook-42-8");
+  });
+
+  it("only reports failed check suites the user triggered", () => {
+    const payload = {
+      action: "completed",
+      repository,
+      sender: { login: "octocat" },
+      check_suite: {
+        id: 5,
+        conclusion: "failure",
+        head_branch: "main",
+        url: "https://api.github.com/repos/acme/widgets/check-suites/5",
+        app: { name: "GitHub Actions" },
+        pull_requests: [],
+        updated_at: "2026-01-01T12:00:00Z",
+      },
+    };
+    const notification = normalizeWebhookEvent(
+      "check_suite",
+      payload,
+      "octocat",
+    );
+    expect(notification?.reason).toBe("ci_activity");
+    expect(notification?.subject.title).toBe("GitHub Actions failure on main");
+
+    expect(
+      normalizeWebhookEvent(
+        "check_suite",
+        { ...payload, sender: { login: "someone" } },
+        "octocat",
+      ),
+    ).toBeNull();
+    expect(
+      normalizeWebhookEvent(
+        "check_suite",
+        {
+          ...payload,
+          check_suite: { ...payload.check_suite, conclusion: "success" },
+        },
+        "octocat",
+      ),
+    ).toBeNull();
+  });
+
+  it("ignores unknown events and payloads without a repository", () => {
+    expect(normalizeWebhookEvent("star", { repository }, "octocat")).toBeNull();
+    expect(normalizeWebhookEvent("issues", {}, "octocat")).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "bun:test";
+import { classifyByHeuristics } from "../heuristics";
+import type {
+  GitHubNotification,
+  GitHubThreadContext,
+} from "../services/githubService";
+
+function createNotification(
+  overrides: Partial<GitHubNotification> = {},
+  subject: Partial<GitHubNotification["subject"]> = {},
+): GitHubNotification {
+  return {
+    id: "1",
+    url: "https://api.github.com/notifications/threads/1",
+    subject: {
+      title: "Add widgets",
+      url: "https://api.github.com/repos/acme/widgets/pulls/8",
+      latest_comment_url: null,
+      type: "PullRequest",
+      ...subject,
+    },
+    reason: "subscribed",
+    unread: true,
+    updated_at: "2026-01-01T10:00:00Z",
+    last_read_at: null,
+    repository: {
+      id: 42,
+      name: "widgets",
+      full_name: "acme/widgets",
+      html_url: "https://github.com/acme/widgets",
+    },
+    ...overrides,
+  };
+}
+
+function createContext(
+  overrides: Partial<GitHubThreadContext> = {},
+): GitHubThreadContext {
+  return {
+    author: "someone",
+    body: null,
+    state: "open",
+    labels: [],
+    htmlUrl: null,
+    latestComment: null,
+    latestReview: null,
+    pullRequest: null,
+    ...overrides,
+  };
+}
+
+const classify = (
+  notification: GitHubNotification,
+  context: GitHubThreadContext | null = null,
+) => classifyByHeuristics(notification, context, "octocat");
+
+describe("classifyByHeuristics", () => {
+  it("alerts on review requests", () => {
+    expect(
+      classify(createNotification({ reason: "review_requested" })),
+    ).toEqual({
+      priority: "high",
+      category: "review_needed",
+      reason: "Your review was requested.",
+      suggestedAction: "Review the pull request",
+      deadline: null,
+    });
+  });
+
+  it("treats a direct @-mention in the latest comment as a question", () => {
+    const result = classify(
+      createNotification(),
+      createContext({
+        latestComment: {
+          id: 1,
+          author: "someone",
+          body: "@OctoCat what do you think?",
+          htmlUrl: null,
+          createdAt: null,
+        },
+      }),
+    );
+    expect(result.priority).toBe("high");
+    expect(result.category).toBe("question");
+  });
+
+  it("flags requested changes on the user's own pull request as a blocker", () => {
+    const result = classify(
+      createNotification({ reason: "author" }),
+      createContext({
+        author: "octocat",
+        latestReview: {
+          id: 2,
+          author: "reviewer",
+          state: "CHANGES_REQUESTED",
+          body: "",
+          htmlUrl: null,
+          submittedAt: null,
+        },
+      }),
+    );
+    expect(result.category).toBe("blocker");
+  });
+
+  it("tells failed CI runs from other CI activity by the title", () => {
+    const ci = (title: string) =>
+      classify(
+        createNotification(
+          { reason: "ci_activity" },
+          { title, type: "CheckSuite", url: null },
+        ),
+      );
+    expect(ci("CI workflow run failed for main branch").category).toBe(
+      "ci_failure",
+    );
+    expect(ci("CI workflow run succeeded for main branch").priority).toBe(
+      "low",
+    );
+  });
+
+  it("rates team mentions lower than personal ones", () => {
+    expect(classify(createNotification({ reason: "mention" })).priority).toBe(
+      "high",
+    );
+    expect(
+      classify(createNotification({ reason: "team_mention" })).priority,
+    ).toBe("normal");
+  });
+
+  it("sends anything else to the digest instead of dropping it", () => {
+    expect(classify(createNotification())).toMatchObject({
+      priority: "normal",
+      category: "fyi",
+    });
+  });
+});
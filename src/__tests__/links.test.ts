@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { getNotificationWebUrl } from "../utils/links";
+import { escapeMarkdownV2Url } from "../utils/markdown";
+import type {
+  GitHubNotification,
+  GitHubThreadContext,
+} from "../services/githubService";
+
+const API = "https://api.github.com/repos/acme/widgets";
+const WEB = "https://github.com/acme/widgets";
+
+function createNotification(
+  subject: Partial<GitHubNotification["subject"]>,
+): GitHubNotification {
+  return {
+    id: "1",
+    url: "https://api.github.com/notifications/threads/1",
+    subject: {
+      title: "Crash on start",
+      url: `${API}/issues/7`,
+      latest_comment_url: null,
+      type: "Issue",
+      ...subject,
+    },
+    reason: "mention",
+    unread: true,
+    updated_at: "2026-01-01T10:00:00Z",
+    last_read_at: null,
+    repository: {
+      id: 42,
+      name: "widgets",
+      full_name: "acme/widgets",
+      html_url: WEB,
+    },
+  };
+}
+
+describe("getNotificationWebUrl", () => {
+  const originalApiUrl = process.env.GITHUB_API_URL;
+  const originalWebUrl = process.env.GITHUB_WEB_URL;
+
+  beforeEach(() => {
+    delete process.env.GITHUB_API_URL;
+    delete process.env.GITHUB_WEB_URL;
+  });
+
+  afterEach(() => {
+    for (const [name, value] of [
+      ["GITHUB_API_URL", originalApiUrl],
+      ["GITHUB_WEB_URL", originalWebUrl],
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it("anchors the subject's page to the latest comment", () => {
+    expect(
+      getNotificationWebUrl(
+        createNotification({
+          latest_comment_url: `${API}/issues/comments/99`,
+        }),
+      ),
+    ).toBe(`${WEB}/issues/7#issuecomment-99`);
+    expect(
+      getNotificationWebUrl(
+        createNotification({
+          type: "PullRequest",
+          url: `${API}/pulls/8`,
+          latest_comment_url: `${API}/pulls/comments/5`,
+        }),
+      ),
+    ).toBe(`${WEB}/pull/8#discussion_r5`);
+    expect(
+      getNotificationWebUrl(
+        createNotification({
+          type: "PullRequest",
+          url: `${API}/pulls/8`,
+          latest_comment_url: `${API}/pulls/8/reviews/3`,
+        }),
+      ),
+    ).toBe(`${WEB}/pull/8#pullrequestreview-3`);
+    expect(
+      getNotificationWebUrl(
+        createNotification({
+          type: "Commit",
+          url: `${API}/commits/abc123`,
+          latest_comment_url: `${API}/comments/4`,
+        }),
+      ),
+    ).toBe(`${WEB}/commit/abc123#commitcomment-4`);
+  });
+
+  it("adds no anchor when the latest comment is the subject itself", () => {
+    expect(
+      getNotificationWebUrl(
+        createNotification({ latest_comment_url: `${API}/issues/7` }),
+      ),
+    ).toBe(`${WEB}/issues/7`);
+  });
+
+  it("prefers the newest fetched comment or review", () => {
+    const context: GitHubThreadContext = {
+      author: "someone",
+      body: null,
+      state: "open",
+      labels: [],
+      htmlUrl: `${WEB}/pull/8`,
+      latestComment: {
+        id: 1,
+        author: "a",
+        body: "",
+        htmlUrl: `${WEB}/pull/8#issuecomment-1`,
+        createdAt: "2026-01-01T10:00:00Z",
+      },
+      latestReview: {
+        id: 2,
+        author: "b",
+        state: "APPROVED",
+        body: "",
+        htmlUrl: `${WEB}/pull/8#pullrequestreview-2`,
+        submittedAt: "2026-01-01T11:00:00Z",
+      },
+      pullRequest: null,
+    };
+    expect(getNotificationWebUrl(createNotification({}), context)).toBe(
+      `${WEB}/pull/8#pullrequestreview-2`,
+    );
+    expect(
+      getNotificationWebUrl(createNotification({}), {
+        ...context,
+        latestComment: null,
+        latestReview: null,
+      }),
+    ).toBe(`${WEB}/pull/8`);
+  });
+
+  it("builds links by subject type when there is no subject URL", () => {
+    expect(
+      getNotificationWebUrl(createNotification({ type: "Release", url: null })),
+    ).toBe(`${WEB}/releases`);
+    expect(
+      getNotificationWebUrl(
+        createNotification({ type: "WorkflowRun", url: null }),
+      ),
+    ).toBe(`${WEB}/actions`);
+    expect(
+      getNotificationWebUrl(
+        createNotification({
+          type: "Discussion",
+          url: null,
+          title: "Roadmap (2026)",
+        }),
+      ),
+    ).toBe(`${WEB}/discussions?discussions_q=%22Roadmap%20%282026%29%22`);
+  });
+
+  it("uses the configured GitHub Enterprise host", () => {
+    process.env.GITHUB_API_URL = "https://ghe.example.com/api/v3";
+    expect(
+      getNotificationWebUrl(
+        createNotification({
+          url: "https://ghe.example.com/api/v3/repos/acme/widgets/issues/7",
+        }),
+      ),
+    ).toBe("https://ghe.example.com/acme/widgets/issues/7");
+  });
+});
+
+describe("escapeMarkdownV2Url", () => {
+  it("escapes the characters that end or break a link target", () => {
+    expect(escapeMarkdownV2Url("https://example.com/a_(b)\\c")).toBe(
+      "https://example.com/a_(b\\)\\\\c",
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  setSystemTime,
+} from "bun:test";
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  cacheAnalysis,
+  getCachedAnalysis,
+  hashAnalysisInput,
+} from "../services/analysisCache";
+import {
+  getLlmCallRecords,
+  getLlmDailyUsage,
+  isLlmBudgetExhausted,
+  recordBudgetFallbacks,
+  recordCacheHits,
+  recordLlmCall,
+} from "../services/llmUsage";
+
+const ENV_NAMES = [
+  "PINGPAL_TIMEZONE",
+  "PINGPAL_LLM_DAILY_TOKEN_BUDGET",
+  "PINGPAL_LLM_DAILY_BUDGET_USD",
+  "PINGPAL_LLM_INPUT_COST_PER_1K",
+  "PINGPAL_LLM_OUTPUT_COST_PER_1K",
+];
+
+const originalEnv = Object.fromEntries(
+  ENV_NAMES.map((name) => [name, process.env[name]]),
+);
+
+beforeEach(() => {
+  for (const name of ENV_NAMES) {
+    delete process.env[name];
+  }
+  process.env.PINGPAL_TIMEZONE = "UTC";
+});
+
+afterEach(() => {
+  setSystemTime();
+  for (const [name, value] of Object.entries(originalEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+function createRuntime() {
+  const cache = new Map<string, unknown>();
+  return {
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+  } as unknown as IAgentRuntime;
+}
+
+// 4,000 characters, an estimated 1,000 tokens
+const PROMPT = "x".repeat(4000);
+const RESPONSE = "y".repeat(400);
+
+describe("LLM usage accounting", () => {
+  it("adds up estimated tokens and cost per day", async () => {
+    process.env.PINGPAL_LLM_INPUT_COST_PER_1K = "0.5";
+    process.env.PINGPAL_LLM_OUTPUT_COST_PER_1K = "2";
+    const runtime = createRuntime();
+    setSystemTime(new Date("2026-01-07T23:00:00Z"));
+
+    const record = await recordLlmCall(runtime, {
+      model: "TEXT_SMALL",
+      items: 3,
+      prompt: PROMPT,
+      response: RESPONSE,
+      ok: true,
+    });
+    expect(record).toMatchObject({
+      promptTokens: 1000,
+      completionTokens: 100,
+      costUsd: 0.7,
+    });
+    await Promise.all([
+      recordLlmCall(runtime, {
+        model: "TEXT_SMALL",
+        items: 1,
+        prompt: PROMPT,
+        response: "",
+        ok: false,
+      }),
+      recordCacheHits(runtime, 2),
+      recordBudgetFallbacks(runtime, 4),
+    ]);
+
+    const usage = await getLlmDailyUsage(runtime);
+    expect(usage).toMatchObject({
+      date: "2026-01-07",
+      calls: 2,
+      items: 4,
+      promptTokens: 2000,
+      completionTokens: 100,
+      cacheHits: 2,
+      budgetFallbacks: 4,
+    });
+    expect(usage.costUsd).toBeCloseTo(1.2);
+    expect(await getLlmCallRecords(runtime)).toHaveLength(2);
+
+    // A new day starts from zero
+    setSystemTime(new Date("2026-01-08T00:00:00Z"));
+    expect((await getLlmDailyUsage(runtime)).calls).toBe(0);
+  });
+
+  it("counts the day in PINGPAL_TIMEZONE", async () => {
+    process.env.PINGPAL_TIMEZONE = "America/New_York";
+    const runtime = createRuntime();
+    setSystemTime(new Date("2026-01-08T02:00:00Z"));
+    await recordCacheHits(runtime, 1);
+    expect((await getLlmDailyUsage(runtime)).date).toBe("2026-01-07");
+  });
+});
+
+describe("isLlmBudgetExhausted", () => {
+  const call = {
+    model: "TEXT_SMALL",
+    items: 1,
+    prompt: PROMPT,
+    response: RESPONSE,
+    ok: true,
+  };
+
+  it("never runs out without a budget", async () => {
+    const runtime = createRuntime();
+    await recordLlmCall(runtime, call);
+    expect(await isLlmBudgetExhausted(runtime)).toBe(false);
+  });
+
+  it("runs out once today's tokens reach the token budget", async () => {
+    process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET = "2200";
+    const runtime = createRuntime();
+    await recordLlmCall(runtime, call);
+    expect(await isLlmBudgetExhausted(runtime)).toBe(false);
+    await recordLlmCall(runtime, call);
+    expect(await isLlmBudgetExhausted(runtime)).toBe(true);
+  });
+
+  it("runs out once today's cost reaches the cost budget", async () => {
+    process.env.PINGPAL_LLM_DAILY_BUDGET_USD = "1";
+    process.env.PINGPAL_LLM_INPUT_COST_PER_1K = "0.5";
+    const runtime = createRuntime();
+    await recordLlmCall(runtime, call);
+    expect(await isLlmBudgetExhausted(runtime)).toBe(false);
+    await recordLlmCall(runtime, call);
+    expect(await isLlmBudgetExhausted(runtime)).toBe(true);
+  });
+
+  it("ignores budgets that aren't positive numbers", async () => {
+    process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET = "0";
+    process.env.PINGPAL_LLM_DAILY_BUDGET_USD = "lots";
+    const runtime = createRuntime();
+    await recordLlmCall(runtime, call);
+    expect(await isLlmBudgetExhausted(runtime)).toBe(false);
+  });
+});
+
+describe("analysis cache", () => {
+  it("answers identical input until the entry is a week old", async () => {
+    const runtime = createRuntime();
+    const hash = hashAnalysisInput({ subject: "Release", reason: "mention" });
+    expect(hash).toBe(
+      hashAnalysisInput({ subject: "Release", reason: "mention" }),
+    );
+    expect(hash).not.toBe(
+      hashAnalysisInput({ subject: "Release", reason: "author" }),
+    );
+
+    setSystemTime(new Date("2026-01-07T10:00:00Z"));
+    await cacheAnalysis(runtime, hash, { priority: "high" });
+    expect(await getCachedAnalysis(runtime, hash)).toEqual({
+      priority: "high",
+    });
+
+    setSystemTime(new Date("2026-01-14T09:59:00Z"));
+    expect(await getCachedAnalysis(runtime, hash)).not.toBeNull();
+    setSystemTime(new Date("2026-01-14T10:00:00Z"));
+    expect(await getCachedAnalysis(runtime, hash)).toBeNull();
+  });
+});
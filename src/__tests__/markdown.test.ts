@@ -0,0 +1,21 @@
+import { describe, expect, it } from "bun:test";
+import { escapeMarkdownV2 } from "../utils/markdown";
+
+describe("escapeMarkdownV2", () => {
+  it("escapes every character MarkdownV2 reserves", () => {
+    expect(escapeMarkdownV2("_*[]()~`>#+-=|{}.!")).toBe(
+      "\\_\\*\\[\\]\\(\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!",
+    );
+  });
+
+  it("escapes backslashes, so comment text can't break the markup", () => {
+    expect(escapeMarkdownV2("C:\\temp\\*.log")).toBe("C:\\\\temp\\\\\\*\\.log");
+    expect(escapeMarkdownV2("ends with \\")).toBe("ends with \\\\");
+  });
+
+  it("leaves other text alone", () => {
+    expect(escapeMarkdownV2("Latest: octocat: LGTM 👍")).toBe(
+      "Latest: octocat: LGTM 👍",
+    );
+  });
+});
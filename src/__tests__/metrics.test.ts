@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import { metrics, renderMetrics } from "../services/metrics";
+
+// The registry is shared by the whole process, so each test uses its own
+// label values and only looks at its own series
+function getLines(prefix: string): string[] {
+  return renderMetrics()
+    .split("\n")
+    .filter((line) => line.startsWith(prefix));
+}
+
+describe("renderMetrics", () => {
+  it("renders HELP and TYPE lines for every metric and ends with a newline", () => {
+    const output = renderMetrics();
+    expect(output.endsWith("\n")).toBe(true);
+    expect(output).toContain("# TYPE pingpal_polls_total counter\n");
+    expect(output).toContain("# TYPE pingpal_delivery_lag_seconds histogram\n");
+    expect(output).toContain("# TYPE pingpal_outbox_depth gauge\n");
+  });
+
+  it("sums counters per label set, whatever the label order", () => {
+    metrics.polls.inc({ subscriber: "counter-test", result: "ok" });
+    metrics.polls.inc({ result: "ok", subscriber: "counter-test" }, 2);
+    metrics.polls.inc({ subscriber: "counter-test", result: "ok" }, 0);
+
+    expect(getLines('pingpal_polls_total{subscriber="counter-test"')).toEqual([
+      'pingpal_polls_total{subscriber="counter-test",result="ok"} 3',
+    ]);
+  });
+
+  it("escapes label values", () => {
+    metrics.alertsSent.inc({ channel: 'quote"back\\slash\nline' });
+    expect(getLines('pingpal_alerts_sent_total{channel="quote')).toEqual([
+      'pingpal_alerts_sent_total{channel="quote\\"back\\\\slash\\nline"} 1',
+    ]);
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    const labels = { channel: "histogram-test" };
+    metrics.deliveryLag.observe(labels, 3);
+    metrics.deliveryLag.observe(labels, 20);
+    metrics.deliveryLag.observe(labels, 99999);
+    metrics.deliveryLag.observe(labels, Number.NaN);
+
+    const lines = getLines("pingpal_delivery_lag_seconds").filter((line) =>
+      line.includes('"histogram-test"'),
+    );
+    expect(lines).toContain(
+      'pingpal_delivery_lag_seconds_bucket{channel="histogram-test",le="5"} 1',
+    );
+    expect(lines).toContain(
+      'pingpal_delivery_lag_seconds_bucket{channel="histogram-test",le="30"} 2',
+    );
+    expect(lines).toContain(
+      'pingpal_delivery_lag_seconds_bucket{channel="histogram-test",le="14400"} 2',
+    );
+    expect(lines).toContain(
+      'pingpal_delivery_lag_seconds_bucket{channel="histogram-test",le="+Inf"} 3',
+    );
+    expect(lines).toContain(
+      'pingpal_delivery_lag_seconds_sum{channel="histogram-test"} 100022',
+    );
+    expect(lines).toContain(
+      'pingpal_delivery_lag_seconds_count{channel="histogram-test"} 3',
+    );
+  });
+
+  it("drops gauge series on reset", () => {
+    metrics.rateLimitRemaining.set({ subscriber: "gauge-test" }, 4999);
+    expect(
+      getLines('pingpal_github_rate_limit_remaining{subscriber="gauge-test"}'),
+    ).toEqual([
+      'pingpal_github_rate_limit_remaining{subscriber="gauge-test"} 4999',
+    ]);
+
+    metrics.rateLimitRemaining.reset();
+    expect(
+      getLines('pingpal_github_rate_limit_remaining{subscriber="gauge-test"}'),
+    ).toEqual([]);
+  });
+});
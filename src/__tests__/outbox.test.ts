@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  attemptDelivery,
+  enqueueAlert,
+  getMaxDeliveryAttempts,
+  getOutboxEntries,
+  getRetryDelayMs,
+  processOutbox,
+  type OutboxEntry,
+} from "../services/outbox";
+import type { ChannelAlert } from "../channels";
+import type { GitHubNotification } from "../services/githubService";
+import type { Subscriber } from "../subscribers";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+describe("getRetryDelayMs", () => {
+  it("doubles from 30 seconds after each failed attempt", () => {
+    expect(
+      [1, 2, 3, 4, 5].map((attempts) => getRetryDelayMs(attempts)),
+    ).toEqual([30 * SECOND, MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE]);
+  });
+
+  it("caps the backoff at an hour", () => {
+    expect(getRetryDelayMs(20)).toBe(60 * MINUTE);
+  });
+
+  it("waits at least as long as the channel asked", () => {
+    expect(getRetryDelayMs(1, 5 * MINUTE)).toBe(5 * MINUTE);
+    expect(getRetryDelayMs(4, 10 * SECOND)).toBe(4 * MINUTE);
+  });
+});
+
+describe("getMaxDeliveryAttempts", () => {
+  const original = process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS;
+    } else {
+      process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS = original;
+    }
+  });
+
+  it("reads PINGPAL_DELIVERY_MAX_ATTEMPTS and defaults to 5", () => {
+    delete process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS;
+    expect(getMaxDeliveryAttempts()).toBe(5);
+    process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS = "3";
+    expect(getMaxDeliveryAttempts()).toBe(3);
+  });
+
+  it("ignores values that aren't positive whole numbers", () => {
+    for (const value of ["0", "-2", "2.5", "many"]) {
+      process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS = value;
+      expect(getMaxDeliveryAttempts()).toBe(5);
+    }
+  });
+});
+
+describe("attemptDelivery", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function createRuntime() {
+    const cache = new Map<string, unknown>();
+    const runtime = {
+      getCache: async (key: string) => cache.get(key),
+      setCache: async (key: string, value: unknown) => {
+        cache.set(key, value);
+        return true;
+      },
+      getMemoryById: async () => null,
+    } as unknown as IAgentRuntime;
+    return { runtime, cache };
+  }
+
+  const subscriber = {
+    id: "default",
+    githubUsername: "octocat",
+    channels: [{ type: "webhook", url: "https://hooks.example.com/pingpal" }],
+  } as Subscriber;
+
+  const alert: ChannelAlert = {
+    alertId: "alert-1",
+    subscriberId: "default",
+    notification: {
+      id: "1001",
+      subject: { title: "Crash on start", type: "Issue" },
+      reason: "mention",
+      repository: { full_name: "acme/widgets" },
+      updated_at: "2026-01-07T10:00:00Z",
+    } as GitHubNotification,
+    reason: "You were asked for a fix",
+    priority: "high",
+    category: null,
+    suggestedAction: null,
+    deadline: null,
+    link: "https://github.com/acme/widgets/issues/7",
+    timeZone: "UTC",
+  };
+
+  function mockFetch(status: number, delayMs = 0) {
+    const fetchMock = mock(async () => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return new Response(null, { status });
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    return fetchMock;
+  }
+
+  it("sends an entry once when attempts overlap", async () => {
+    const { runtime } = createRuntime();
+    const fetchMock = mockFetch(200, 20);
+    const entry = await enqueueAlert(runtime, subscriber, alert, null);
+
+    const [first, second] = await Promise.all([
+      attemptDelivery(runtime, subscriber, entry),
+      attemptDelivery(runtime, subscriber, entry),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect([first.length, second.length].sort()).toEqual([0, 1]);
+    expect(await getOutboxEntries(runtime)).toEqual([]);
+  });
+
+  it("releases the claim and reschedules failed channels", async () => {
+    const { runtime } = createRuntime();
+    mockFetch(500);
+    const entry = await enqueueAlert(runtime, subscriber, alert, null);
+
+    const deliveries = await attemptDelivery(runtime, subscriber, entry);
+
+    expect(deliveries).toEqual([
+      expect.objectContaining({ channel: "webhook", ok: false }),
+    ]);
+    const [updated] = await getOutboxEntries(runtime);
+    expect(updated.attempts).toBe(1);
+    expect(updated.claimedAt).toBeNull();
+    expect(updated.pendingChannels).toEqual(["webhook"]);
+  });
+
+  it("leaves entries claimed by a running attempt to it", async () => {
+    const { runtime, cache } = createRuntime();
+    const fetchMock = mockFetch(200);
+    const claimed: OutboxEntry = {
+      alert,
+      processedMemoryId: null,
+      pendingChannels: ["webhook"],
+      attempts: 1,
+      nextAttemptAt: Date.now() - 1000,
+      lastError: "webhook: timeout",
+      enqueuedAt: Date.now() - 60_000,
+      claimedAt: Date.now() - 1000,
+    };
+    cache.set("pingpal_github_outbox", [claimed]);
+
+    await processOutbox(runtime);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await getOutboxEntries(runtime)).toEqual([claimed]);
+  });
+});
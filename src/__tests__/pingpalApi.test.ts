@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import type { IAgentRuntime, Memory, Route } from "@elizaos/core";
+import { isApiTokenValid, pingPalApiRoutes } from "../routes/pingpalApi";
+import { PROCESSED_SCAN_COUNT } from "../services/processedRecords";
+
+const TOKEN = "api-secret";
+
+const subscribers = [
+  {
+    id: "alice",
+    githubUsername: "alice",
+    githubToken: "token-a",
+    telegramChatId: "1",
+  },
+  {
+    id: "bob",
+    githubUsername: "bob",
+    githubToken: "token-b",
+    telegramChatId: "2",
+  },
+];
+
+function createRecord(
+  index: number,
+  overrides: {
+    subscriberId?: string;
+    repository?: string;
+    reason?: string;
+    priority?: string;
+  } = {},
+): Memory {
+  return {
+    id: `record-${index}`,
+    createdAt: Date.now() - index * 1000,
+    content: { text: "" },
+    metadata: {
+      subscriberId: overrides.subscriberId ?? "alice",
+      githubNotificationId: String(index),
+      priority: overrides.priority ?? "normal",
+      sourceContext: {
+        repository: overrides.repository ?? "acme/widgets",
+        notificationType: overrides.reason ?? "mention",
+      },
+    },
+  } as unknown as Memory;
+}
+
+function createRuntime(records: Memory[]) {
+  return {
+    agentId: "00000000-0000-0000-0000-000000000001",
+    getMemories: async ({ count }: { count: number }) =>
+      // The adapter returns the latest records first
+      records.slice(0, count),
+  } as unknown as IAgentRuntime;
+}
+
+function createResponse() {
+  const response = {
+    statusCode: 200,
+    body: undefined as any,
+    headersSent: false,
+    status(code: number) {
+      response.statusCode = code;
+      return response;
+    },
+    json(body: unknown) {
+      response.body = body;
+      response.headersSent = true;
+      return response;
+    },
+  };
+  return response;
+}
+
+async function request(
+  path: string,
+  runtime: IAgentRuntime,
+  { query = {}, authorization = `Bearer ${TOKEN}` } = {} as {
+    query?: Record<string, string>;
+    authorization?: string;
+  },
+) {
+  const route = pingPalApiRoutes.find(
+    (candidate) => candidate.path === path,
+  ) as Route;
+  const res = createResponse();
+  await route.handler!(
+    { path, query, params: {}, headers: { authorization } } as any,
+    res as any,
+    runtime,
+  );
+  return res;
+}
+
+describe("isApiTokenValid", () => {
+  it("accepts only the configured bearer token", () => {
+    expect(isApiTokenValid(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isApiTokenValid(`bearer  ${TOKEN} `, TOKEN)).toBe(true);
+    expect(isApiTokenValid("Bearer wrong", TOKEN)).toBe(false);
+    expect(isApiTokenValid(TOKEN, TOKEN)).toBe(false);
+    expect(isApiTokenValid(undefined, TOKEN)).toBe(false);
+  });
+});
+
+describe("PingPal API", () => {
+  const originalToken = process.env.PINGPAL_API_TOKEN;
+  const originalSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+
+  const restore = (name: string, value: string | undefined) => {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  };
+
+  beforeEach(() => {
+    process.env.PINGPAL_API_TOKEN = TOKEN;
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify(subscribers);
+  });
+
+  afterEach(() => {
+    restore("PINGPAL_API_TOKEN", originalToken);
+    restore("PINGPAL_SUBSCRIBERS", originalSubscribers);
+  });
+
+  it("is disabled without a token and rejects a wrong one", async () => {
+    const runtime = createRuntime([]);
+    expect(
+      (
+        await request("/api/pingpal/notifications", runtime, {
+          authorization: "Bearer wrong",
+        })
+      ).statusCode,
+    ).toBe(401);
+    expect(
+      (
+        await request("/api/pingpal/notifications", runtime, {
+          authorization: "",
+        })
+      ).statusCode,
+    ).toBe(401);
+
+    delete process.env.PINGPAL_API_TOKEN;
+    const disabled = await request("/api/pingpal/notifications", runtime);
+    expect(disabled.statusCode).toBe(404);
+    expect(disabled.body).toEqual({ error: "PingPal API is disabled" });
+  });
+
+  it("pages through notifications, newest first", async () => {
+    const runtime = createRuntime(
+      Array.from({ length: 5 }, (_, index) => createRecord(index)),
+    );
+    const res = await request("/api/pingpal/notifications", runtime, {
+      query: { page: "2", per_page: "2" },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      page: 2,
+      perPage: 2,
+      total: 5,
+      truncated: false,
+    });
+    expect(res.body.items.map((item: any) => item.threadId)).toEqual([
+      "2",
+      "3",
+    ]);
+  });
+
+  it("rejects malformed paging and unknown priorities", async () => {
+    const runtime = createRuntime([]);
+    for (const query of [
+      { page: "0" },
+      { per_page: "1.5" },
+      { priority: "urgent" },
+    ]) {
+      expect(
+        (await request("/api/pingpal/notifications", runtime, { query }))
+          .statusCode,
+      ).toBe(400);
+    }
+    expect(
+      (
+        await request("/api/pingpal/notifications", runtime, {
+          query: { subscriber: "carol" },
+        })
+      ).statusCode,
+    ).toBe(404);
+  });
+
+  it("filters by subscriber, repository, reason and priority", async () => {
+    const runtime = createRuntime([
+      createRecord(0),
+      createRecord(1, { subscriberId: "bob" }),
+      createRecord(2, { repository: "Acme/Gadgets" }),
+      createRecord(3, { reason: "review_requested", priority: "high" }),
+      createRecord(4, { priority: "high" }),
+    ]);
+    const threadIds = async (query: Record<string, string>) =>
+      (
+        await request("/api/pingpal/notifications", runtime, { query })
+      ).body.items.map((item: any) => item.threadId);
+
+    expect(await threadIds({ subscriber: "bob" })).toEqual(["1"]);
+    expect(await threadIds({ repo: "acme/gadgets" })).toEqual(["2"]);
+    expect(await threadIds({ reason: "review_requested" })).toEqual(["3"]);
+    expect(await threadIds({ priority: "high", subscriber: "alice" })).toEqual([
+      "3",
+      "4",
+    ]);
+  });
+
+  it("says when older records were left out of the scan", async () => {
+    const runtime = createRuntime(
+      Array.from({ length: PROCESSED_SCAN_COUNT + 1 }, (_, index) =>
+        createRecord(index),
+      ),
+    );
+    const res = await request("/api/pingpal/notifications", runtime, {
+      query: { per_page: "1" },
+    });
+    expect(res.body).toMatchObject({
+      total: PROCESSED_SCAN_COUNT,
+      scanLimit: PROCESSED_SCAN_COUNT,
+      truncated: true,
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import type { ActionResult, IAgentRuntime, Memory } from "@elizaos/core";
+import { pollGitHubNotificationsAction } from "../actions/pollGitHubNotifications";
+
+const AGENT_ID = "00000000-0000-0000-0000-000000000001";
+const NOTIFICATIONS_URL = "https://api.github.com/notifications";
+const LAST_MODIFIED = "Wed, 07 Jan 2026 10:00:00 GMT";
+
+interface InboxRequest {
+  params: URLSearchParams;
+  ifModifiedSince: string | null;
+}
+
+function createNotification(id: number, updatedAt: string) {
+  return {
+    id: String(id),
+    reason: "mention",
+    updated_at: updatedAt,
+    subject: { title: `Thread ${id}`, url: null, type: "Issue" },
+    repository: { full_name: "acme/widgets" },
+  };
+}
+
+function createRuntime() {
+  const cache = new Map<string, unknown>();
+  const analyzed: string[][] = [];
+  const runtime = {
+    agentId: AGENT_ID,
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    deleteCache: async (key: string) => cache.delete(key),
+    actions: [
+      {
+        name: "ANALYZE_GITHUB_NOTIFICATION",
+        validate: async () => true,
+        handler: async (_runtime: IAgentRuntime, message: Memory) => {
+          analyzed.push(
+            (message.content as any).githubNotifications.map(
+              (notification: { id: string }) => notification.id,
+            ),
+          );
+          return { success: true };
+        },
+      },
+    ],
+  } as unknown as IAgentRuntime;
+  const pollState = () => cache.get("pingpal_github_poll_state_default") as any;
+  return { runtime, analyzed, pollState };
+}
+
+async function poll(runtime: IAgentRuntime): Promise<ActionResult> {
+  return (await pollGitHubNotificationsAction.handler(runtime, {
+    id: crypto.randomUUID(),
+    entityId: AGENT_ID,
+    agentId: AGENT_ID,
+    roomId: AGENT_ID,
+    content: { text: "", subscriberId: "default" },
+  } as Memory)) as ActionResult;
+}
+
+describe("incremental polling", () => {
+  const originalFetch = globalThis.fetch;
+  const originalSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+  let requests: InboxRequest[];
+
+  beforeEach(() => {
+    requests = [];
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([
+      {
+        id: "default",
+        githubUsername: "octocat",
+        githubToken: `token-${Math.random()}`,
+        telegramChatId: "100",
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (originalSubscribers === undefined) {
+      delete process.env.PINGPAL_SUBSCRIBERS;
+    } else {
+      process.env.PINGPAL_SUBSCRIBERS = originalSubscribers;
+    }
+  });
+
+  /** Serves the inbox with `respond`, given the request and its page. */
+  function mockInbox(
+    respond: (request: InboxRequest, page: number) => Response,
+  ) {
+    globalThis.fetch = (async (
+      input: string | URL | Request,
+      init: RequestInit = {},
+    ) => {
+      const url = new URL(String(input));
+      const request = {
+        params: url.searchParams,
+        ifModifiedSince: new Headers(init.headers).get("If-Modified-Since"),
+      };
+      requests.push(request);
+      return respond(request, Number(url.searchParams.get("page") ?? "1"));
+    }) as typeof fetch;
+  }
+
+  it("asks only for what changed since the last poll", async () => {
+    const { runtime, analyzed, pollState } = createRuntime();
+    mockInbox((request) =>
+      request.ifModifiedSince === LAST_MODIFIED
+        ? new Response(null, {
+            status: 304,
+            headers: { "X-Poll-Interval": "90" },
+          })
+        : Response.json([createNotification(1, "2026-01-07T09:00:00Z")], {
+            headers: {
+              "Last-Modified": LAST_MODIFIED,
+              "X-Poll-Interval": "60",
+            },
+          }),
+    );
+
+    const first = await poll(runtime);
+    expect(requests[0].params.get("since")).toBeNull();
+    expect(requests[0].ifModifiedSince).toBeNull();
+    expect(first.data?.pollIntervalSeconds).toBe(60);
+    expect(analyzed).toEqual([["1"]]);
+    const since = pollState().since;
+    expect(pollState().lastModified).toBe(LAST_MODIFIED);
+
+    const second = await poll(runtime);
+    expect(requests[1].params.get("since")).toBe(since);
+    expect(requests[1].ifModifiedSince).toBe(LAST_MODIFIED);
+    expect(second.data).toMatchObject({
+      totalNotifications: 0,
+      pollIntervalSeconds: 90,
+    });
+    expect(analyzed).toHaveLength(1);
+    // A 304 keeps the window open from the last poll that returned data
+    expect(pollState().since).toBe(since);
+  });
+
+  it("follows pagination and leaves the rest of a long window for the next polls", async () => {
+    const { runtime, analyzed, pollState } = createRuntime();
+    mockInbox(() => Response.json([]));
+    await poll(runtime);
+    const since = pollState().since;
+    requests = [];
+
+    // 12 pages of one notification each, newest first, arrive before the
+    // next poll and nothing after it; at most 10 pages are fetched at a time
+    let hasNewActivity = true;
+    const updatedAt = (page: number) =>
+      new Date(
+        Date.parse("2026-01-07T12:00:00Z") - page * 60_000,
+      ).toISOString();
+    mockInbox((request, page) => {
+      const before = request.params.get("before");
+      if (!before && !hasNewActivity) {
+        return Response.json([]);
+      }
+      const pages = Array.from({ length: 12 }, (_, index) => index + 1).filter(
+        (candidate) => !before || updatedAt(candidate) < before,
+      );
+      const current = pages[page - 1];
+      const headers: Record<string, string> = {};
+      if (page < pages.length) {
+        const next = new URLSearchParams(request.params);
+        next.set("page", String(page + 1));
+        headers.Link = `<${NOTIFICATIONS_URL}?${next}>; rel="next"`;
+      }
+      return Response.json(
+        current ? [createNotification(current, updatedAt(current))] : [],
+        { headers },
+      );
+    });
+
+    await poll(runtime);
+    expect(requests).toHaveLength(10);
+    expect(analyzed[0]).toEqual(
+      Array.from({ length: 10 }, (_, index) => String(index + 1)),
+    );
+    expect(pollState().backfill).toEqual({
+      since,
+      // A second after the oldest notification fetched
+      before: new Date(Date.parse(updatedAt(10)) + 1000).toISOString(),
+    });
+
+    requests = [];
+    hasNewActivity = false;
+    await poll(runtime);
+    const backfillRequests = requests.filter((request) =>
+      request.params.has("before"),
+    );
+    expect(backfillRequests).toHaveLength(3);
+    // Thread 10 is fetched again and left to deduplication
+    expect(analyzed[1]).toEqual(["10", "11", "12"]);
+    expect(pollState().backfill).toBeUndefined();
+  });
+});
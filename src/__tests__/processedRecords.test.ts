@@ -0,0 +1,177 @@
+import { describe, expect, it } from "bun:test";
+import type { Memory } from "@elizaos/core";
+import {
+  getActivityKey,
+  isCoveredByOtherSource,
+} from "../services/processedRecords";
+import type { GitHubNotification } from "../services/githubService";
+
+const API = "https://api.github.com/repos/acme/widgets";
+
+function createNotification(
+  overrides: Partial<GitHubNotification> = {},
+  subject: Partial<GitHubNotification["subject"]> = {},
+): GitHubNotification {
+  return {
+    id: "1001",
+    url: `${API}/notifications/threads/1001`,
+    subject: {
+      title: "Add widgets",
+      url: `${API}/pulls/8`,
+      latest_comment_url: `${API}/issues/comments/500`,
+      type: "PullRequest",
+      ...subject,
+    },
+    reason: "mention",
+    repository: {
+      id: 42,
+      name: "widgets",
+      full_name: "acme/widgets",
+      html_url: "https://github.com/acme/widgets",
+    },
+    updated_at: "2026-01-07T10:00:00Z",
+    last_read_at: null,
+    unread: true,
+    ...overrides,
+  };
+}
+
+function createRecord(
+  notification: GitHubNotification,
+  metadata: Record<string, unknown> = {},
+): Memory {
+  return {
+    entityId: "00000000-0000-0000-0000-000000000001",
+    roomId: "00000000-0000-0000-0000-000000000002",
+    content: { text: "Processed" },
+    metadata: {
+      githubNotificationId: notification.id,
+      githubUpdatedAt: notification.updated_at,
+      githubNotification: notification,
+      ...metadata,
+    },
+  } as Memory;
+}
+
+const webhookId = "webhook-42-8";
+
+describe("getActivityKey", () => {
+  it("keys comments and reviews on their id", () => {
+    expect(getActivityKey(createNotification(), null)).toBe(
+      "acme/widgets:issues/comments:500",
+    );
+    expect(
+      getActivityKey(
+        createNotification(
+          {},
+          { latest_comment_url: `${API}/pulls/8/reviews/77` },
+        ),
+        null,
+      ),
+    ).toBe("acme/widgets:reviews:77");
+  });
+
+  it("keys activity without a comment on the subject and reason", () => {
+    expect(
+      getActivityKey(
+        createNotification(
+          { reason: "review_requested" },
+          { latest_comment_url: null },
+        ),
+        null,
+      ),
+    ).toBe("acme/widgets#8:review_requested");
+  });
+
+  it("keys CI on the check suite, and can't tell CI without one", () => {
+    const ci = createNotification(
+      { reason: "ci_activity" },
+      { type: "CheckSuite", url: null, latest_comment_url: null },
+    );
+    expect(getActivityKey(ci, 300)).toBe("acme/widgets:check-suite:300");
+    expect(getActivityKey(ci, null)).toBeNull();
+  });
+});
+
+describe("isCoveredByOtherSource", () => {
+  it("matches the same comment from the other source", () => {
+    const polled = createNotification();
+    const webhook = createNotification({
+      id: webhookId,
+      updated_at: "2026-01-07T09:59:30Z",
+    });
+    expect(isCoveredByOtherSource(createRecord(webhook), polled)).toBe(true);
+    expect(isCoveredByOtherSource(createRecord(polled), webhook)).toBe(true);
+  });
+
+  it("never matches records from the same source", () => {
+    const polled = createNotification();
+    expect(
+      isCoveredByOtherSource(createRecord(createNotification()), polled),
+    ).toBe(false);
+  });
+
+  it("doesn't let later activity on the same pull request hide a mention", () => {
+    const mention = createNotification();
+    // A review a minute later, judged unimportant
+    const review = createNotification(
+      { id: webhookId, reason: "author", updated_at: "2026-01-07T10:01:00Z" },
+      { latest_comment_url: `${API}/pulls/8/reviews/77` },
+    );
+    expect(isCoveredByOtherSource(createRecord(review), mention)).toBe(false);
+  });
+
+  it("doesn't match the same comment long after", () => {
+    const polled = createNotification();
+    const edited = createNotification({
+      id: webhookId,
+      updated_at: "2026-01-07T10:30:00Z",
+    });
+    expect(isCoveredByOtherSource(createRecord(edited), polled)).toBe(false);
+    expect(isCoveredByOtherSource(createRecord(polled), edited)).toBe(false);
+  });
+
+  describe("CI runs", () => {
+    const webhookSuite = (suiteId: number) =>
+      createNotification(
+        {
+          id: `webhook-42-check-suite-${suiteId}`,
+          url: `${API}/check-suites/${suiteId}`,
+          reason: "ci_activity",
+        },
+        { type: "CheckSuite", url: null, latest_comment_url: null },
+      );
+    const polled = createNotification(
+      { reason: "ci_activity" },
+      {
+        title: "CI workflow run failed for main branch",
+        type: "CheckSuite",
+        url: null,
+        latest_comment_url: null,
+      },
+    );
+
+    it("matches a polled run to the webhook's check suite once the run is known", () => {
+      const record = createRecord(webhookSuite(300));
+      expect(isCoveredByOtherSource(record, polled)).toBe(false);
+      expect(
+        isCoveredByOtherSource(record, polled, { checkSuiteId: 300 }),
+      ).toBe(true);
+    });
+
+    it("keeps failures of other runs in the same repository apart", () => {
+      expect(
+        isCoveredByOtherSource(createRecord(webhookSuite(301)), polled, {
+          checkSuiteId: 300,
+        }),
+      ).toBe(false);
+      const polledRecord = createRecord(polled, { ciCheckSuiteId: 300 });
+      expect(isCoveredByOtherSource(polledRecord, webhookSuite(300))).toBe(
+        true,
+      );
+      expect(isCoveredByOtherSource(polledRecord, webhookSuite(301))).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "bun:test";
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import {
+  holdAlert,
+  isCriticalAlert,
+  isInQuietHours,
+  type HeldAlert,
+  type QuietHoursSettings,
+} from "../services/quietHours";
+import type { GitHubNotification } from "../services/githubService";
+
+function createSettings(
+  overrides: Partial<QuietHoursSettings> = {},
+): QuietHoursSettings {
+  return {
+    window: null,
+    quietDays: [],
+    criticalLabels: [],
+    timeZone: "UTC",
+    ...overrides,
+  };
+}
+
+// 2026-01-07 is a Wednesday
+const at = (time: string, day = "2026-01-07") => new Date(`${day}T${time}Z`);
+
+describe("isInQuietHours", () => {
+  it("is never quiet without a window or quiet days", () => {
+    expect(isInQuietHours(createSettings(), at("03:00:00"))).toBe(false);
+  });
+
+  it("covers a window within the day, end excluded", () => {
+    const settings = createSettings({
+      window: { start: 9 * 60, end: 17 * 60 },
+    });
+    expect(isInQuietHours(settings, at("08:59:00"))).toBe(false);
+    expect(isInQuietHours(settings, at("09:00:00"))).toBe(true);
+    expect(isInQuietHours(settings, at("16:59:00"))).toBe(true);
+    expect(isInQuietHours(settings, at("17:00:00"))).toBe(false);
+  });
+
+  it("covers a window that wraps past midnight", () => {
+    const settings = createSettings({
+      window: { start: 22 * 60, end: 8 * 60 },
+    });
+    expect(isInQuietHours(settings, at("21:59:00"))).toBe(false);
+    expect(isInQuietHours(settings, at("23:30:00"))).toBe(true);
+    expect(isInQuietHours(settings, at("07:59:00"))).toBe(true);
+    expect(isInQuietHours(settings, at("08:00:00"))).toBe(false);
+  });
+
+  it("uses the wall clock of the configured timezone", () => {
+    const settings = createSettings({
+      window: { start: 22 * 60, end: 8 * 60 },
+      timeZone: "America/New_York",
+    });
+    // 23:30 in New York, 04:30 UTC the next day
+    expect(isInQuietHours(settings, at("04:30:00", "2026-01-08"))).toBe(true);
+    // 12:00 in New York
+    expect(isInQuietHours(settings, at("17:00:00"))).toBe(false);
+  });
+
+  it("is quiet all day on quiet days", () => {
+    const settings = createSettings({
+      window: { start: 22 * 60, end: 8 * 60 },
+      quietDays: [0, 6],
+    });
+    // Saturday noon
+    expect(isInQuietHours(settings, at("12:00:00", "2026-01-10"))).toBe(true);
+    expect(isInQuietHours(settings, at("12:00:00"))).toBe(false);
+  });
+});
+
+describe("isCriticalAlert", () => {
+  it("lets critical priorities and critical labels through", () => {
+    const settings = createSettings({ criticalLabels: ["P0", "security"] });
+    expect(isCriticalAlert(settings, "critical", [])).toBe(true);
+    expect(isCriticalAlert(settings, "high", ["p0"])).toBe(true);
+    expect(isCriticalAlert(settings, "high", ["bug"])).toBe(false);
+    expect(isCriticalAlert(settings, undefined, [])).toBe(false);
+  });
+});
+
+describe("holdAlert", () => {
+  function createRuntime() {
+    const cache = new Map<string, unknown>();
+    const runtime = {
+      getCache: async (key: string) => cache.get(key),
+      setCache: async (key: string, value: unknown) => {
+        // Yield so unserialized updates would interleave
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        cache.set(key, value);
+        return true;
+      },
+    } as unknown as IAgentRuntime;
+    return { runtime, cache };
+  }
+
+  const createHeldAlert = (threadId: string, recordId: string): HeldAlert => ({
+    subscriberId: "default",
+    notification: { id: threadId } as GitHubNotification,
+    reason: "mention",
+    processedMemoryId: recordId as UUID,
+    heldAt: Date.now(),
+  });
+
+  it("keeps the latest update per thread with the records of earlier ones", async () => {
+    const { runtime, cache } = createRuntime();
+    await Promise.all([
+      holdAlert(runtime, createHeldAlert("1", "record-a")),
+      holdAlert(runtime, createHeldAlert("2", "record-b")),
+      holdAlert(runtime, createHeldAlert("1", "record-c")),
+      holdAlert(runtime, createHeldAlert("1", "record-d")),
+    ]);
+
+    const held = cache.get("pingpal_github_held_alerts") as HeldAlert[];
+    expect(
+      held.map((alert) => [
+        alert.notification.id,
+        alert.processedMemoryId,
+        [...(alert.foldedProcessedMemoryIds ?? [])].sort(),
+      ]),
+    ).toEqual([
+      ["2", "record-b", []],
+      ["1", "record-d", ["record-a", "record-c"]],
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { PersonalAccessTokenProvider } from "../auth/pat";
+import { GitHubService } from "../services/githubService";
+import { getReviewReminderAges } from "../services/reviewReminders";
+import type { Subscriber } from "../subscribers";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("getReviewReminderAges", () => {
+  const original = process.env.PINGPAL_REVIEW_REMINDERS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.PINGPAL_REVIEW_REMINDERS;
+    } else {
+      process.env.PINGPAL_REVIEW_REMINDERS = original;
+    }
+  });
+
+  const subscriber = (reviewReminders?: string[]) =>
+    ({ id: "default", reviewReminders }) as Subscriber;
+
+  it("defaults to 4 hours, a day and three days", () => {
+    delete process.env.PINGPAL_REVIEW_REMINDERS;
+    expect(getReviewReminderAges(subscriber())).toEqual([
+      4 * HOUR,
+      24 * HOUR,
+      72 * HOUR,
+    ]);
+  });
+
+  it("reads PINGPAL_REVIEW_REMINDERS, shortest first", () => {
+    process.env.PINGPAL_REVIEW_REMINDERS = " 1d, 2h ,bogus";
+    expect(getReviewReminderAges(subscriber())).toEqual([2 * HOUR, 24 * HOUR]);
+  });
+
+  it("is empty when turned off", () => {
+    process.env.PINGPAL_REVIEW_REMINDERS = "off";
+    expect(getReviewReminderAges(subscriber())).toEqual([]);
+  });
+
+  it("prefers the subscriber's own ages", () => {
+    process.env.PINGPAL_REVIEW_REMINDERS = "off";
+    expect(getReviewReminderAges(subscriber(["8h"]))).toEqual([8 * HOUR]);
+    expect(getReviewReminderAges(subscriber([]))).toEqual([]);
+  });
+});
+
+describe("getOpenRequestStatus", () => {
+  const originalFetch = globalThis.fetch;
+  const PR_URL = "https://api.github.com/repos/acme/widgets/pulls/8";
+  const requestedAt = Date.parse("2026-01-07T10:00:00Z");
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function mockGitHub(pullRequest: unknown, reviews: unknown[] = []) {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = String(input);
+      if (url === PR_URL) {
+        return pullRequest === null
+          ? new Response("{}", { status: 404 })
+          : Response.json(pullRequest);
+      }
+      if (url.startsWith(`${PR_URL}/reviews`)) {
+        return Response.json(reviews);
+      }
+      return new Response("{}", { status: 404 });
+    }) as typeof fetch;
+  }
+
+  const service = () =>
+    new GitHubService(
+      new PersonalAccessTokenProvider(`token-${Math.random()}`),
+    );
+  const status = (kind: "review" | "assignment" = "review") =>
+    service().getOpenRequestStatus(kind, PR_URL, "OctoCat", requestedAt);
+
+  const openPr = {
+    state: "open",
+    merged: false,
+    requested_reviewers: [],
+    requested_teams: [],
+    assignees: [],
+  };
+
+  it("is pending while the user is a requested reviewer", async () => {
+    mockGitHub({ ...openPr, requested_reviewers: [{ login: "octocat" }] });
+    expect(await status()).toBe("pending");
+  });
+
+  it("stops once the user reviewed after the request", async () => {
+    mockGitHub(openPr, [
+      { user: { login: "octocat" }, submitted_at: "2026-01-07T12:00:00Z" },
+    ]);
+    expect(await status()).toBe("reviewed");
+  });
+
+  it("doesn't count a review from before the request", async () => {
+    mockGitHub(openPr, [
+      { user: { login: "octocat" }, submitted_at: "2026-01-06T12:00:00Z" },
+    ]);
+    expect(await status()).toBe("removed");
+  });
+
+  it("stays pending on a team request until the user reviews", async () => {
+    mockGitHub({ ...openPr, requested_teams: [{ slug: "core" }] });
+    expect(await status()).toBe("pending");
+  });
+
+  it("stops when the pull request is merged, closed or gone", async () => {
+    mockGitHub({ ...openPr, state: "closed", merged: true });
+    expect(await status()).toBe("merged");
+    mockGitHub({ ...openPr, state: "closed" });
+    expect(await status()).toBe("closed");
+    mockGitHub(null);
+    expect(await status()).toBe("closed");
+  });
+
+  it("follows assignees for assignments", async () => {
+    mockGitHub({ ...openPr, assignees: [{ login: "OctoCat" }] });
+    expect(await status("assignment")).toBe("pending");
+    mockGitHub(openPr);
+    expect(await status("assignment")).toBe("removed");
+  });
+
+  it("is unknown when GitHub can't be asked", async () => {
+    globalThis.fetch = (async () =>
+      new Response("{}", { status: 500 })) as unknown as typeof fetch;
+    expect(await status()).toBeNull();
+  });
+});
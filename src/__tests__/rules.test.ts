@@ -0,0 +1,154 @@
+import { describe, expect, it } from "bun:test";
+import { DEFAULT_RULE_SET, evaluateRules, type RuleSet } from "../rules";
+import type {
+  GitHubNotification,
+  GitHubThreadContext,
+} from "../services/githubService";
+
+function createNotification(
+  overrides: Partial<GitHubNotification> = {},
+): GitHubNotification {
+  return {
+    id: "1",
+    url: "https://api.github.com/notifications/threads/1",
+    subject: {
+      title: "Fix the flaky build",
+      url: "https://api.github.com/repos/acme/widgets/pulls/7",
+      latest_comment_url: null,
+      type: "PullRequest",
+    },
+    reason: "mention",
+    unread: true,
+    updated_at: "2026-01-01T10:00:00Z",
+    last_read_at: null,
+    repository: {
+      id: 42,
+      name: "widgets",
+      full_name: "acme/widgets",
+      html_url: "https://github.com/acme/widgets",
+    },
+    ...overrides,
+  };
+}
+
+function createContext(
+  overrides: Partial<GitHubThreadContext> = {},
+): GitHubThreadContext {
+  return {
+    author: "someone",
+    body: null,
+    state: "open",
+    labels: [],
+    htmlUrl: null,
+    latestComment: null,
+    latestReview: null,
+    pullRequest: null,
+    ...overrides,
+  };
+}
+
+describe("evaluateRules", () => {
+  it("sends relevant reasons to the LLM and drops the rest by default", () => {
+    expect(evaluateRules(DEFAULT_RULE_SET, createNotification(), null)).toEqual(
+      { outcome: "ask_llm", rule: "relevant-reasons", priority: undefined },
+    );
+    expect(
+      evaluateRules(
+        DEFAULT_RULE_SET,
+        createNotification({ reason: "subscribed" }),
+        null,
+      ),
+    ).toEqual({ outcome: "never_alert", rule: null });
+  });
+
+  it("lets the first matching rule decide", () => {
+    const ruleSet: RuleSet = {
+      rules: [
+        {
+          name: "security",
+          match: { title: "^security", repo: ["acme/*"] },
+          outcome: "always_alert",
+          priority: "critical",
+        },
+        { name: "acme", match: { org: ["ACME"] }, outcome: "never_alert" },
+      ],
+      defaultOutcome: "ask_llm",
+    };
+
+    expect(
+      evaluateRules(
+        ruleSet,
+        createNotification({
+          subject: {
+            ...createNotification().subject,
+            title: "Security: bump openssl",
+          },
+        }),
+        null,
+      ),
+    ).toEqual({
+      outcome: "always_alert",
+      rule: "security",
+      priority: "critical",
+    });
+    expect(evaluateRules(ruleSet, createNotification(), null)?.rule).toBe(
+      "acme",
+    );
+  });
+
+  it("matches repository globs with * stopping at / and ** crossing it", () => {
+    const ruleSet = (glob: string): RuleSet => ({
+      rules: [
+        { name: "repo", match: { repo: [glob] }, outcome: "never_alert" },
+      ],
+      defaultOutcome: "ask_llm",
+    });
+    const notification = createNotification();
+
+    expect(evaluateRules(ruleSet("acme/wid*"), notification, null)?.rule).toBe(
+      "repo",
+    );
+    expect(evaluateRules(ruleSet("*"), notification, null)?.rule).toBeNull();
+    expect(evaluateRules(ruleSet("**"), notification, null)?.rule).toBe("repo");
+  });
+
+  it("waits for the thread content when a rule needs labels or the author", () => {
+    const ruleSet: RuleSet = {
+      rules: [
+        {
+          name: "blockers",
+          match: { labels: ["Blocker"] },
+          outcome: "always_alert",
+        },
+        {
+          name: "bots",
+          match: { author: ["dependabot[bot]"] },
+          outcome: "never_alert",
+        },
+      ],
+      defaultOutcome: "ask_llm",
+    };
+    const notification = createNotification();
+
+    expect(evaluateRules(ruleSet, notification, undefined)).toBeNull();
+    expect(
+      evaluateRules(
+        ruleSet,
+        notification,
+        createContext({ labels: ["blocker"] }),
+      )?.rule,
+    ).toBe("blockers");
+    expect(
+      evaluateRules(
+        ruleSet,
+        notification,
+        createContext({ author: "dependabot[bot]" }),
+      )?.rule,
+    ).toBe("bots");
+    // Unavailable content: no labels and an unknown author
+    expect(evaluateRules(ruleSet, notification, null)).toEqual({
+      outcome: "ask_llm",
+      rule: null,
+    });
+  });
+});
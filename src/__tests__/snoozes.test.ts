@@ -0,0 +1,133 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import {
+  holdSnoozedActivity,
+  processDueSnoozes,
+} from "../services/alertActions";
+
+const SNOOZE_CACHE_KEY = "pingpal_github_snoozes";
+
+function createRuntime(until: number) {
+  const cache = new Map<string, unknown>([
+    [
+      SNOOZE_CACHE_KEY,
+      [
+        {
+          alertId: "alert-1",
+          subscriberId: "default",
+          threadId: "1001",
+          until,
+        },
+      ],
+    ],
+    [
+      "pingpal_github_alert_alert-1",
+      {
+        alertId: "alert-1",
+        subscriberId: "default",
+        notification: { id: "1001" },
+        reason: "You were mentioned",
+        priority: "high",
+        text: "",
+        link: "https://github.com/acme/widgets/issues/7",
+      },
+    ],
+  ]);
+  const sent: Memory[] = [];
+  const runtime = {
+    agentId: "00000000-0000-0000-0000-000000000001",
+    getCache: async (key: string) => cache.get(key),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, value);
+      return true;
+    },
+    actions: [
+      {
+        name: "SEND_NOTIFICATION",
+        validate: async () => true,
+        handler: mock(async (_runtime: IAgentRuntime, message: Memory) => {
+          sent.push(message);
+        }),
+      },
+    ],
+  } as unknown as IAgentRuntime;
+  return { runtime, cache, sent };
+}
+
+const activity = (recordId: string, reason: string) => ({
+  text: "Send notification",
+  githubNotification: { id: "1001" },
+  analysisReason: reason,
+  priority: "high",
+  processedMemoryId: recordId,
+  subscriberId: "default",
+});
+
+describe("holdSnoozedActivity", () => {
+  it("doesn't hold activity on threads that aren't snoozed", async () => {
+    const { runtime } = createRuntime(Date.now() - 1000);
+    expect(
+      await holdSnoozedActivity(
+        runtime,
+        "default",
+        "1001",
+        activity("record-a", "New comment"),
+      ),
+    ).toBe(false);
+    expect(
+      await holdSnoozedActivity(
+        runtime,
+        "default",
+        "2002",
+        activity("record-a", "New comment"),
+      ),
+    ).toBe(false);
+  });
+
+  it("sends the latest activity when the snooze ends, with the records of earlier activity", async () => {
+    const { runtime, cache, sent } = createRuntime(Date.now() + 60_000);
+    for (const [recordId, reason] of [
+      ["record-a", "First comment"],
+      ["record-b", "Second comment"],
+      ["record-c", "Review requested"],
+    ]) {
+      expect(
+        await holdSnoozedActivity(
+          runtime,
+          "default",
+          "1001",
+          activity(recordId, reason),
+        ),
+      ).toBe(true);
+    }
+
+    await processDueSnoozes(runtime);
+    expect(sent).toEqual([]);
+
+    cache.set(
+      SNOOZE_CACHE_KEY,
+      (cache.get(SNOOZE_CACHE_KEY) as any[]).map((snooze) => ({
+        ...snooze,
+        until: Date.now() - 1,
+      })),
+    );
+    await processDueSnoozes(runtime);
+
+    expect(sent).toHaveLength(1);
+    const content = sent[0].content as Record<string, any>;
+    expect(content.processedMemoryId).toBe("record-c");
+    expect(content.foldedProcessedMemoryIds).toEqual(["record-a", "record-b"]);
+    expect(content.analysisReason).toContain("Review requested");
+    expect(cache.get(SNOOZE_CACHE_KEY)).toEqual([]);
+  });
+
+  it("re-sends the snoozed alert when nothing happened", async () => {
+    const { runtime, sent } = createRuntime(Date.now() - 1);
+    await processDueSnoozes(runtime);
+
+    expect(sent).toHaveLength(1);
+    const content = sent[0].content as Record<string, any>;
+    expect(content.analysisReason).toBe("⏰ Snooze over. You were mentioned");
+    expect(content.processedMemoryId).toBeUndefined();
+  });
+});
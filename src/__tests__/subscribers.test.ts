@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import type { Memory } from "@elizaos/core";
+import {
+  DEFAULT_SUBSCRIBER_ID,
+  getSubscriberForMessage,
+  loadSubscribers,
+} from "../subscribers";
+
+const ENV_NAMES = [
+  "PINGPAL_SUBSCRIBERS",
+  "GITHUB_ACCESS_TOKEN",
+  "PINGPAL_GITHUB_AUTH_MODE",
+  "PINGPAL_TARGET_GITHUB_USERNAME",
+  "PINGPAL_TARGET_TELEGRAM_USERID",
+  "PINGPAL_CHANNELS",
+];
+
+const alice = {
+  id: "alice",
+  githubUsername: "alice",
+  githubToken: "token-a",
+  telegramChatId: 1,
+};
+const bob = {
+  id: "bob",
+  githubUsername: "bob",
+  githubToken: "token-b",
+  channels: [{ type: "slack", webhookUrl: "https://hooks.slack.com/x" }],
+};
+
+describe("loadSubscribers", () => {
+  const originalEnv = Object.fromEntries(
+    ENV_NAMES.map((name) => [name, process.env[name]]),
+  );
+
+  beforeEach(() => {
+    for (const name of ENV_NAMES) {
+      delete process.env[name];
+    }
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it("reads every profile from PINGPAL_SUBSCRIBERS", () => {
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([alice, bob]);
+    const subscribers = loadSubscribers();
+    expect(subscribers.map((subscriber) => subscriber.id)).toEqual([
+      "alice",
+      "bob",
+    ]);
+    // Numeric chat ids are accepted as strings
+    expect(subscribers[0].telegramChatId).toBe("1");
+  });
+
+  it("rejects profiles that can't be polled or alerted", () => {
+    for (const [subscribers, message] of [
+      [[alice, { ...bob, id: "alice" }], "Subscriber ids must be unique"],
+      [
+        [{ ...alice, telegramChatId: undefined }],
+        "telegramChatId is required for Telegram delivery",
+      ],
+      [[{ ...bob, githubToken: undefined }], "githubToken or githubAuth"],
+      [[], "at least one subscriber"],
+    ] as const) {
+      process.env.PINGPAL_SUBSCRIBERS = JSON.stringify(subscribers);
+      expect(() => loadSubscribers()).toThrow(message);
+    }
+
+    process.env.PINGPAL_SUBSCRIBERS = "[{";
+    expect(() => loadSubscribers()).toThrow("not valid JSON");
+  });
+
+  it("falls back to a single subscriber from the environment", () => {
+    process.env.GITHUB_ACCESS_TOKEN = "token";
+    process.env.PINGPAL_TARGET_GITHUB_USERNAME = "octocat";
+    process.env.PINGPAL_TARGET_TELEGRAM_USERID = "100";
+    expect(loadSubscribers()).toEqual([
+      {
+        id: DEFAULT_SUBSCRIBER_ID,
+        githubUsername: "octocat",
+        githubToken: "token",
+        telegramChatId: "100",
+        channels: undefined,
+      },
+    ]);
+
+    delete process.env.PINGPAL_TARGET_TELEGRAM_USERID;
+    expect(() => loadSubscribers()).toThrow("PINGPAL_TARGET_TELEGRAM_USERID");
+  });
+
+  it("finds the subscriber a message is about", () => {
+    process.env.PINGPAL_SUBSCRIBERS = JSON.stringify([alice, bob]);
+    const message = (subscriberId?: string) =>
+      ({ content: { text: "", subscriberId } }) as Memory;
+
+    expect(getSubscriberForMessage(message("bob"))?.id).toBe("bob");
+    expect(getSubscriberForMessage(message())?.id).toBe("alice");
+    expect(getSubscriberForMessage(message("carol"))).toBeNull();
+  });
+});
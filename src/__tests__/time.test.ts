@@ -0,0 +1,51 @@
+import { describe, expect, it } from "bun:test";
+import { getZonedTime, parseDuration } from "../utils/time";
+
+describe("parseDuration", () => {
+  it("parses minutes, hours and days", () => {
+    expect(parseDuration("30m")).toBe(30 * 60 * 1000);
+    expect(parseDuration("2h")).toBe(2 * 60 * 60 * 1000);
+    expect(parseDuration("1d")).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it("ignores case and surrounding whitespace", () => {
+    expect(parseDuration(" 2H ")).toBe(2 * 60 * 60 * 1000);
+    expect(parseDuration("15 m")).toBe(15 * 60 * 1000);
+  });
+
+  it("rejects zero, fractions, other units and missing units", () => {
+    for (const value of ["0h", "1.5h", "2w", "10", "h", "", "-1h", "off"]) {
+      expect(parseDuration(value)).toBeNull();
+    }
+  });
+});
+
+describe("getZonedTime", () => {
+  const toIso = (time: number) => new Date(time).toISOString();
+
+  it("finds the instant of a wall-clock time in the timezone", () => {
+    expect(toIso(getZonedTime(2026, 10, 20, 9 * 60, "UTC"))).toBe(
+      "2026-10-20T09:00:00.000Z",
+    );
+    expect(toIso(getZonedTime(2026, 10, 20, 9 * 60, "Europe/Berlin"))).toBe(
+      "2026-10-20T07:00:00.000Z",
+    );
+    expect(toIso(getZonedTime(2026, 10, 20, 9 * 60, "Asia/Kolkata"))).toBe(
+      "2026-10-20T03:30:00.000Z",
+    );
+  });
+
+  it("uses the offset in effect on that day across DST changes", () => {
+    // Berlin switches to summer time at 02:00 on 2026-03-29
+    expect(toIso(getZonedTime(2026, 3, 28, 9 * 60, "Europe/Berlin"))).toBe(
+      "2026-03-28T08:00:00.000Z",
+    );
+    expect(toIso(getZonedTime(2026, 3, 29, 9 * 60, "Europe/Berlin"))).toBe(
+      "2026-03-29T07:00:00.000Z",
+    );
+    // New York falls back to standard time on 2026-11-01
+    expect(toIso(getZonedTime(2026, 11, 1, 9 * 60, "America/New_York"))).toBe(
+      "2026-11-01T14:00:00.000Z",
+    );
+  });
+});
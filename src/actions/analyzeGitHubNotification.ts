@@ -9,30 +9,123 @@ import type {
   HandlerCallback,
   UUID,
 } from "@elizaos/core";
+import { logger, ModelType, parseJSONObjectFromText } from "@elizaos/core";
 import {
-  logger,
-  ModelType,
-  parseJSONObjectFromText,
-  stringToUuid,
-} from "@elizaos/core";
-import { GitHubNotification } from "../services/githubService";
+  GitHubCiRun,
+  GitHubNotification,
+  GitHubThreadContext,
+} from "../services/githubService";
+import { createGitHubService } from "../auth";
+import { isRepoMuted } from "../services/subscriberControls";
+import {
+  cacheAnalysis,
+  getCachedAnalysis,
+  hashAnalysisInput,
+} from "../services/analysisCache";
+import {
+  isLlmBudgetExhausted,
+  recordBudgetFallbacks,
+  recordCacheHits,
+  recordLlmCall,
+} from "../services/llmUsage";
+import { getFeedbackExamples } from "../services/feedback";
+import {
+  classifyCiRun,
+  getCiLogTailLines,
+  isCiNotification,
+  summarizeCiFailure,
+} from "../services/ciFailures";
+import { trackOpenRequest } from "../services/reviewReminders";
+import {
+  getRecordSubscriberId,
+  isCoveredByOtherSource
+} from "../services/processedRecords";
+import { metrics } from "../services/metrics";
+import { getInternalRoomIdForAgent } from "../utils/internalRoom";
+import { getNotificationWebUrl } from "../utils/links";
+import {
+  DEFAULT_SUBSCRIBER_ID,
+  getSubscriberForMessage,
+  loadSubscribers,
+  type Subscriber,
+} from "../subscribers";
+import { classifyByHeuristics } from "../heuristics";
+import {
+  evaluateRules,
+  getRuleSetForSubscriber,
+  type RuleDecision,
+} from "../rules";
+import {
+  CATEGORIES,
+  getDeliveryRoute,
+  isCategory,
+  isPriority,
+  PRIORITIES,
+  type Category,
+  type Priority,
+} from "../priority";
+
+// In-memory cache for performance optimization only (optional enhancement)
+// Keyed by subscriber + thread id + updated_at, so new activity on a known thread is not a cache hit
+const processedNotificationIds = new Set<string>();
+const MAX_CACHE_SIZE = 1000; // Keep last 1000 processed notification IDs in memory for performance
 
 /**
- * Generates a consistent internal room ID for the agent following the email plugin pattern
+ * What the LLM returns for one notification.
  */
-const getInternalRoomIdForAgent = (agentId: UUID): UUID => {
-  // Take first 13 chars of agentId to create a unique suffix (following email plugin pattern)
-  const agentSpecificRoomSuffix = agentId.slice(0, 13);
+interface LlmAnalysis {
+  priority: Priority;
+  category: Category | null;
+  reason: string;
+  suggestedAction: string | null;
+  /** Deadline mentioned in the thread, as the LLM phrased it. */
+  deadline: string | null;
+}
 
-  // Use stringToUuid with a clean, short seed string for proper UUID generation
-  return stringToUuid(
-    `pingpal-github-internal-room-${agentSpecificRoomSuffix}`
-  );
-};
+/**
+ * Outcome of analyzing one notification. The priority decides where it goes
+ * (see `getDeliveryRoute`). `decidedBy` traces the decision to a named rule
+ * (`rule:<name>`), the rules' default outcome (`rule:default`), the LLM
+ * (`llm`, or `llm:cache` for a cached answer), the CI run's failed jobs
+ * (`ci`) or the heuristics, after an LLM failure (`heuristic`) or once the
+ * daily LLM budget is used up (`budget`).
+ */
+interface AnalysisResult extends LlmAnalysis {
+  decidedBy: string;
+}
 
-// In-memory cache for performance optimization only (optional enhancement)
-const processedNotificationIds = new Set<string>();
-const MAX_CACHE_SIZE = 1000; // Keep last 1000 processed notification IDs in memory for performance
+/**
+ * What PingPal knew about a thread the last time it processed it, so the
+ * analysis can focus on what changed since then.
+ */
+interface PreviousThreadActivity {
+  processedAt: number;
+  updatedAt: string | null;
+  latestCommentId: number | null;
+  priority: Priority | null;
+  alerted: boolean;
+  reason: string | null;
+}
+
+/**
+ * Dedup key for one state of a thread. GitHub reuses the thread id for every
+ * update on an issue/PR, so the id alone would suppress all later activity.
+ */
+const getThreadActivityKey = (
+  notification: GitHubNotification,
+  subscriberId: string
+): string => `${subscriberId}:${notification.id}@${notification.updated_at}`;
+
+// Rough token budget for thread content in the analysis prompt (~4 chars per token)
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 1500;
+const CHARS_PER_TOKEN = 4;
+// Notifications per LLM call unless PINGPAL_LLM_BATCH_SIZE says otherwise
+const DEFAULT_LLM_BATCH_SIZE = 8;
+// Re-analysis after an LLM failure: 5 minutes, doubling per failed attempt
+const REANALYSIS_BASE_DELAY_MS = 5 * 60 * 1000;
+const MAX_REANALYSIS_ATTEMPTS = 5;
+// Length of the latest-activity snippet on coalesced Telegram alerts
+const SNIPPET_MAX_CHARS = 200;
 
 export const analyzeGitHubNotificationAction: Action = {
   name: "ANALYZE_GITHUB_NOTIFICATION",
@@ -45,7 +138,10 @@ export const analyzeGitHubNotificationAction: Action = {
     message: Memory,
     _state?: State
   ): Promise<boolean> => {
-    return !!(message.content as any)?.githubNotification;
+    const content = message.content as any;
+    return !!(
+      content?.githubNotification || content?.githubNotifications?.length
+    );
   },
 
   handler: async (
@@ -55,172 +151,918 @@ export const analyzeGitHubNotificationAction: Action = {
     _options?: Record<string, unknown>,
     _callback?: HandlerCallback
   ): Promise<ActionResult> => {
-    try {
-      const notification = (message.content as any)
-        .githubNotification as GitHubNotification;
+    const content = message.content as any;
+    // A poll hands over all its new notifications at once, so the ones the
+    // rules leave undecided are classified in batched LLM calls
+    const notifications = (content.githubNotifications ?? [
+      content.githubNotification,
+    ]) as GitHubNotification[];
+    // Set by the reprocess API: analyze again even if already processed
+    const reprocess = content.reprocess === true;
 
-      logger.info(
-        {
-          notificationId: notification.id,
-          reason: notification.reason,
-          repository: notification.repository.full_name,
-          subject: notification.subject.title,
-          type: notification.subject.type,
-        },
-        "[PingPal GitHub] Analyzing GitHub notification..."
+    const subscriber = getSubscriberForMessage(message);
+    if (!subscriber) {
+      return toFailureResult(
+        new Error(
+          `No PingPal subscriber configured for '${content.subscriberId ?? "(none)"}'`
+        ),
+        notifications[0]?.id
       );
+    }
 
-      // DATABASE-FIRST DEDUPLICATION - Following email plugin pattern
-      // Check database as PRIMARY source of truth for persistent deduplication
+    const results: ActionResult[] = new Array(notifications.length);
+    const prepared: { index: number; item: PreparedNotification }[] = [];
+    for (const [index, notification] of notifications.entries()) {
       try {
-        const processedMemories = await runtime.getMemories({
-          tableName: "pingpal_github_processed",
-          agentId: runtime.agentId,
-          count: 200, // Check last 200 processed notifications
-        });
-
-        const isDuplicate = processedMemories.some((memory) => {
-          const metadata = memory.metadata as Record<string, unknown>;
-          return metadata?.githubNotificationId === notification.id;
-        });
-
-        if (isDuplicate) {
-          logger.info(
-            { notificationId: notification.id },
-            "[PingPal GitHub] Duplicate notification detected (database). Skipping."
-          );
-
-          // Add to in-memory cache for performance optimization
-          processedNotificationIds.add(notification.id);
-
-          return {
-            success: true,
-            text: `Skipped duplicate notification ${notification.id}`,
-            data: { skipped: true, reason: "duplicate" },
-          };
-        }
-      } catch (dbError) {
-        logger.warn(
-          { error: dbError, notificationId: notification.id },
-          "[PingPal GitHub] Error checking database for duplicates. Falling back to in-memory check only."
+        const preparation = await prepareNotification(
+          runtime,
+          subscriber,
+          notification,
+          reprocess
         );
-
-        // Fallback to in-memory check if database fails
-        if (processedNotificationIds.has(notification.id)) {
-          logger.info(
-            { notificationId: notification.id },
-            "[PingPal GitHub] Duplicate notification detected (in-memory fallback). Skipping."
-          );
-          return {
-            success: true,
-            text: `Skipped duplicate notification ${notification.id}`,
-            data: { skipped: true, reason: "duplicate" },
-          };
+        if ("result" in preparation) {
+          results[index] = preparation.result;
+        } else {
+          prepared.push({ index, item: preparation.prepared });
         }
+      } catch (error) {
+        results[index] = toFailureResult(error, notification.id);
       }
+    }
 
-      // Perform LLM analysis
-      const targetUsername = process.env.PINGPAL_TARGET_GITHUB_USERNAME;
-      const analysisResult = await performImportanceAnalysis(
+    let llmResults = new Map<PreparedNotification, AnalysisResult>();
+    try {
+      llmResults = await classifyWithLlm(
         runtime,
-        notification,
-        targetUsername || ""
+        subscriber,
+        prepared
+          .map(({ item }) => item)
+          .filter(
+            (item) => item.decision.outcome === "ask_llm" && !item.ciRun
+          )
       );
-
-      // Log processed notification to database FIRST (primary persistence)
-      // This must succeed for proper deduplication across restarts
-      await logProcessedNotification(
-        runtime,
-        notification,
-        analysisResult,
-        message.roomId
+    } catch (error) {
+      logger.error(
+        { error, subscriberId: subscriber.id },
+        "[PingPal GitHub] LLM classification failed"
       );
+    }
+    // CI runs are judged from their failed jobs instead
+    for (const { item } of prepared) {
+      if (item.decision.outcome === "ask_llm" && item.ciRun) {
+        llmResults.set(
+          item,
+          await classifyCiNotification(runtime, subscriber, item.ciRun)
+        );
+      }
+    }
 
-      // Add to in-memory cache for performance optimization (secondary)
-      processedNotificationIds.add(notification.id);
-
-      // Maintain cache size limit
-      if (processedNotificationIds.size > MAX_CACHE_SIZE) {
-        // Remove oldest entries (in a Set, the first entries are the oldest)
-        const oldestIds = Array.from(processedNotificationIds).slice(
-          0,
-          processedNotificationIds.size - MAX_CACHE_SIZE + 100
+    for (const { index, item } of prepared) {
+      try {
+        results[index] = await completeNotification(
+          runtime,
+          message,
+          subscriber,
+          item,
+          llmResults.get(item) ?? null
         );
-        oldestIds.forEach((id) => processedNotificationIds.delete(id));
+      } catch (error) {
+        results[index] = toFailureResult(error, item.notification.id);
       }
+    }
 
-      // Send Telegram notification if important
-      if (analysisResult && analysisResult.important) {
-        // Create a new memory for the Telegram action
-        const telegramMemory: Memory = {
-          id: crypto.randomUUID(),
-          entityId: runtime.agentId,
-          roomId: message.roomId,
-          agentId: runtime.agentId,
-          content: {
-            text: "Send Telegram notification",
-            githubNotification: notification,
-            analysisReason: analysisResult.reason,
-          },
-          createdAt: Date.now(),
-        };
+    if (notifications.length === 1) {
+      return results[0];
+    }
+    return {
+      success: results.every((result) => result.success),
+      text: `Analyzed ${notifications.length} notifications`,
+      data: {
+        results: results.map((result, index) => ({
+          notificationId: notifications[index].id,
+          success: result.success,
+          ...result.data,
+        })),
+      },
+    };
+  },
+};
+
+function toFailureResult(
+  error: unknown,
+  notificationId: string | undefined
+): ActionResult {
+  logger.error(
+    {
+      error:
+        error instanceof Error
+          ? {
+              name: error.name,
+              message: error.message,
+              stack: error.stack,
+            }
+          : String(error),
+      notificationId,
+    },
+    "[PingPal GitHub] Failed to analyze GitHub notification"
+  );
+  return {
+    success: false,
+    error: error instanceof Error ? error : new Error(String(error)),
+  };
+}
+
+/**
+ * Everything known about a notification once the checks that need no LLM
+ * are done: it is new, not muted, its thread is fetched and the rules had
+ * their say.
+ */
+interface PreparedNotification {
+  notification: GitHubNotification;
+  threadContext: GitHubThreadContext | null;
+  previousActivity: PreviousThreadActivity | null;
+  decision: RuleDecision;
+  /** The workflow run behind a CI notification, if it could be found. */
+  ciRun: GitHubCiRun | null;
+  /** Forced re-analysis: the analysis cache is bypassed. */
+  reprocess: boolean;
+}
+
+/**
+ * Skips muted repositories and duplicates (unless reprocessing), fetches the
+ * thread and applies the rules. Yields an action result when there is
+ * nothing left to do.
+ */
+async function prepareNotification(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  notification: GitHubNotification,
+  reprocess = false
+): Promise<{ prepared: PreparedNotification } | { result: ActionResult }> {
+  logger.info(
+    {
+      subscriberId: subscriber.id,
+      notificationId: notification.id,
+      reason: notification.reason,
+      repository: notification.repository.full_name,
+      subject: notification.subject.title,
+      type: notification.subject.type,
+    },
+    "[PingPal GitHub] Analyzing GitHub notification..."
+  );
 
-        // Find and execute the SEND_TELEGRAM_NOTIFICATION action
-        const sendTelegramAction = runtime.actions?.find(
-          (action) => action.name === "SEND_TELEGRAM_NOTIFICATION"
+  // Repositories muted from the chat are skipped before any work is done
+  if (
+    await isRepoMuted(
+      runtime,
+      subscriber.id,
+      notification.repository.full_name
+    )
+  ) {
+    logger.info(
+      {
+        subscriberId: subscriber.id,
+        notificationId: notification.id,
+        repository: notification.repository.full_name,
+      },
+      "[PingPal GitHub] Repository is muted. Skipping."
+    );
+    return {
+      result: {
+        success: true,
+        text: `Skipped notification ${notification.id} from muted repository`,
+        data: { skipped: true, reason: "muted_repo" },
+      },
+    };
+  }
+
+  // DATABASE-FIRST DEDUPLICATION - Following email plugin pattern
+  // Check database as PRIMARY source of truth for persistent deduplication
+  let previousActivity: PreviousThreadActivity | null = null;
+  // Records of this subscriber, for matching activity from the other source
+  let subscriberMemories: Memory[] = [];
+  try {
+    const processedMemories = await runtime.getMemories({
+      tableName: "pingpal_github_processed",
+      agentId: runtime.agentId,
+      count: 200, // Check last 200 processed notifications
+    });
+
+    const threadMemories = processedMemories
+      .filter((memory) => {
+        const metadata = memory.metadata as Record<string, unknown>;
+        // Dedup is per subscriber: one person's processed thread must not suppress another's alert
+        return (
+          metadata?.githubNotificationId === notification.id &&
+          (metadata.subscriberId ?? DEFAULT_SUBSCRIBER_ID) === subscriber.id
         );
+      })
+      .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
 
-        if (sendTelegramAction) {
-          if (await sendTelegramAction.validate(runtime, telegramMemory)) {
-            await sendTelegramAction.handler(runtime, telegramMemory);
-          }
-        } else {
-          logger.warn(
-            "[PingPal GitHub] SEND_TELEGRAM_NOTIFICATION action not found"
-          );
-        }
+    const isSameActivity = (memory: Memory) => {
+      const metadata = memory.metadata as Record<string, unknown>;
+      if (typeof metadata?.githubUpdatedAt === "string") {
+        return metadata.githubUpdatedAt === notification.updated_at;
       }
+      // Records from before updated_at was stored: treat as covering anything up to when they were written
+      return (
+        (memory.createdAt ?? 0) >= Date.parse(notification.updated_at)
+      );
+    };
+    subscriberMemories = processedMemories.filter(
+      (memory) =>
+        !!memory.metadata && getRecordSubscriberId(memory) === subscriber.id
+    );
+    // In "both" ingestion mode the other source may have brought the same activity
+    const isDuplicate =
+      threadMemories.some(isSameActivity) ||
+      subscriberMemories.some((memory) =>
+        isCoveredByOtherSource(memory, notification)
+      );
+    // A reprocessed thread is compared with what came before this state
+    const earlierMemories = threadMemories.filter(
+      (memory) => !isSameActivity(memory)
+    );
 
-      return {
-        success: true,
-        text: `Analyzed notification ${notification.id}. Important: ${
-          analysisResult?.important || false
-        }`,
-        data: {
+    if (isDuplicate && !reprocess) {
+      logger.info(
+        {
           notificationId: notification.id,
-          important: analysisResult?.important || false,
-          reason: analysisResult?.reason || "Analysis failed",
+          updatedAt: notification.updated_at,
+        },
+        "[PingPal GitHub] Duplicate notification detected (database). Skipping."
+      );
+      metrics.notificationsDuplicate.inc({ subscriber: subscriber.id });
+
+      // Add to in-memory cache for performance optimization
+      processedNotificationIds.add(
+        getThreadActivityKey(notification, subscriber.id)
+      );
+
+      return {
+        result: {
+          success: true,
+          text: `Skipped duplicate notification ${notification.id}`,
+          data: { skipped: true, reason: "duplicate" },
         },
       };
-    } catch (error) {
-      logger.error(
+    }
+
+    if (isDuplicate) {
+      logger.info(
+        { notificationId: notification.id },
+        "[PingPal GitHub] Reprocessing an already processed notification."
+      );
+    }
+
+    if (earlierMemories.length > 0) {
+      const metadata = earlierMemories[0].metadata as Record<string, unknown>;
+      previousActivity = {
+        processedAt: earlierMemories[0].createdAt ?? 0,
+        updatedAt:
+          typeof metadata.githubUpdatedAt === "string"
+            ? metadata.githubUpdatedAt
+            : null,
+        latestCommentId:
+          typeof metadata.latestCommentId === "number"
+            ? metadata.latestCommentId
+            : null,
+        priority: isPriority(metadata.priority) ? metadata.priority : null,
+        alerted: metadata.notifiedViaTelegram === true,
+        reason:
+          typeof metadata.analysisResult === "string"
+            ? metadata.analysisResult
+            : null,
+      };
+
+      logger.info(
         {
-          error:
-            error instanceof Error
-              ? {
-                  name: error.name,
-                  message: error.message,
-                  stack: error.stack,
-                }
-              : String(error),
-          notificationId: (message.content as any)?.githubNotification?.id,
+          notificationId: notification.id,
+          previousUpdatedAt: previousActivity.updatedAt,
+          updatedAt: notification.updated_at,
         },
-        "[PingPal GitHub] Failed to analyze GitHub notification"
+        "[PingPal GitHub] New activity on previously processed thread. Re-analyzing."
+      );
+    }
+  } catch (dbError) {
+    logger.warn(
+      { error: dbError, notificationId: notification.id },
+      "[PingPal GitHub] Error checking database for duplicates. Falling back to in-memory check only."
+    );
+
+    // Fallback to in-memory check if database fails
+    if (
+      !reprocess &&
+      processedNotificationIds.has(
+        getThreadActivityKey(notification, subscriber.id)
+      )
+    ) {
+      logger.info(
+        { notificationId: notification.id },
+        "[PingPal GitHub] Duplicate notification detected (in-memory fallback). Skipping."
       );
+      metrics.notificationsDuplicate.inc({ subscriber: subscriber.id });
       return {
-        success: false,
-        error: error instanceof Error ? error : new Error(String(error)),
+        result: {
+          success: true,
+          text: `Skipped duplicate notification ${notification.id}`,
+          data: { skipped: true, reason: "duplicate" },
+        },
       };
     }
-  },
-};
+  }
+
+  // Fetch the thread content so the LLM can judge more than the title
+  const githubService = createGitHubService(runtime, subscriber);
+  const threadContext = await githubService.getThreadContext(notification);
+  // CI notifications carry only a title; the run's jobs and logs say more
+  const ciRun = isCiNotification(notification)
+    ? await githubService.getCiRun(
+        notification,
+        subscriber.githubUsername,
+        getCiLogTailLines()
+      )
+    : null;
+
+  // A polled CI notification names its check suite only through the run
+  if (
+    ciRun &&
+    !reprocess &&
+    subscriberMemories.some((memory) =>
+      isCoveredByOtherSource(memory, notification, ciRun)
+    )
+  ) {
+    logger.info(
+      { notificationId: notification.id, checkSuiteId: ciRun.checkSuiteId },
+      "[PingPal GitHub] CI run already processed from the other source. Skipping."
+    );
+    metrics.notificationsDuplicate.inc({ subscriber: subscriber.id });
+    processedNotificationIds.add(
+      getThreadActivityKey(notification, subscriber.id)
+    );
+    return {
+      result: {
+        success: true,
+        text: `Skipped duplicate notification ${notification.id}`,
+        data: { skipped: true, reason: "duplicate" },
+      },
+    };
+  }
+
+  // Rules run before the LLM so obvious cases never cost a model call
+  // (with the thread content known, evaluation always reaches a decision)
+  const decision: RuleDecision = evaluateRules(
+    getRuleSetForSubscriber(subscriber),
+    notification,
+    threadContext
+  ) ?? { outcome: "ask_llm", rule: null };
+
+  return {
+    prepared: {
+      notification,
+      threadContext,
+      previousActivity,
+      decision,
+      ciRun,
+      reprocess,
+    },
+  };
+}
+
+/**
+ * Classifies a prepared notification (LLM result or rule outcome), records
+ * it for deduplication and hands immediate alerts to SEND_NOTIFICATION.
+ */
+async function completeNotification(
+  runtime: IAgentRuntime,
+  message: Memory,
+  subscriber: Subscriber,
+  prepared: PreparedNotification,
+  llmResult: AnalysisResult | null
+): Promise<ActionResult> {
+  const { notification, threadContext, decision, ciRun } = prepared;
+
+  let analysisResult: AnalysisResult;
+  if (decision.outcome === "ask_llm") {
+    const result =
+      llmResult ??
+      getFallbackResult(prepared, subscriber.githubUsername, "llm_failed");
+    analysisResult = {
+      ...result,
+      // A priority set on the matching rule overrides the LLM's
+      priority: decision.priority ?? result.priority,
+    };
+  } else {
+    const ruleLabel = decision.rule
+      ? `rule '${decision.rule}'`
+      : "the default rule outcome";
+    analysisResult = {
+      priority:
+        decision.outcome === "always_alert"
+          ? (decision.priority ?? "high")
+          : "low",
+      category: null,
+      reason: `Decided by ${ruleLabel} (${decision.outcome}).`,
+      suggestedAction: null,
+      deadline: null,
+      decidedBy: `rule:${decision.rule ?? "default"}`,
+    };
+  }
+  const route = getDeliveryRoute(analysisResult.priority);
+
+  logger.info(
+    {
+      subscriberId: subscriber.id,
+      notificationId: notification.id,
+      priority: analysisResult.priority,
+      category: analysisResult.category,
+      route,
+      decidedBy: analysisResult.decidedBy,
+    },
+    "[PingPal GitHub] Notification classified"
+  );
 
-async function performImportanceAnalysis(
+  // Log processed notification to database FIRST (primary persistence)
+  // This must succeed for proper deduplication across restarts
+  const processedMemoryId = await logProcessedNotification(
+    runtime,
+    notification,
+    analysisResult,
+    threadContext,
+    ciRun,
+    subscriber.id,
+    message.roomId
+  );
+
+  // Add to in-memory cache for performance optimization (secondary)
+  processedNotificationIds.add(
+    getThreadActivityKey(notification, subscriber.id)
+  );
+
+  // Maintain cache size limit
+  if (processedNotificationIds.size > MAX_CACHE_SIZE) {
+    // Remove oldest entries (in a Set, the first entries are the oldest)
+    const oldestIds = Array.from(processedNotificationIds).slice(
+      0,
+      processedNotificationIds.size - MAX_CACHE_SIZE + 100
+    );
+    oldestIds.forEach((id) => processedNotificationIds.delete(id));
+  }
+
+  // Critical and high alerts go out now; normal ones are picked up from
+  // the processed log by the digest, low ones stay in the log only
+  if (route === "immediate") {
+    await requestAlert(
+      runtime,
+      message.roomId,
+      subscriber,
+      notification,
+      analysisResult,
+      threadContext,
+      processedMemoryId,
+      ciRun
+    );
+  }
+
+  return {
+    success: true,
+    text: `Analyzed notification ${notification.id}. Priority: ${analysisResult.priority}`,
+    data: {
+      notificationId: notification.id,
+      priority: analysisResult.priority,
+      category: analysisResult.category,
+      route,
+      reason: analysisResult.reason,
+      suggestedAction: analysisResult.suggestedAction,
+      deadline: analysisResult.deadline,
+      decidedBy: analysisResult.decidedBy,
+    },
+  };
+}
+
+/**
+ * Hands an alert to SEND_NOTIFICATION.
+ */
+async function requestAlert(
   runtime: IAgentRuntime,
+  roomId: UUID,
+  subscriber: Subscriber,
+  notification: GitHubNotification,
+  analysisResult: AnalysisResult,
+  threadContext: GitHubThreadContext | null,
+  processedMemoryId: UUID,
+  ciRun: GitHubCiRun | null = null
+): Promise<void> {
+  const webUrl = getAlertWebUrl(notification, threadContext, ciRun);
+  // Review requests and assignments are reminded about until dealt with
+  await trackOpenRequest(
+    runtime,
+    subscriber,
+    notification,
+    analysisResult.reason,
+    webUrl
+  ).catch((error) =>
+    logger.warn(
+      { error, notificationId: notification.id },
+      "[PingPal GitHub] Failed to track review request or assignment"
+    )
+  );
+
+  // Create a new memory for the send action
+  const sendMemory: Memory = {
+    id: crypto.randomUUID(),
+    entityId: runtime.agentId,
+    roomId,
+    agentId: runtime.agentId,
+    content: {
+      text: "Send notification",
+      githubNotification: notification,
+      analysisReason: analysisResult.reason,
+      priority: analysisResult.priority,
+      category: analysisResult.category,
+      suggestedAction: analysisResult.suggestedAction,
+      deadline: analysisResult.deadline,
+      labels: threadContext?.labels ?? [],
+      webUrl,
+      snippet: getLatestSnippet(threadContext),
+      // Offered as a re-run button on the alert
+      ciRunId: ciRun?.jobs.length ? ciRun.runId : null,
+      subscriberId: subscriber.id,
+      // Marked as notified once a channel accepts the alert
+      processedMemoryId,
+    },
+    createdAt: Date.now(),
+  };
+
+  // Find and execute the SEND_NOTIFICATION action
+  const sendAction = runtime.actions?.find(
+    (action) => action.name === "SEND_NOTIFICATION"
+  );
+
+  if (sendAction) {
+    if (await sendAction.validate(runtime, sendMemory)) {
+      await sendAction.handler(runtime, sendMemory);
+    }
+  } else {
+    logger.warn("[PingPal GitHub] SEND_NOTIFICATION action not found");
+  }
+}
+
+/**
+ * Where the alert links: the first failed job of a CI run, else what
+ * triggered the notification (see getNotificationWebUrl).
+ */
+function getAlertWebUrl(
   notification: GitHubNotification,
-  targetUsername: string
-): Promise<{ important: boolean; reason: string } | null> {
-  const prompt = `You are an assistant helping filter GitHub notifications. Analyze the following notification for '${targetUsername}'. Determine if this notification requires urgent attention or action. Consider factors like direct mentions (@username), pull request review requests, issue assignments, critical discussions, deadlines, blockers, or tasks requiring immediate response.
+  threadContext: GitHubThreadContext | null,
+  ciRun: GitHubCiRun | null
+): string {
+  if (ciRun) {
+    return ciRun.jobs[0]?.htmlUrl ?? ciRun.htmlUrl;
+  }
+  return getNotificationWebUrl(notification, threadContext);
+}
+
+/**
+ * Classifies a CI notification from its workflow run. Only failures that
+ * alert get the LLM summary of their likely cause.
+ */
+async function classifyCiNotification(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  ciRun: GitHubCiRun
+): Promise<AnalysisResult> {
+  const result = classifyCiRun(ciRun, subscriber.githubUsername, null);
+  if (getDeliveryRoute(result.priority) !== "immediate") {
+    return { ...result, decidedBy: "ci" };
+  }
+  const summary = await summarizeCiFailure(runtime, ciRun).catch((error) => {
+    logger.error(
+      { error, runId: ciRun.runId },
+      "[PingPal GitHub] Failed to summarize CI failure"
+    );
+    return null;
+  });
+  return {
+    ...classifyCiRun(ciRun, subscriber.githubUsername, summary),
+    decidedBy: "ci",
+  };
+}
+
+/**
+ * The newer of the latest comment and review as `author: text` on one line,
+ * shown when an alert is folded into the thread's earlier message.
+ */
+function getLatestSnippet(context: GitHubThreadContext | null): string | null {
+  const activities = [
+    context?.latestComment && {
+      author: context.latestComment.author,
+      body: context.latestComment.body,
+      at: context.latestComment.createdAt,
+    },
+    context?.latestReview && {
+      author: context.latestReview.author,
+      body: context.latestReview.body,
+      at: context.latestReview.submittedAt,
+    },
+  ].filter((activity) => !!activity?.body?.trim()) as {
+    author: string | null;
+    body: string;
+    at: string | null;
+  }[];
+  activities.sort(
+    (a, b) => new Date(b.at ?? 0).getTime() - new Date(a.at ?? 0).getTime()
+  );
+  const latest = activities[0];
+  if (!latest) {
+    return null;
+  }
+  const body = latest.body.replace(/\s+/g, " ").trim();
+  return `${latest.author ?? "someone"}: ${
+    body.length > SNIPPET_MAX_CHARS
+      ? `${body.slice(0, SNIPPET_MAX_CHARS - 1).trimEnd()}…`
+      : body
+  }`;
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, Math.max(0, maxChars - 15)).trimEnd()} …[truncated]`;
+}
+
+/**
+ * Renders the fetched thread content for the prompt, keeping it within the
+ * configured token budget. The latest comment gets the larger share since it
+ * is usually what triggered the notification.
+ */
+function formatThreadContext(
+  context: GitHubThreadContext | null,
+  tokenBudget: number
+): string {
+  if (!context) {
+    return "(Thread content unavailable)";
+  }
+
+  const maxChars = tokenBudget * CHARS_PER_TOKEN;
+  const lines: string[] = [];
+
+  lines.push(`- Author: ${context.author ?? "unknown"}`);
+  if (context.state) {
+    lines.push(`- State: ${context.state}`);
+  }
+  lines.push(
+    `- Labels: ${context.labels.length > 0 ? context.labels.join(", ") : "none"}`
+  );
+
+  if (context.pullRequest) {
+    const pr = context.pullRequest;
+    const fileList = truncate(
+      pr.files
+        .map((file) => `${file.filename} (+${file.additions}/-${file.deletions})`)
+        .join(", "),
+      Math.floor(maxChars * 0.15)
+    );
+    lines.push(
+      `- Changes: ${pr.changedFiles} files, +${pr.additions}/-${pr.deletions}${
+        fileList ? ` — ${fileList}` : ""
+      }`
+    );
+  }
+
+  const bodyShare = context.latestComment || context.latestReview ? 0.35 : 0.8;
+  lines.push(
+    `- Description:\n${truncate(context.body?.trim() || "(empty)", Math.floor(maxChars * bodyShare))}`
+  );
+
+  if (context.latestComment) {
+    lines.push(
+      `- Latest comment by ${context.latestComment.author ?? "unknown"}:\n${truncate(
+        context.latestComment.body.trim() || "(empty)",
+        Math.floor(maxChars * (context.latestReview ? 0.3 : 0.45))
+      )}`
+    );
+  }
+
+  if (context.latestReview) {
+    const review = context.latestReview;
+    lines.push(
+      `- Latest review by ${review.author ?? "unknown"} (${review.state}):\n${truncate(
+        review.body.trim() || "(no comment)",
+        Math.floor(maxChars * (context.latestComment ? 0.15 : 0.45))
+      )}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Describes the last time this thread was processed, so a re-analysis can
+ * judge the new activity rather than the thread as a whole.
+ */
+function formatPreviousActivity(
+  previous: PreviousThreadActivity | null,
+  context: GitHubThreadContext | null
+): string {
+  if (!previous) {
+    return "";
+  }
+
+  const lines = [
+    `- Last processed: ${new Date(previous.processedAt).toISOString()}${
+      previous.updatedAt ? ` (thread updated_at was ${previous.updatedAt})` : ""
+    }`,
+    `- Previous classification: ${previous.priority ?? "unknown"} priority${previous.alerted ? " (alert sent)" : ""}${
+      previous.reason ? ` — ${previous.reason}` : ""
+    }`,
+  ];
+
+  const currentCommentId = context?.latestComment?.id ?? null;
+  if (currentCommentId !== null && previous.latestCommentId !== null) {
+    lines.push(
+      currentCommentId === previous.latestCommentId
+        ? "- Latest comment: unchanged since last time (the update is likely a review, label, state or commit change)"
+        : "- Latest comment: NEW since last time"
+    );
+  }
+
+  return `
+Previous Activity On This Thread:
+${lines.join("\n")}
+
+This thread was already processed before. Judge only what changed since then; do not alert again for activity that was already covered.
+`;
+}
+
+/**
+ * The heuristic classification for when the LLM can't be used. After an LLM
+ * failure the result is marked for re-analysis (`decidedBy: heuristic`);
+ * after the budget ran out it stands (`decidedBy: budget`).
+ */
+function getFallbackResult(
+  item: PreparedNotification,
+  targetUsername: string,
+  cause: "llm_failed" | "budget"
+): AnalysisResult {
+  const heuristic = classifyByHeuristics(
+    item.notification,
+    item.threadContext,
+    targetUsername
+  );
+  return {
+    ...heuristic,
+    reason: `${cause === "budget" ? "Daily LLM budget used up" : "LLM analysis failed"}; classified by heuristics: ${heuristic.reason}`,
+    decidedBy: cause === "budget" ? "budget" : "heuristic",
+  };
+}
+
+/**
+ * Notifications per LLM call, from PINGPAL_LLM_BATCH_SIZE.
+ */
+function getLlmBatchSize(): number {
+  const value = Number(process.env.PINGPAL_LLM_BATCH_SIZE);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_LLM_BATCH_SIZE;
+}
+
+/**
+ * What the LLM judges for a notification, minus anything that changes
+ * without changing the answer (timestamps), for the analysis cache.
+ */
+function getAnalysisInput(
+  targetUsername: string,
+  item: PreparedNotification,
+  tokenBudget: number,
+  feedbackExamples: string[]
+): unknown {
+  return {
+    targetUsername,
+    tokenBudget,
+    feedbackExamples,
+    reason: item.notification.reason,
+    repository: item.notification.repository.full_name,
+    subject: item.notification.subject.title,
+    subjectType: item.notification.subject.type,
+    threadContext: item.threadContext,
+    previous: item.previousActivity && {
+      priority: item.previousActivity.priority,
+      alerted: item.previousActivity.alerted,
+      latestCommentId: item.previousActivity.latestCommentId,
+    },
+  };
+}
+
+/**
+ * Classifies notifications with the LLM: cached results first, the rest in
+ * batches of PINGPAL_LLM_BATCH_SIZE per call. The subscriber's rated
+ * notifications go into the prompt as examples. Notifications the LLM
+ * failed on, or that are left once the daily budget is used up, get the
+ * heuristic result instead.
+ */
+async function classifyWithLlm(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  items: PreparedNotification[]
+): Promise<Map<PreparedNotification, AnalysisResult>> {
+  const results = new Map<PreparedNotification, AnalysisResult>();
+  if (items.length === 0) {
+    return results;
+  }
+  const targetUsername = subscriber.githubUsername;
+  const tokenBudget =
+    Number(process.env.PINGPAL_CONTEXT_TOKEN_BUDGET) ||
+    DEFAULT_CONTEXT_TOKEN_BUDGET;
+  // New feedback changes the prompt, so it also misses the cache
+  const feedbackExamples = await getFeedbackExamples(runtime, subscriber.id);
+
+  const uncached: { item: PreparedNotification; hash: string }[] = [];
+  for (const item of items) {
+    const hash = hashAnalysisInput(
+      getAnalysisInput(targetUsername, item, tokenBudget, feedbackExamples)
+    );
+    const cached = item.reprocess
+      ? null
+      : await getCachedAnalysis<LlmAnalysis>(runtime, hash);
+    if (cached) {
+      results.set(item, { ...cached, decidedBy: "llm:cache" });
+    } else {
+      uncached.push({ item, hash });
+    }
+  }
+  if (results.size > 0) {
+    await recordCacheHits(runtime, results.size);
+    logger.debug(
+      { cacheHits: results.size },
+      "[PingPal GitHub] Reused cached LLM analyses"
+    );
+  }
+
+  const batchSize = getLlmBatchSize();
+  for (let start = 0; start < uncached.length; start += batchSize) {
+    if (await isLlmBudgetExhausted(runtime)) {
+      const remaining = uncached.slice(start);
+      for (const { item } of remaining) {
+        results.set(item, getFallbackResult(item, targetUsername, "budget"));
+      }
+      await recordBudgetFallbacks(runtime, remaining.length);
+      logger.warn(
+        { notifications: remaining.length },
+        "[PingPal GitHub] Daily LLM budget used up. Classifying by heuristics."
+      );
+      break;
+    }
+
+    const batch = uncached.slice(start, start + batchSize);
+    const analyses = await performBatchAnalysis(
+      runtime,
+      targetUsername,
+      batch.map(({ item }) => item),
+      tokenBudget,
+      feedbackExamples
+    );
+    // A notification the batch answer left out gets a call of its own
+    if (batch.length > 1) {
+      for (const { item } of batch) {
+        if (!analyses.has(item.notification.id)) {
+          const single = await performBatchAnalysis(
+            runtime,
+            targetUsername,
+            [item],
+            tokenBudget,
+            feedbackExamples
+          );
+          const analysis = single.get(item.notification.id);
+          if (analysis) {
+            analyses.set(item.notification.id, analysis);
+          }
+        }
+      }
+    }
+
+    for (const { item, hash } of batch) {
+      const analysis = analyses.get(item.notification.id);
+      if (analysis) {
+        results.set(item, { ...analysis, decidedBy: "llm" });
+        await cacheAnalysis(runtime, hash, analysis);
+      } else {
+        results.set(
+          item,
+          getFallbackResult(item, targetUsername, "llm_failed")
+        );
+      }
+    }
+  }
+
+  return results;
+}
+
+function formatNotificationForPrompt(
+  item: PreparedNotification,
+  tokenBudget: number
+): string {
+  const { notification, threadContext, previousActivity } = item;
+  return `### Notification ${notification.id}
 
 Notification Details:
 - Type: ${notification.reason}
@@ -229,33 +1071,117 @@ Notification Details:
 - Subject Type: ${notification.subject.type}
 - Updated: ${notification.updated_at}
 
-Respond ONLY with a JSON object matching this schema:
+Thread Content:
+${formatThreadContext(threadContext, tokenBudget)}
+${formatPreviousActivity(previousActivity, threadContext)}`;
+}
+
+/**
+ * The subscriber's own ratings of earlier classifications, so the LLM
+ * adapts to what this person wants to be alerted about.
+ */
+function formatFeedbackExamples(
+  targetUsername: string,
+  feedbackExamples: string[]
+): string {
+  if (feedbackExamples.length === 0) {
+    return "";
+  }
+  return `
+Feedback '${targetUsername}' gave on earlier notifications (newest first). Alerts are sent for critical and high priority. Rate similar notifications the way this feedback asks for:
+${feedbackExamples.map((example) => `- ${example}`).join("\n")}
+`;
+}
+
+/**
+ * One LLM call for several notifications, answered with one result per
+ * notification id. Notifications without a valid result are left out of
+ * the returned map.
+ */
+async function performBatchAnalysis(
+  runtime: IAgentRuntime,
+  targetUsername: string,
+  items: PreparedNotification[],
+  tokenBudget: number,
+  feedbackExamples: string[]
+): Promise<Map<string, LlmAnalysis>> {
+  const prompt = `You are an assistant helping filter GitHub notifications. Analyze each of the following ${items.length} notification(s) for '${targetUsername}'. Determine how urgently each notification needs their attention or action. Consider factors like direct mentions (@username), pull request review requests, issue assignments, critical discussions, deadlines, blockers, or tasks requiring immediate response. Judge every notification on its own.
+
+${items.map((item) => formatNotificationForPrompt(item, tokenBudget)).join("\n")}
+Weigh what the content actually asks of '${targetUsername}': a direct request or question from a human is more urgent than automated bot output.
+${formatFeedbackExamples(targetUsername, feedbackExamples)}
+Priority levels:
+- critical: needs action right now (production incident, release blocker, an explicit urgent request).
+- high: needs a response from '${targetUsername}' soon (a direct question, a review request on active work, an assignment).
+- normal: worth reading today, but nothing is waiting on '${targetUsername}'.
+- low: routine or automated activity that can be ignored.
+
+Categories:
+- review_needed: a pull request waits for their review.
+- blocker: something is blocked until they act.
+- question: someone asked them a question.
+- fyi: informational, no action needed.
+- ci_failure: a build or check failed.
+
+Respond ONLY with a JSON object with one result per notification, matching this schema:
 {
   "type": "object",
   "properties": {
-    "important": { "type": "boolean", "description": "True if requires urgent attention or action, false otherwise." },
-    "reason": { "type": "string", "description": "Brief justification for the importance classification (1-2 sentences)." }
+    "results": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "id": { "type": "string", "description": "The notification id from its heading." },
+          "priority": { "type": "string", "enum": ${JSON.stringify(PRIORITIES)}, "description": "How urgently this needs attention." },
+          "category": { "type": "string", "enum": ${JSON.stringify(CATEGORIES)}, "description": "What kind of attention it needs." },
+          "reason": { "type": "string", "description": "Brief justification for the priority (1-2 sentences)." },
+          "suggestedAction": { "type": ["string", "null"], "description": "The next step for '${targetUsername}', in a few words, or null if none." },
+          "deadline": { "type": ["string", "null"], "description": "A deadline stated or clearly implied in the thread, or null if none." }
+        },
+        "required": ["id", "priority", "category", "reason"]
+      }
+    }
   },
-  "required": ["important", "reason"]
+  "required": ["results"]
 }`;
 
   const outputSchema = {
     type: "object",
     properties: {
-      important: { type: "boolean" },
-      reason: { type: "string" },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            priority: { type: "string", enum: [...PRIORITIES] },
+            category: { type: "string", enum: [...CATEGORIES] },
+            reason: { type: "string" },
+            suggestedAction: { type: ["string", "null"] },
+            deadline: { type: ["string", "null"] },
+          },
+          required: ["id", "priority", "category", "reason"],
+        },
+      },
     },
-    required: ["important", "reason"],
+    required: ["results"],
   };
 
+  let model: string = ModelType.OBJECT_SMALL;
+  let rawResponse: unknown = null;
+  const startedAt = Date.now();
   try {
     logger.debug(
-      { agentId: runtime.agentId, promptLength: prompt.length },
+      {
+        agentId: runtime.agentId,
+        notifications: items.length,
+        promptLength: prompt.length,
+      },
       "[PingPal GitHub] Calling LLM for analysis..."
     );
 
     // Try OBJECT_SMALL first, fall back to TEXT_SMALL if not available
-    let rawResponse;
     try {
       rawResponse = await runtime.useModel(ModelType.OBJECT_SMALL, {
         prompt: prompt,
@@ -268,40 +1194,45 @@ Respond ONLY with a JSON object matching this schema:
       );
 
       // Fallback to TEXT_SMALL and parse JSON manually
-      const textResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+      model = ModelType.TEXT_SMALL;
+      rawResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
         prompt: prompt,
       });
-
-      // Parse JSON from text response
-      rawResponse = parseJSONObjectFromText(textResponse as string);
-      if (!rawResponse) {
-        throw new Error("Failed to parse JSON from text model response");
-      }
-    }
-
-    if (
-      typeof rawResponse === "object" &&
-      rawResponse !== null &&
-      typeof (rawResponse as any).important === "boolean" &&
-      typeof (rawResponse as any).reason === "string"
-    ) {
-      return rawResponse as { important: boolean; reason: string };
-    } else if (typeof rawResponse === "string") {
-      const parsed = parseJSONObjectFromText(rawResponse);
-      if (
-        parsed &&
-        typeof parsed === "object" &&
-        typeof (parsed as any).important === "boolean" &&
-        typeof (parsed as any).reason === "string"
-      ) {
-        return parsed as { important: boolean; reason: string };
-      }
     }
 
-    throw new Error(
-      `Invalid LLM response format: ${JSON.stringify(rawResponse)}`
+    const analyses = toBatchAnalyses(
+      typeof rawResponse === "string"
+        ? parseJSONObjectFromText(rawResponse)
+        : rawResponse,
+      items
+    );
+    await recordUsage(
+      runtime,
+      model,
+      items.length,
+      prompt,
+      rawResponse,
+      true,
+      Date.now() - startedAt
     );
+    if (analyses.size === 0) {
+      throw new Error(
+        `Invalid LLM response format: ${JSON.stringify(rawResponse)}`
+      );
+    }
+    return analyses;
   } catch (llmError) {
+    if (rawResponse === null) {
+      await recordUsage(
+        runtime,
+        model,
+        items.length,
+        prompt,
+        "",
+        false,
+        Date.now() - startedAt
+      );
+    }
     logger.error(
       {
         error:
@@ -313,22 +1244,283 @@ Respond ONLY with a JSON object matching this schema:
               }
             : String(llmError),
         agentId: runtime.agentId,
-        modelType: ModelType.OBJECT_SMALL,
+        modelType: model,
+        notifications: items.length,
         promptLength: prompt.length,
       },
       "[PingPal GitHub] LLM analysis failed."
     );
-    return { important: false, reason: "LLM analysis failed." };
+    return new Map();
+  }
+}
+
+/**
+ * Records the call for cost accounting; a failure to record never fails the
+ * analysis.
+ */
+async function recordUsage(
+  runtime: IAgentRuntime,
+  model: string,
+  items: number,
+  prompt: string,
+  response: unknown,
+  ok: boolean,
+  durationMs: number
+): Promise<void> {
+  try {
+    await recordLlmCall(runtime, {
+      model,
+      items,
+      prompt,
+      response:
+        typeof response === "string" ? response : JSON.stringify(response),
+      ok,
+      durationMs,
+    });
+  } catch (error) {
+    logger.warn({ error }, "[PingPal GitHub] Failed to record LLM usage");
+  }
+}
+
+/**
+ * Matches the results of a batch response to the notifications by id. A
+ * single notification may also be answered with a bare result object.
+ */
+function toBatchAnalyses(
+  raw: unknown,
+  items: PreparedNotification[]
+): Map<string, LlmAnalysis> {
+  const analyses = new Map<string, LlmAnalysis>();
+  const ids = new Set(items.map((item) => item.notification.id));
+  const entries = Array.isArray(raw)
+    ? raw
+    : Array.isArray((raw as any)?.results)
+      ? (raw as any).results
+      : [raw];
+
+  for (const entry of entries) {
+    const id =
+      entry?.id !== undefined && entry?.id !== null
+        ? String(entry.id)
+        : items.length === 1
+          ? items[0].notification.id
+          : null;
+    const analysis = toLlmAnalysis(entry);
+    if (id !== null && ids.has(id) && analysis) {
+      analyses.set(id, analysis);
+    }
+  }
+  return analyses;
+}
+
+/**
+ * Asks the LLM again about notifications the heuristics classified after an
+ * LLM failure. An LLM answer replaces the heuristic one in the processed
+ * record, and if it calls for an alert the heuristics didn't send, the alert
+ * goes out now. Retries back off and stop after MAX_REANALYSIS_ATTEMPTS,
+ * leaving the heuristic result (`reanalysisFailed`).
+ */
+export async function reanalyzeFailedNotifications(
+  runtime: IAgentRuntime
+): Promise<void> {
+  const now = Date.now();
+  const memories = await runtime.getMemories({
+    tableName: "pingpal_github_processed",
+    agentId: runtime.agentId,
+    count: 200,
+  });
+  const due = memories.filter((memory) => {
+    const metadata = memory.metadata as Record<string, any>;
+    return (
+      metadata?.needsReanalysis === true &&
+      metadata.githubNotification &&
+      (metadata.nextReanalysisAt ?? 0) <= now
+    );
+  });
+  // Waiting for tomorrow's budget doesn't count as a failed attempt
+  if (due.length === 0 || (await isLlmBudgetExhausted(runtime))) {
+    return;
+  }
+
+  for (const subscriber of loadSubscribers()) {
+    const records = due.filter(
+      (memory) =>
+        ((memory.metadata as Record<string, any>).subscriberId ??
+          DEFAULT_SUBSCRIBER_ID) === subscriber.id
+    );
+    if (records.length === 0) {
+      continue;
+    }
+
+    const githubService = createGitHubService(runtime, subscriber);
+    const items = new Map<PreparedNotification, Memory>();
+    for (const memory of records) {
+      const notification = (memory.metadata as Record<string, any>)
+        .githubNotification as GitHubNotification;
+      const threadContext = await githubService.getThreadContext(notification);
+      items.set(
+        {
+          notification,
+          threadContext,
+          previousActivity: null,
+          decision: evaluateRules(
+            getRuleSetForSubscriber(subscriber),
+            notification,
+            threadContext
+          ) ?? { outcome: "ask_llm", rule: null },
+          ciRun: null,
+          reprocess: false,
+        },
+        memory
+      );
+    }
+
+    const results = await classifyWithLlm(runtime, subscriber, [
+      ...items.keys(),
+    ]);
+    for (const [item, memory] of items) {
+      try {
+        await applyReanalysis(
+          runtime,
+          subscriber,
+          memory,
+          item,
+          results.get(item) ?? null
+        );
+      } catch (error) {
+        logger.error(
+          { error, notificationId: item.notification.id },
+          "[PingPal GitHub] Failed to apply re-analysis"
+        );
+      }
+    }
+  }
+}
+
+async function applyReanalysis(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  memory: Memory,
+  item: PreparedNotification,
+  result: AnalysisResult | null
+): Promise<void> {
+  const metadata = memory.metadata as MemoryMetadata & Record<string, any>;
+  const { notification, threadContext, decision } = item;
+
+  if (result?.decidedBy === "budget") {
+    return;
+  }
+  if (!result || result.decidedBy === "heuristic") {
+    const attempts = (metadata.reanalysisAttempts ?? 0) + 1;
+    const givingUp = attempts >= MAX_REANALYSIS_ATTEMPTS;
+    await runtime.updateMemory({
+      id: memory.id!,
+      metadata: {
+        ...metadata,
+        needsReanalysis: !givingUp,
+        reanalysisAttempts: attempts,
+        nextReanalysisAt:
+          Date.now() + REANALYSIS_BASE_DELAY_MS * 2 ** (attempts - 1),
+        reanalysisFailed: givingUp,
+      } as MemoryMetadata,
+    });
+    if (givingUp) {
+      logger.warn(
+        { notificationId: notification.id, attempts },
+        "[PingPal GitHub] Giving up on LLM re-analysis; keeping the heuristic classification"
+      );
+    }
+    return;
+  }
+
+  // Rules that left the decision to the LLM may still set the priority
+  const analysisResult: AnalysisResult =
+    decision.outcome === "ask_llm"
+      ? { ...result, priority: decision.priority ?? result.priority }
+      : result;
+  await runtime.updateMemory({
+    id: memory.id!,
+    metadata: {
+      ...metadata,
+      needsReanalysis: false,
+      reanalyzedAt: Date.now(),
+      analysisResult: analysisResult.reason,
+      decidedBy: analysisResult.decidedBy,
+      priority: analysisResult.priority,
+      category: analysisResult.category,
+      suggestedAction: analysisResult.suggestedAction,
+      deadline: analysisResult.deadline,
+    } as MemoryMetadata,
+  });
+  logger.info(
+    {
+      subscriberId: subscriber.id,
+      notificationId: notification.id,
+      heuristicPriority: metadata.priority,
+      priority: analysisResult.priority,
+    },
+    "[PingPal GitHub] Re-analyzed notification with the LLM"
+  );
+
+  // An alert already went out if the heuristics asked for one
+  if (
+    getDeliveryRoute(analysisResult.priority) === "immediate" &&
+    !(
+      isPriority(metadata.priority) &&
+      getDeliveryRoute(metadata.priority) === "immediate"
+    )
+  ) {
+    await requestAlert(
+      runtime,
+      getInternalRoomIdForAgent(runtime.agentId),
+      subscriber,
+      notification,
+      analysisResult,
+      threadContext,
+      memory.id!
+    );
   }
 }
 
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validates an LLM response. Priority and reason are required; an unknown
+ * category or empty optional field is dropped rather than failing the analysis.
+ */
+function toLlmAnalysis(raw: unknown): LlmAnalysis | null {
+  if (typeof raw !== "object" || raw === null) {
+    return null;
+  }
+  const response = raw as Record<string, unknown>;
+  const priority =
+    typeof response.priority === "string"
+      ? response.priority.toLowerCase()
+      : response.priority;
+  if (!isPriority(priority) || typeof response.reason !== "string") {
+    return null;
+  }
+
+  return {
+    priority,
+    category: isCategory(response.category) ? response.category : null,
+    reason: response.reason,
+    suggestedAction: optionalText(response.suggestedAction),
+    deadline: optionalText(response.deadline),
+  };
+}
+
 async function logProcessedNotification(
   runtime: IAgentRuntime,
   notification: GitHubNotification,
-  analysisResult: { important: boolean; reason: string } | null,
+  analysisResult: AnalysisResult,
+  threadContext: GitHubThreadContext | null,
+  ciRun: GitHubCiRun | null,
+  subscriberId: string,
   _providedRoomId?: UUID // Optional room ID from caller
-): Promise<void> {
-  const notifiedStatus = analysisResult?.important || false;
+): Promise<UUID> {
 
   // Use agent-specific internal room ID (like email plugin pattern)
   // This ensures proper FK relationships and avoids constraint errors
@@ -340,14 +1532,38 @@ async function logProcessedNotification(
     agentId: runtime.agentId,
     createdAt: Date.now(),
     content: {
-      text: `[PingPal GitHub] Processed notification ${notification.id}. Important: ${notifiedStatus}. Reason: ${analysisResult?.reason}`,
+      text: `[PingPal GitHub] Processed notification ${notification.id}. Priority: ${analysisResult.priority}. Reason: ${analysisResult.reason}`,
     },
     metadata: {
       type: "pingpal_github_processed",
+      subscriberId,
       githubNotificationId: notification.id,
+      githubUpdatedAt: notification.updated_at,
+      latestCommentId: threadContext?.latestComment?.id ?? null,
+      // Matches CI runs that arrive by webhook and by polling
+      ciCheckSuiteId: ciRun?.checkSuiteId ?? null,
       githubUrl: notification.url,
-      notifiedViaTelegram: notifiedStatus,
-      analysisResult: analysisResult?.reason,
+      webUrl: getAlertWebUrl(notification, threadContext, ciRun),
+      // Set by the outbox once the alert is actually delivered
+      notifiedViaTelegram: false,
+      analysisResult: analysisResult.reason,
+      decidedBy: analysisResult.decidedBy,
+      priority: analysisResult.priority,
+      category: analysisResult.category,
+      suggestedAction: analysisResult.suggestedAction,
+      deadline: analysisResult.deadline,
+      // Kept so the thread can be analyzed again, e.g. through the
+      // reprocess API
+      githubNotification: notification,
+      // Heuristic results stand in for a failed LLM call until
+      // reanalyzeFailedNotifications gets an LLM answer
+      ...(analysisResult.decidedBy === "heuristic"
+        ? {
+            needsReanalysis: true,
+            reanalysisAttempts: 0,
+            nextReanalysisAt: Date.now() + REANALYSIS_BASE_DELAY_MS,
+          }
+        : {}),
       sourceContext: {
         repository: notification.repository.full_name,
         notificationType: notification.reason,
@@ -358,19 +1574,20 @@ async function logProcessedNotification(
   };
 
   try {
-    await runtime.createMemory(
+    const memoryId = await runtime.createMemory(
       processedMemory as Memory,
       "pingpal_github_processed"
     );
     logger.info(
       {
         notificationId: notification.id,
-        notified: notifiedStatus,
+        route: getDeliveryRoute(analysisResult.priority),
         agentId: runtime.agentId,
         roomId: internalRoomId,
       },
       "[PingPal GitHub] Logged processed GitHub notification successfully to database."
     );
+    return memoryId;
   } catch (dbError) {
     logger.error(
       {
@@ -8,7 +8,64 @@ import type {
   HandlerCallback,
 } from "@elizaos/core";
 import { logger } from "@elizaos/core";
-import { GitHubService } from "../services/githubService";
+import { createGitHubService } from "../auth";
+import {
+  getCircuitOpenUntil,
+  recordGitHubFailure,
+  recordGitHubSuccess,
+} from "../services/githubCircuit";
+import { getSubscriberForMessage } from "../subscribers";
+import { evaluateRules, getRuleSetForSubscriber } from "../rules";
+import { metrics } from "../services/metrics";
+import type { GitHubNotification } from "../services/githubService";
+import { GitHubApiError } from "../services/githubErrors";
+
+const POLL_STATE_CACHE_KEY = "pingpal_github_poll_state";
+
+/**
+ * Persisted between polls (per subscriber) so each poll only asks GitHub for
+ * what changed.
+ */
+interface PollState {
+  /** ISO start time of the last successful poll, sent as `since`. */
+  since?: string;
+  /** `Last-Modified` from the last successful poll, sent as `If-Modified-Since`. */
+  lastModified?: string;
+  /** Epoch milliseconds of the last successful poll, including 304s. */
+  lastPolledAt?: number;
+  /**
+   * Older part of a window that didn't fit in the pagination limit:
+   * notifications updated after `since` and before `before`, fetched on the
+   * following polls until nothing is left.
+   */
+  backfill?: { since: string; before: string };
+}
+
+/**
+ * Where to resume after a truncated fetch. A second past the oldest
+ * notification returned, so others updated in the same second aren't lost;
+ * the notification itself is fetched again and deduplicated by analysis.
+ */
+function getResumeBefore(notifications: GitHubNotification[]): string {
+  const oldest = Math.min(
+    ...notifications.map((notification) => Date.parse(notification.updated_at)),
+  );
+  return new Date(oldest + 1000).toISOString();
+}
+
+/**
+ * When the subscriber's notifications were last polled successfully, or
+ * null if they never were (e.g. in webhook mode).
+ */
+export async function getLastPolledAt(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+): Promise<number | null> {
+  const pollState = await runtime.getCache<PollState>(
+    `${POLL_STATE_CACHE_KEY}_${subscriberId}`,
+  );
+  return pollState?.lastPolledAt ?? null;
+}
 
 export const pollGitHubNotificationsAction: Action = {
   name: "POLL_GITHUB_NOTIFICATIONS",
@@ -37,48 +94,157 @@ export const pollGitHubNotificationsAction: Action = {
     options?: Record<string, unknown>,
     callback?: HandlerCallback,
   ): Promise<ActionResult> => {
+    const subscriber = getSubscriberForMessage(message);
     try {
-      logger.info("[PingPal GitHub] Starting GitHub notifications polling...");
-
-      const accessToken = process.env.GITHUB_ACCESS_TOKEN;
-      if (!accessToken) {
-        logger.error("[PingPal GitHub] GITHUB_ACCESS_TOKEN not configured");
+      if (!subscriber) {
+        logger.error(
+          { subscriberId: (message.content as any)?.subscriberId },
+          "[PingPal GitHub] No matching PingPal subscriber configured",
+        );
         return {
           success: false,
-          error: new Error("GITHUB_ACCESS_TOKEN not configured"),
+          error: new Error("No matching PingPal subscriber configured"),
         };
       }
 
-      const targetUsername = process.env.PINGPAL_TARGET_GITHUB_USERNAME;
-      if (!targetUsername) {
-        logger.error(
-          "[PingPal GitHub] PINGPAL_TARGET_GITHUB_USERNAME not configured",
+      // Polling pauses after a rejected token, a rate limit or repeated
+      // failures (see githubCircuit.ts)
+      const openUntil = await getCircuitOpenUntil(runtime, subscriber);
+      if (openUntil) {
+        logger.debug(
+          { subscriberId: subscriber.id, openUntil },
+          "[PingPal GitHub] GitHub polling paused. Skipping poll.",
         );
+        metrics.polls.inc({ subscriber: subscriber.id, result: "skipped" });
         return {
-          success: false,
-          error: new Error("PINGPAL_TARGET_GITHUB_USERNAME not configured"),
+          success: true,
+          text: "Polling paused",
+          data: {
+            subscriberId: subscriber.id,
+            skipped: true,
+            reason: "circuit_open",
+            pollIntervalSeconds: Math.ceil((openUntil - Date.now()) / 1000),
+          },
+        };
+      }
+
+      logger.info(
+        { subscriberId: subscriber.id },
+        "[PingPal GitHub] Starting GitHub notifications polling...",
+      );
+
+      const pollStateCacheKey = `${POLL_STATE_CACHE_KEY}_${subscriber.id}`;
+      const pollState =
+        (await runtime.getCache<PollState>(pollStateCacheKey)) ?? {};
+      const pollStartedAt = new Date().toISOString();
+
+      const githubService = createGitHubService(runtime, subscriber);
+      if (!githubService.canReadNotifications) {
+        logger.warn(
+          { subscriberId: subscriber.id },
+          "[PingPal GitHub] This GitHub auth mode can't read notifications. Skipping poll.",
+        );
+        metrics.polls.inc({ subscriber: subscriber.id, result: "skipped" });
+        return {
+          success: true,
+          text: "Polling not supported for this GitHub auth mode",
+          data: {
+            subscriberId: subscriber.id,
+            skipped: true,
+            reason: "notifications_unavailable",
+          },
+        };
+      }
+      const latest = await githubService.getNotifications({
+        since: pollState.since,
+        lastModified: pollState.lastModified,
+      });
+      const { notModified, lastModified, pollIntervalSeconds } = latest;
+      const backfill = pollState.backfill;
+      const backfilled = backfill
+        ? await githubService.getNotifications(backfill)
+        : null;
+      await recordGitHubSuccess(runtime, subscriber);
+
+      // What is still left of older windows after this poll
+      let nextBackfill: PollState["backfill"];
+      if (backfill && backfilled?.truncated) {
+        nextBackfill = {
+          since: backfill.since,
+          before: getResumeBefore(backfilled.notifications),
+        };
+      }
+      if (latest.truncated && pollState.since) {
+        // Spans whatever is left of an earlier backfill too; notifications
+        // fetched twice are deduplicated by analysis
+        nextBackfill = {
+          since: nextBackfill?.since ?? pollState.since,
+          before: getResumeBefore(latest.notifications),
+        };
+      }
+      if (nextBackfill) {
+        logger.info(
+          { subscriberId: subscriber.id, ...nextBackfill },
+          "[PingPal GitHub] Older notifications left for the next poll",
+        );
+      }
+
+      if (notModified && !backfilled) {
+        logger.info(
+          "[PingPal GitHub] No new GitHub notifications since last poll",
+        );
+        metrics.polls.inc({
+          subscriber: subscriber.id,
+          result: "not_modified",
+        });
+        await runtime.setCache<PollState>(pollStateCacheKey, {
+          ...pollState,
+          lastPolledAt: Date.now(),
+        });
+        return {
+          success: true,
+          text: "Polled GitHub notifications: not modified",
+          data: {
+            totalNotifications: 0,
+            relevantNotifications: 0,
+            notifications: [],
+            pollIntervalSeconds,
+          },
         };
       }
 
-      const githubService = new GitHubService(accessToken);
-      const notifications = await githubService.getNotifications();
+      const notifications = [
+        ...latest.notifications,
+        ...(backfilled?.notifications ?? []),
+      ];
 
-      // Filter for relevant notification types
-      const relevantNotifications = notifications.filter((notification) =>
-        ["mention", "review_requested", "assign", "author"].includes(
-          notification.reason,
-        ),
+      // Drop what the rules already reject. Rules that need the thread's
+      // labels or author can't be decided yet, so those pass through to analysis.
+      const ruleSet = getRuleSetForSubscriber(subscriber);
+      const relevantNotifications = notifications.filter(
+        (notification) =>
+          evaluateRules(ruleSet, notification, undefined)?.outcome !==
+          "never_alert",
       );
 
       logger.info(
         {
+          subscriberId: subscriber.id,
           total: notifications.length,
           relevant: relevantNotifications.length,
         },
         "[PingPal GitHub] Filtered GitHub notifications",
       );
+      metrics.polls.inc({ subscriber: subscriber.id, result: "ok" });
+      metrics.notificationsFetched.inc(
+        { subscriber: subscriber.id },
+        notifications.length,
+      );
+      metrics.notificationsRelevant.inc(
+        { subscriber: subscriber.id },
+        relevantNotifications.length,
+      );
 
-      // Process each relevant notification
       for (const notification of relevantNotifications) {
         logger.info(
           {
@@ -90,57 +256,73 @@ export const pollGitHubNotificationsAction: Action = {
           },
           "[PingPal GitHub] Processing relevant notification",
         );
+      }
 
-        // Create a memory for the analysis action
+      // All relevant notifications go to analysis together, so the LLM can
+      // classify them in batches instead of one call each
+      const analyzeAction = runtime.actions?.find(
+        (action) => action.name === "ANALYZE_GITHUB_NOTIFICATION",
+      );
+      if (relevantNotifications.length > 0 && analyzeAction) {
         const analysisMemory: Memory = {
           id: crypto.randomUUID(),
           entityId: runtime.agentId,
           roomId: message.roomId, // Pass through roomId (could be null for internal operations)
           agentId: runtime.agentId,
           content: {
-            text: "Analyze GitHub notification",
-            githubNotification: notification,
+            text: "Analyze GitHub notifications",
+            githubNotifications: relevantNotifications,
+            subscriberId: subscriber.id,
           },
           createdAt: Date.now(),
         };
 
-        // Find and execute the ANALYZE_GITHUB_NOTIFICATION action
-        const analyzeAction = runtime.actions?.find(
-          (action) => action.name === "ANALYZE_GITHUB_NOTIFICATION",
-        );
-
-        if (analyzeAction) {
-          try {
-            if (await analyzeAction.validate(runtime, analysisMemory)) {
-              await analyzeAction.handler(runtime, analysisMemory);
-            }
-          } catch (error) {
-            logger.error(
-              { 
-                error: error instanceof Error ? {
-                  name: error.name,
-                  message: error.message,
-                  stack: error.stack
-                } : String(error),
-                notificationId: notification.id 
-              },
-              "[PingPal GitHub] Failed to analyze notification",
-            );
+        try {
+          if (await analyzeAction.validate(runtime, analysisMemory)) {
+            await analyzeAction.handler(runtime, analysisMemory);
           }
-        } else {
-          logger.warn(
-            "[PingPal GitHub] ANALYZE_GITHUB_NOTIFICATION action not found",
+        } catch (error) {
+          logger.error(
+            {
+              error:
+                error instanceof Error
+                  ? {
+                      name: error.name,
+                      message: error.message,
+                      stack: error.stack,
+                    }
+                  : String(error),
+              subscriberId: subscriber.id,
+            },
+            "[PingPal GitHub] Failed to analyze notifications",
           );
         }
+      } else if (relevantNotifications.length > 0) {
+        logger.warn(
+          "[PingPal GitHub] ANALYZE_GITHUB_NOTIFICATION action not found",
+        );
       }
 
+      // Everything fetched has been handed to analysis. What didn't fit in
+      // the pagination limit is in the backfill for the next poll.
+      await runtime.setCache<PollState>(pollStateCacheKey, {
+        since: notModified ? pollState.since : pollStartedAt,
+        lastModified: notModified
+          ? pollState.lastModified
+          : (lastModified ?? undefined),
+        lastPolledAt: Date.now(),
+        backfill: nextBackfill,
+      });
+
       return {
         success: true,
         text: `Polled GitHub notifications: ${notifications.length} total, ${relevantNotifications.length} relevant`,
         data: {
+          subscriberId: subscriber.id,
           totalNotifications: notifications.length,
           relevantNotifications: relevantNotifications.length,
           notifications: relevantNotifications,
+          pollIntervalSeconds,
         },
       };
     } catch (error) {
@@ -148,9 +330,34 @@ export const pollGitHubNotificationsAction: Action = {
         { error },
         "[PingPal GitHub] Failed to poll GitHub notifications",
       );
+      if (subscriber) {
+        metrics.polls.inc({ subscriber: subscriber.id, result: "error" });
+      }
+      // Only GitHub failing counts toward pausing the polls; bugs and cache
+      // errors on our side are just logged
+      const circuit =
+        subscriber && error instanceof GitHubApiError
+          ? await recordGitHubFailure(runtime, subscriber, error).catch(
+              (circuitError) => {
+                logger.error(
+                  { error: circuitError, subscriberId: subscriber.id },
+                  "[PingPal GitHub] Failed to record GitHub failure",
+                );
+                return null;
+              },
+            )
+          : null;
       return {
         success: false,
         error: error instanceof Error ? error : new Error(String(error)),
+        data: circuit?.openUntil
+          ? {
+              // Lets the poll loop wait out the pause
+              pollIntervalSeconds: Math.ceil(
+                (circuit.openUntil - Date.now()) / 1000,
+              ),
+            }
+          : undefined,
       };
     }
   },
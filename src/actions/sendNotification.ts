@@ -0,0 +1,245 @@
+import type {
+  Action,
+  IAgentRuntime,
+  Memory,
+  ActionExample,
+  ActionResult,
+  State,
+  HandlerCallback,
+  UUID,
+} from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { GitHubNotification } from "../services/githubService";
+import { getSubscriberForMessage } from "../subscribers";
+import {
+  getQuietHoursSettings,
+  holdAlert,
+  isCriticalAlert,
+  isInQuietHours,
+} from "../services/quietHours";
+import { getPausedUntil } from "../services/subscriberControls";
+import { isCategory, isPriority, type Priority } from "../priority";
+import { holdSnoozedActivity } from "../services/alertActions";
+import { createChannelAlert } from "../channels";
+import {
+  attemptDelivery,
+  enqueueAlert,
+  getMaxDeliveryAttempts,
+} from "../services/outbox";
+
+export const sendNotificationAction: Action = {
+  name: "SEND_NOTIFICATION",
+  similes: [
+    "SEND_TELEGRAM_NOTIFICATION",
+    "send telegram alert",
+    "notify via telegram",
+  ],
+  description:
+    "Sends a GitHub notification alert to the subscriber's channels (Telegram, Slack, Discord, email or webhook)",
+  examples: [] as ActionExample[][],
+
+  validate: async (
+    _runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+  ): Promise<boolean> => {
+    return !!(message.content as any)?.githubNotification;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state?: State,
+    _options?: Record<string, unknown>,
+    _callback?: HandlerCallback,
+  ): Promise<ActionResult> => {
+    try {
+      const notification = (message.content as any)
+        .githubNotification as GitHubNotification;
+      const reason = (message.content as any).analysisReason as string;
+      // Alerts sent without a priority (e.g. from older snoozes) count as high
+      const priority: Priority = isPriority((message.content as any).priority)
+        ? (message.content as any).priority
+        : "high";
+      const details = {
+        category: isCategory((message.content as any).category)
+          ? (message.content as any).category
+          : null,
+        suggestedAction: (message.content as any).suggestedAction ?? null,
+        deadline: (message.content as any).deadline ?? null,
+        webUrl: (message.content as any).webUrl ?? null,
+      };
+      // The processed-notification record, marked as notified on delivery
+      const processedMemoryId =
+        ((message.content as any).processedMemoryId as UUID | undefined) ??
+        null;
+      // Records of earlier activity this alert stands in for (see holds)
+      const foldedProcessedMemoryIds =
+        ((message.content as any).foldedProcessedMemoryIds as
+          | UUID[]
+          | undefined) ?? [];
+
+      logger.info(
+        {
+          agentId: runtime.agentId,
+          notificationId: notification.id,
+          reason: reason,
+        },
+        "[PingPal GitHub] Preparing to send notification.",
+      );
+
+      const subscriber = getSubscriberForMessage(message);
+      if (!subscriber) {
+        logger.error(
+          {
+            agentId: runtime.agentId,
+            notificationId: notification.id,
+            subscriberId: (message.content as any).subscriberId,
+          },
+          "[PingPal GitHub] No matching PingPal subscriber configured. Cannot send notification.",
+        );
+        return {
+          success: false,
+          error: new Error("No matching PingPal subscriber configured"),
+        };
+      }
+
+      if (
+        await holdSnoozedActivity(
+          runtime,
+          subscriber.id,
+          notification.id,
+          message.content as Record<string, unknown>,
+        )
+      ) {
+        logger.info(
+          { subscriberId: subscriber.id, notificationId: notification.id },
+          "[PingPal GitHub] Thread is snoozed. Holding notification until the snooze ends.",
+        );
+        return {
+          success: true,
+          text: `Thread ${notification.id} is snoozed`,
+          data: {
+            notificationId: notification.id,
+            skipped: true,
+            reason: "snoozed",
+          },
+        };
+      }
+
+      // Hold alerts while paused from the chat, and non-critical alerts
+      // during the subscriber's quiet hours; they are flushed as a batch later
+      const quietHours = getQuietHoursSettings(subscriber);
+      const labels = ((message.content as any).labels as string[]) ?? [];
+      const paused = (await getPausedUntil(runtime, subscriber.id)) !== null;
+      if (
+        paused ||
+        (isInQuietHours(quietHours) &&
+          !isCriticalAlert(quietHours, priority, labels))
+      ) {
+        await holdAlert(runtime, {
+          subscriberId: subscriber.id,
+          notification,
+          reason,
+          priority,
+          ...details,
+          processedMemoryId,
+          foldedProcessedMemoryIds,
+          heldAt: Date.now(),
+        });
+        logger.info(
+          { subscriberId: subscriber.id, notificationId: notification.id },
+          paused
+            ? "[PingPal GitHub] Alerts paused. Holding notification for later."
+            : "[PingPal GitHub] Quiet hours. Holding notification for later.",
+        );
+        return {
+          success: true,
+          text: `Held notification ${notification.id} until ${paused ? "the pause" : "quiet hours"} ends`,
+          data: {
+            notificationId: notification.id,
+            skipped: true,
+            reason: paused ? "paused" : "quiet_hours",
+          },
+        };
+      }
+
+      const alert = createChannelAlert(subscriber, {
+        notification,
+        reason,
+        priority,
+        ...details,
+        processedMemoryId,
+        snippet: (message.content as any).snippet ?? null,
+        ciRunId: (message.content as any).ciRunId ?? null,
+      });
+      // Queued first so a failed send is retried instead of lost
+      const entry = await enqueueAlert(
+        runtime,
+        subscriber,
+        alert,
+        processedMemoryId,
+        { foldedProcessedMemoryIds },
+      );
+      const deliveries = await attemptDelivery(runtime, subscriber, entry);
+      const delivered = deliveries.filter((delivery) => delivery.ok);
+
+      if (delivered.length === 0) {
+        const retrying = getMaxDeliveryAttempts() > 1;
+        return {
+          success: false,
+          error: new Error(
+            `Alert could not be delivered${retrying ? " (will retry)" : ""}: ${deliveries
+              .map((delivery) => `${delivery.channel}: ${delivery.error}`)
+              .join("; ")}`,
+          ),
+          data: { notificationId: notification.id, deliveries, retrying },
+        };
+      }
+
+      logger.info(
+        {
+          agentId: runtime.agentId,
+          subscriberId: subscriber.id,
+          notificationId: notification.id,
+          priority,
+          channels: delivered.map((delivery) => delivery.channel),
+        },
+        "[PingPal GitHub] Notification sent successfully.",
+      );
+
+      return {
+        success: true,
+        text: `Notification sent for GitHub notification ${notification.id} via ${delivered
+          .map((delivery) => delivery.channel)
+          .join(", ")}`,
+        data: {
+          notificationId: notification.id,
+          alertId: alert.alertId,
+          deliveries,
+        },
+      };
+    } catch (sendError) {
+      logger.error(
+        {
+          error:
+            sendError instanceof Error
+              ? {
+                  message: sendError.message,
+                  stack: sendError.stack,
+                  name: sendError.name,
+                }
+              : sendError,
+          agentId: runtime.agentId,
+          notificationId: (message.content as any)?.githubNotification?.id,
+        },
+        "[PingPal GitHub] Failed to send notification.",
+      );
+      return {
+        success: false,
+        error:
+          sendError instanceof Error ? sendError : new Error(String(sendError)),
+      };
+    }
+  },
+};
@@ -0,0 +1,120 @@
+import { logger } from "@elizaos/core";
+import { createSign } from "node:crypto";
+import { createGitHubError } from "../services/githubErrors";
+import { getGitHubApiBaseUrl, githubFetch } from "../services/githubHost";
+import { hashCredentials } from "./pat";
+import type { GitHubAuthProvider } from "./types";
+
+// Installation tokens last an hour; refresh this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// GitHub accepts app JWTs for at most 10 minutes; backdate for clock drift
+const JWT_LIFETIME_SECONDS = 9 * 60;
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Authenticates as a GitHub App installation: signs a short-lived JWT with
+ * the app's private key and exchanges it for an installation token, which
+ * is cached and refreshed before its one-hour expiry. For organizations
+ * that don't allow personal access tokens.
+ */
+export class GitHubAppAuthProvider implements GitHubAuthProvider {
+  readonly type = "github_app";
+  // Installation tokens have no user, so no notification inbox
+  readonly canReadNotifications = false;
+  readonly fingerprint: string;
+
+  private installationToken: { token: string; expiresAt: number } | null = null;
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(
+    private appId: string,
+    private installationId: string,
+    private privateKey: string,
+  ) {
+    this.fingerprint = hashCredentials(
+      "github_app",
+      appId,
+      installationId,
+      privateKey,
+    );
+  }
+
+  /**
+   * The RS256 JWT that identifies the app itself.
+   */
+  private createJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+    const payload = base64Url(
+      JSON.stringify({
+        iat: now - JWT_CLOCK_DRIFT_SECONDS,
+        exp: now + JWT_LIFETIME_SECONDS,
+        iss: this.appId,
+      }),
+    );
+    const signature = createSign("RSA-SHA256")
+      .update(`${header}.${payload}`)
+      .sign(this.privateKey);
+    return `${header}.${payload}.${base64Url(signature)}`;
+  }
+
+  private async fetchInstallationToken(): Promise<string> {
+    const response = await githubFetch(
+      `${getGitHubApiBaseUrl()}/app/installations/${this.installationId}/access_tokens`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.createJwt()}`,
+          Accept: "application/vnd.github+json",
+          "User-Agent": "PingPal-GitHub-Monitor",
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      },
+    );
+    if (!response.ok) {
+      throw await createGitHubError(response);
+    }
+
+    const data = (await response.json()) as {
+      token: string;
+      expires_at: string;
+    };
+    this.installationToken = {
+      token: data.token,
+      expiresAt: new Date(data.expires_at).getTime(),
+    };
+    logger.debug(
+      {
+        appId: this.appId,
+        installationId: this.installationId,
+        expiresAt: data.expires_at,
+      },
+      "[PingPal GitHub] Fetched GitHub App installation token",
+    );
+    return data.token;
+  }
+
+  async getToken(): Promise<string> {
+    if (
+      this.installationToken &&
+      this.installationToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+    ) {
+      return this.installationToken.token;
+    }
+    // Concurrent callers share one refresh
+    if (!this.pendingToken) {
+      this.pendingToken = this.fetchInstallationToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  invalidate(): void {
+    this.installationToken = null;
+  }
+}
@@ -0,0 +1,98 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { readFileSync } from "node:fs";
+import { GitHubService } from "../services/githubService";
+import type { Subscriber } from "../subscribers";
+import { GitHubAppAuthProvider } from "./githubApp";
+import { OAuthDeviceAuthProvider } from "./oauthDevice";
+import { PersonalAccessTokenProvider } from "./pat";
+import type { GitHubAuthConfig, GitHubAuthProvider } from "./types";
+
+export * from "./types";
+
+// Providers are reused so installation tokens survive between calls; keyed
+// by subscriber and configuration so a config change gets a fresh provider
+const providers = new Map<string, GitHubAuthProvider>();
+
+/**
+ * The subscriber's GitHub auth configuration; a plain `githubToken` is a
+ * classic PAT.
+ */
+export function getGitHubAuthConfig(subscriber: Subscriber): GitHubAuthConfig {
+  if (subscriber.githubAuth) {
+    return subscriber.githubAuth;
+  }
+  if (!subscriber.githubToken) {
+    throw new Error(
+      `Subscriber '${subscriber.id}' has neither githubToken nor githubAuth`,
+    );
+  }
+  return { type: "pat", token: subscriber.githubToken };
+}
+
+function loadPrivateKey(
+  config: Extract<GitHubAuthConfig, { type: "github_app" }>,
+): string {
+  if (config.privateKey) {
+    return config.privateKey.replace(/\\n/g, "\n");
+  }
+  if (config.privateKeyPath) {
+    try {
+      return readFileSync(config.privateKeyPath, "utf8");
+    } catch (error) {
+      throw new Error(
+        `Failed to read GitHub App private key '${config.privateKeyPath}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  throw new Error("GitHub App auth needs privateKey or privateKeyPath");
+}
+
+export function createGitHubAuthProvider(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): GitHubAuthProvider {
+  const config = getGitHubAuthConfig(subscriber);
+  switch (config.type) {
+    case "pat":
+    case "fine_grained_pat":
+      return new PersonalAccessTokenProvider(config.token, config.type);
+    case "oauth_device":
+      return new OAuthDeviceAuthProvider(
+        runtime,
+        subscriber.id,
+        config.clientId,
+      );
+    case "github_app":
+      return new GitHubAppAuthProvider(
+        config.appId,
+        config.installationId,
+        loadPrivateKey(config),
+      );
+  }
+}
+
+/**
+ * The subscriber's auth provider, created once and reused.
+ */
+export function getGitHubAuthProvider(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): GitHubAuthProvider {
+  const key = `${subscriber.id}:${JSON.stringify(getGitHubAuthConfig(subscriber))}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createGitHubAuthProvider(runtime, subscriber);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * A GitHub API client authenticated as the subscriber.
+ */
+export function createGitHubService(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): GitHubService {
+  return new GitHubService(getGitHubAuthProvider(runtime, subscriber));
+}
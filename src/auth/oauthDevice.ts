@@ -0,0 +1,221 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { GitHubAuthError } from "../services/githubErrors";
+import { getGitHubWebBaseUrl, githubFetch } from "../services/githubHost";
+import { hashCredentials } from "./pat";
+import type { GitHubAuthProvider } from "./types";
+
+const OAUTH_TOKEN_CACHE_PREFIX = "pingpal_github_oauth_token_";
+const DEVICE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+// Expiring user tokens (GitHub Apps) are refreshed this long before expiry
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Added to the poll interval each time GitHub answers "slow_down"
+const SLOW_DOWN_SECONDS = 5;
+
+export const DEFAULT_OAUTH_SCOPES = ["notifications", "repo"];
+
+/**
+ * A user token obtained through the device flow, kept in the agent cache.
+ */
+export interface StoredOAuthToken {
+  accessToken: string;
+  /** Only set for expiring tokens (GitHub App user tokens). */
+  refreshToken: string | null;
+  expiresAt: number | null;
+  scope: string;
+  obtainedAt: number;
+}
+
+export interface DeviceCode {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  /** Epoch milliseconds when the code stops working. */
+  expiresAt: number;
+  intervalSeconds: number;
+}
+
+async function postOAuth(
+  path: string,
+  params: Record<string, string>,
+): Promise<Record<string, any>> {
+  const response = await githubFetch(`${getGitHubWebBaseUrl()}${path}`, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+      "User-Agent": "PingPal-GitHub-Monitor",
+    },
+    body: new URLSearchParams(params),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `GitHub OAuth error: ${response.status} ${response.statusText}`,
+    );
+  }
+  return (await response.json()) as Record<string, any>;
+}
+
+function toStoredToken(data: Record<string, any>): StoredOAuthToken {
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? null,
+    expiresAt:
+      typeof data.expires_in === "number"
+        ? Date.now() + data.expires_in * 1000
+        : null,
+    scope: data.scope ?? "",
+    obtainedAt: Date.now(),
+  };
+}
+
+/**
+ * Starts the device flow: the user enters `userCode` at `verificationUri`
+ * while `waitForDeviceAuthorization` polls for the result.
+ */
+export async function startDeviceFlow(
+  clientId: string,
+  scopes: string[] = DEFAULT_OAUTH_SCOPES,
+): Promise<DeviceCode> {
+  const data = await postOAuth("/login/device/code", {
+    client_id: clientId,
+    scope: scopes.join(" "),
+  });
+  if (data.error) {
+    throw new Error(
+      `GitHub device flow error: ${data.error_description ?? data.error}`,
+    );
+  }
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    expiresAt: Date.now() + data.expires_in * 1000,
+    intervalSeconds: data.interval ?? 5,
+  };
+}
+
+/**
+ * Polls GitHub until the user approved or denied the device code, or the
+ * code expired.
+ */
+export async function waitForDeviceAuthorization(
+  clientId: string,
+  code: DeviceCode,
+): Promise<StoredOAuthToken> {
+  let intervalSeconds = code.intervalSeconds;
+
+  while (Date.now() < code.expiresAt) {
+    await new Promise((resolve) => setTimeout(resolve, intervalSeconds * 1000));
+
+    const data = await postOAuth("/login/oauth/access_token", {
+      client_id: clientId,
+      device_code: code.deviceCode,
+      grant_type: DEVICE_GRANT_TYPE,
+    });
+    if (data.access_token) {
+      return toStoredToken(data);
+    }
+
+    switch (data.error) {
+      case "authorization_pending":
+        break;
+      case "slow_down":
+        intervalSeconds = data.interval ?? intervalSeconds + SLOW_DOWN_SECONDS;
+        break;
+      default:
+        throw new Error(
+          `GitHub device flow error: ${data.error_description ?? data.error}`,
+        );
+    }
+  }
+
+  throw new Error("The device code expired before it was entered");
+}
+
+export async function saveOAuthToken(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  token: StoredOAuthToken,
+): Promise<void> {
+  await runtime.setCache<StoredOAuthToken>(
+    `${OAUTH_TOKEN_CACHE_PREFIX}${subscriberId}`,
+    token,
+  );
+}
+
+/**
+ * Uses the token the subscriber authorized with `/connect` on Telegram.
+ * Expiring tokens are refreshed with their refresh token.
+ */
+export class OAuthDeviceAuthProvider implements GitHubAuthProvider {
+  readonly type = "oauth_device";
+  readonly canReadNotifications = true;
+  readonly fingerprint: string;
+
+  private pendingRefresh: Promise<string> | null = null;
+
+  constructor(
+    private runtime: IAgentRuntime,
+    private subscriberId: string,
+    private clientId: string,
+  ) {
+    this.fingerprint = hashCredentials("oauth_device", clientId, subscriberId);
+  }
+
+  private async refresh(token: StoredOAuthToken): Promise<string> {
+    const data = await postOAuth("/login/oauth/access_token", {
+      client_id: this.clientId,
+      grant_type: "refresh_token",
+      refresh_token: token.refreshToken ?? "",
+    });
+    if (!data.access_token) {
+      throw new GitHubAuthError(
+        `GitHub OAuth token refresh failed: ${data.error_description ?? data.error}`,
+        401,
+      );
+    }
+    const refreshed = toStoredToken(data);
+    await saveOAuthToken(this.runtime, this.subscriberId, refreshed);
+    logger.info(
+      { subscriberId: this.subscriberId },
+      "[PingPal GitHub] Refreshed GitHub OAuth token",
+    );
+    return refreshed.accessToken;
+  }
+
+  async getToken(): Promise<string> {
+    const token = await this.runtime.getCache<StoredOAuthToken>(
+      `${OAUTH_TOKEN_CACHE_PREFIX}${this.subscriberId}`,
+    );
+    if (!token) {
+      throw new GitHubAuthError(
+        "GitHub account not connected yet: send /connect to the PingPal bot",
+        401,
+      );
+    }
+    if (
+      token.expiresAt === null ||
+      token.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+    ) {
+      return token.accessToken;
+    }
+    if (!token.refreshToken) {
+      throw new GitHubAuthError(
+        "GitHub OAuth token expired: send /connect to the PingPal bot",
+        401,
+      );
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refresh(token).finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  invalidate(): void {
+    // The stored token is only replaced by connecting again
+  }
+}
@@ -0,0 +1,35 @@
+import { createHash } from "node:crypto";
+import type { GitHubAuthProvider } from "./types";
+
+export function hashCredentials(...parts: string[]): string {
+  return createHash("sha256")
+    .update(parts.join("\0"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * A personal access token, used as is. Classic PATs (with the
+ * `notifications` and `repo` scopes) can read the notification inbox;
+ * fine-grained PATs can't, but work for thread content and webhook mode.
+ */
+export class PersonalAccessTokenProvider implements GitHubAuthProvider {
+  readonly fingerprint: string;
+  readonly canReadNotifications: boolean;
+
+  constructor(
+    private token: string,
+    readonly type: "pat" | "fine_grained_pat" = "pat",
+  ) {
+    this.fingerprint = hashCredentials(type, token);
+    this.canReadNotifications = type === "pat";
+  }
+
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  invalidate(): void {
+    // A rejected PAT can only be replaced by the user
+  }
+}
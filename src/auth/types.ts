@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+export const GITHUB_AUTH_TYPES = [
+  "pat",
+  "fine_grained_pat",
+  "oauth_device",
+  "github_app",
+] as const;
+
+export type GitHubAuthType = (typeof GITHUB_AUTH_TYPES)[number];
+
+// Ids may be given as JSON numbers
+const idSchema = (message: string) =>
+  z
+    .union([z.string().min(1, message), z.number()])
+    .transform((value) => String(value));
+
+/**
+ * How PingPal authenticates to GitHub for a subscriber. A plain
+ * `githubToken` on the subscriber is shorthand for `{ type: "pat" }`.
+ */
+export const githubAuthConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("pat"),
+    token: z.string().min(1, "GitHub token is required"),
+  }),
+  z.object({
+    type: z.literal("fine_grained_pat"),
+    token: z.string().min(1, "GitHub token is required"),
+  }),
+  z.object({
+    type: z.literal("oauth_device"),
+    /** Client id of the OAuth App (or GitHub App) with device flow enabled. */
+    clientId: z.string().min(1, "GitHub OAuth clientId is required"),
+    scopes: z.array(z.string().min(1)).optional(),
+  }),
+  z.object({
+    type: z.literal("github_app"),
+    appId: idSchema("GitHub App appId is required"),
+    installationId: idSchema("GitHub App installationId is required"),
+    /** PEM private key; `\n` escapes are accepted for env vars. */
+    privateKey: z.string().min(1).optional(),
+    /** Path to the PEM private key file, instead of `privateKey`. */
+    privateKeyPath: z.string().min(1).optional(),
+  }),
+]);
+
+export type GitHubAuthConfig = z.infer<typeof githubAuthConfigSchema>;
+
+/**
+ * Supplies the token for GitHub API calls. Providers whose tokens expire
+ * refresh them inside `getToken`, so callers never see an expired token.
+ */
+export interface GitHubAuthProvider {
+  readonly type: GitHubAuthType;
+  /**
+   * Identifies the credentials without revealing them, for state that
+   * belongs to one set of credentials (rate limits, the circuit breaker).
+   */
+  readonly fingerprint: string;
+  /**
+   * Whether the token can read the user's notification inbox. GitHub only
+   * allows that for classic PATs and OAuth user tokens.
+   */
+  readonly canReadNotifications: boolean;
+  getToken(): Promise<string>;
+  /** Drops a cached token GitHub rejected, so the next call gets a new one. */
+  invalidate(): void;
+}
@@ -0,0 +1,117 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  CATEGORY_LABELS,
+  isSilentPriority,
+  PRIORITY_LABELS,
+} from "../priority";
+import type { Priority } from "../priority";
+import {
+  CHANNEL_SEND_TIMEOUT_MS,
+  createResponseError,
+  type ChannelAlert,
+  type ChannelCapabilities,
+  type NotificationChannel,
+} from "./types";
+
+// Discord message flag that delivers without a push notification
+const SUPPRESS_NOTIFICATIONS_FLAG = 1 << 12;
+
+const PRIORITY_COLORS: Record<Priority, number> = {
+  critical: 0xd73a49,
+  high: 0xe36209,
+  normal: 0xdbab09,
+  low: 0x6a737d,
+};
+
+/**
+ * Escapes Discord markdown so titles render literally.
+ */
+function escapeDiscord(text: string): string {
+  return text.replace(/([\\*_~`|>])/g, "\\$1");
+}
+
+/**
+ * Posts alerts to a Discord channel webhook as an embed.
+ */
+export class DiscordChannel implements NotificationChannel {
+  readonly type = "discord";
+  readonly capabilities: ChannelCapabilities = {
+    actions: false,
+    silent: true,
+    batch: false,
+  };
+
+  constructor(private webhookUrl: string) {}
+
+  format(alert: ChannelAlert): string {
+    return JSON.stringify(this.buildPayload(alert));
+  }
+
+  private buildPayload(alert: ChannelAlert): Record<string, unknown> {
+    const { notification } = alert;
+    const fields = [
+      {
+        name: "Repository",
+        value: notification.repository.full_name,
+        inline: true,
+      },
+      { name: "Type", value: notification.reason, inline: true },
+      {
+        name: "Priority",
+        value: PRIORITY_LABELS[alert.priority],
+        inline: true,
+      },
+    ];
+    if (alert.category) {
+      fields.push({
+        name: "Category",
+        value: CATEGORY_LABELS[alert.category],
+        inline: true,
+      });
+    }
+    if (alert.suggestedAction) {
+      fields.push({
+        name: "Suggested action",
+        value: escapeDiscord(alert.suggestedAction),
+        inline: false,
+      });
+    }
+    if (alert.deadline) {
+      fields.push({
+        name: "Deadline",
+        value: escapeDiscord(alert.deadline),
+        inline: false,
+      });
+    }
+
+    return {
+      content: `${alert.priority === "critical" ? "🚨" : "🔔"} PingPal alert`,
+      embeds: [
+        {
+          title: notification.subject.title.slice(0, 256),
+          url: alert.link,
+          description: escapeDiscord(alert.reason),
+          color: PRIORITY_COLORS[alert.priority],
+          fields,
+          timestamp: notification.updated_at,
+        },
+      ],
+      allowed_mentions: { parse: [] },
+      ...(isSilentPriority(alert.priority)
+        ? { flags: SUPPRESS_NOTIFICATIONS_FLAG }
+        : {}),
+    };
+  }
+
+  async send(_runtime: IAgentRuntime, alert: ChannelAlert): Promise<void> {
+    const response = await fetch(this.webhookUrl, {
+      method: "POST",
+      signal: AbortSignal.timeout(CHANNEL_SEND_TIMEOUT_MS),
+      headers: { "Content-Type": "application/json" },
+      body: this.format(alert),
+    });
+    if (!response.ok) {
+      throw createResponseError("Discord webhook", response);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import nodemailer from "nodemailer";
+import { CATEGORY_LABELS, PRIORITY_LABELS } from "../priority";
+import { formatDateTime } from "../utils/time";
+import {
+  CHANNEL_SEND_TIMEOUT_MS,
+  type ChannelAlert,
+  type ChannelCapabilities,
+  type NotificationChannel,
+} from "./types";
+
+const DEFAULT_SMTP_PORT = 587;
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from?: string;
+}
+
+/**
+ * SMTP server settings from PINGPAL_SMTP_HOST, PINGPAL_SMTP_PORT,
+ * PINGPAL_SMTP_SECURE, PINGPAL_SMTP_USER, PINGPAL_SMTP_PASS and
+ * PINGPAL_SMTP_FROM, or null when no host is configured.
+ */
+export function getSmtpSettings(): SmtpSettings | null {
+  const host = process.env.PINGPAL_SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+  return {
+    host,
+    port: Number(process.env.PINGPAL_SMTP_PORT) || DEFAULT_SMTP_PORT,
+    secure: process.env.PINGPAL_SMTP_SECURE === "true",
+    user: process.env.PINGPAL_SMTP_USER || undefined,
+    pass: process.env.PINGPAL_SMTP_PASS || undefined,
+    from: process.env.PINGPAL_SMTP_FROM || undefined,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Sends alerts as email over SMTP.
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly type = "email";
+  readonly capabilities: ChannelCapabilities = {
+    actions: false,
+    silent: false,
+    batch: false,
+  };
+
+  constructor(
+    private to: string[],
+    private from?: string,
+  ) {}
+
+  private getDetails(alert: ChannelAlert): [string, string][] {
+    const { notification } = alert;
+    const details: [string, string][] = [
+      ["Repository", notification.repository.full_name],
+      ["Type", notification.reason],
+      ["Subject", notification.subject.title],
+      [
+        "Date",
+        formatDateTime(new Date(notification.updated_at), alert.timeZone),
+      ],
+      ["Priority", PRIORITY_LABELS[alert.priority]],
+    ];
+    if (alert.category) {
+      details.push(["Category", CATEGORY_LABELS[alert.category]]);
+    }
+    details.push(["Reason", alert.reason]);
+    if (alert.suggestedAction) {
+      details.push(["Suggested action", alert.suggestedAction]);
+    }
+    if (alert.deadline) {
+      details.push(["Deadline", alert.deadline]);
+    }
+    return details;
+  }
+
+  /**
+   * The plain-text body; `send` also attaches an HTML version.
+   */
+  format(alert: ChannelAlert): string {
+    return `${this.getDetails(alert)
+      .map(([label, value]) => `${label}: ${value}`)
+      .join("\n")}\n\nView on GitHub: ${alert.link}`;
+  }
+
+  private formatHtml(alert: ChannelAlert): string {
+    const rows = this.getDetails(alert)
+      .map(
+        ([label, value]) =>
+          `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+      )
+      .join("");
+    return `<table>${rows}</table><p><a href="${escapeHtml(alert.link)}">View on GitHub</a></p>`;
+  }
+
+  async send(_runtime: IAgentRuntime, alert: ChannelAlert): Promise<void> {
+    const smtp = getSmtpSettings();
+    if (!smtp) {
+      throw new Error("PINGPAL_SMTP_HOST is not configured");
+    }
+    const from = this.from ?? smtp.from ?? smtp.user;
+    if (!from) {
+      throw new Error("No sender address: set PINGPAL_SMTP_FROM");
+    }
+
+    const transport = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined,
+      // nodemailer waits minutes by default
+      connectionTimeout: CHANNEL_SEND_TIMEOUT_MS,
+      greetingTimeout: CHANNEL_SEND_TIMEOUT_MS,
+      socketTimeout: CHANNEL_SEND_TIMEOUT_MS,
+    });
+
+    await transport.sendMail({
+      from,
+      to: this.to,
+      subject: `[PingPal] ${alert.priority === "critical" ? "CRITICAL: " : ""}${alert.notification.repository.full_name}: ${alert.notification.subject.title}`,
+      text: this.format(alert),
+      html: this.formatHtml(alert),
+      priority: alert.priority === "critical" ? "high" : "normal",
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import type { GitHubNotification } from "../services/githubService";
+import { createAlertId } from "../services/alertActions";
+import { metrics } from "../services/metrics";
+import { getSubscriberTimeZone, type Subscriber } from "../subscribers";
+import type { Category, Priority } from "../priority";
+import { getNotificationWebUrl } from "../utils/links";
+import { DiscordChannel } from "./discord";
+import { EmailChannel } from "./email";
+import { SlackChannel } from "./slack";
+import { TelegramChannel } from "./telegram";
+import {
+  ChannelDeliveryError,
+  type ChannelAlert,
+  type ChannelConfig,
+  type ChannelType,
+  type NotificationChannel,
+} from "./types";
+import { WebhookChannel } from "./webhook";
+
+export * from "./types";
+
+export interface ChannelDelivery {
+  channel: ChannelType;
+  ok: boolean;
+  error?: string;
+  /** How long the channel asked us to wait before retrying. */
+  retryAfterMs?: number;
+}
+
+/**
+ * The wait a failed send asked for: Retry-After on webhook channels, or
+ * Telegram's `retry_after` (in seconds) on 429 responses.
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (error instanceof ChannelDeliveryError) {
+    return error.retryAfterMs;
+  }
+  const retryAfter = (error as any)?.response?.parameters?.retry_after;
+  return typeof retryAfter === "number" && retryAfter > 0
+    ? retryAfter * 1000
+    : undefined;
+}
+
+export function createChannel(
+  config: ChannelConfig,
+  subscriber: Subscriber,
+): NotificationChannel {
+  switch (config.type) {
+    case "telegram":
+      if (!subscriber.telegramChatId) {
+        throw new Error(
+          `Subscriber '${subscriber.id}' has a Telegram channel but no telegramChatId`,
+        );
+      }
+      return new TelegramChannel(subscriber.telegramChatId);
+    case "slack":
+      return new SlackChannel(config.webhookUrl);
+    case "discord":
+      return new DiscordChannel(config.webhookUrl);
+    case "email":
+      return new EmailChannel(
+        Array.isArray(config.to) ? config.to : [config.to],
+        config.from,
+      );
+    case "webhook":
+      return new WebhookChannel(config.url, config.headers);
+  }
+}
+
+/**
+ * The subscriber's configured channels. Without a `channels` list alerts go
+ * to their Telegram chat, as they always have.
+ */
+export function getChannelsForSubscriber(
+  subscriber: Subscriber,
+): NotificationChannel[] {
+  return (subscriber.channels ?? [{ type: "telegram" as const }]).map(
+    (config) => createChannel(config, subscriber),
+  );
+}
+
+export function createChannelAlert(
+  subscriber: Subscriber,
+  alert: {
+    notification: GitHubNotification;
+    reason: string;
+    priority: Priority;
+    category?: Category | null;
+    suggestedAction?: string | null;
+    deadline?: string | null;
+    /** Resolved from the fetched thread; see getNotificationWebUrl. */
+    webUrl?: string | null;
+    processedMemoryId?: UUID | null;
+    snippet?: string | null;
+    ciRunId?: number | null;
+  },
+): ChannelAlert {
+  return {
+    alertId: createAlertId(),
+    subscriberId: subscriber.id,
+    notification: alert.notification,
+    reason: alert.reason,
+    priority: alert.priority,
+    category: alert.category ?? null,
+    suggestedAction: alert.suggestedAction ?? null,
+    deadline: alert.deadline ?? null,
+    link: alert.webUrl ?? getNotificationWebUrl(alert.notification),
+    timeZone: getSubscriberTimeZone(subscriber),
+    processedMemoryId: alert.processedMemoryId ?? null,
+    snippet: alert.snippet ?? null,
+    ciRunId: alert.ciRunId ?? null,
+  };
+}
+
+/**
+ * Sends an alert to every channel of the subscriber, or only to
+ * `channelTypes` when retrying. A failing channel doesn't stop the others;
+ * each outcome is reported.
+ */
+export async function deliverAlert(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  alert: ChannelAlert,
+  channelTypes?: ChannelType[],
+): Promise<ChannelDelivery[]> {
+  const deliveries: ChannelDelivery[] = [];
+  const channels = getChannelsForSubscriber(subscriber).filter(
+    (channel) => !channelTypes || channelTypes.includes(channel.type),
+  );
+
+  for (const channel of channels) {
+    try {
+      await channel.send(runtime, alert);
+      deliveries.push({ channel: channel.type, ok: true });
+      metrics.alertsSent.inc({ channel: channel.type });
+    } catch (error) {
+      metrics.alertsFailed.inc({ channel: channel.type });
+      logger.error(
+        {
+          error:
+            error instanceof Error
+              ? { name: error.name, message: error.message, stack: error.stack }
+              : String(error),
+          channel: channel.type,
+          subscriberId: subscriber.id,
+          notificationId: alert.notification.id,
+        },
+        "[PingPal GitHub] Failed to deliver alert",
+      );
+      deliveries.push({
+        channel: channel.type,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+        retryAfterMs: getRetryAfterMs(error),
+      });
+    }
+  }
+
+  return deliveries;
+}
+
+/**
+ * Sends held-back alerts to every channel of the subscriber: as one message
+ * where the channel supports it, otherwise one by one.
+ */
+export async function deliverAlertBatch(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  alerts: ChannelAlert[],
+  title: string,
+): Promise<ChannelDelivery[]> {
+  const deliveries: ChannelDelivery[] = [];
+
+  for (const channel of getChannelsForSubscriber(subscriber)) {
+    try {
+      if (channel.capabilities.batch && channel.sendBatch) {
+        await channel.sendBatch(runtime, alerts, title);
+      } else {
+        for (const alert of alerts) {
+          await channel.send(runtime, alert);
+        }
+      }
+      deliveries.push({ channel: channel.type, ok: true });
+      metrics.alertsSent.inc({ channel: channel.type }, alerts.length);
+    } catch (error) {
+      metrics.alertsFailed.inc({ channel: channel.type }, alerts.length);
+      logger.error(
+        { error, channel: channel.type, subscriberId: subscriber.id },
+        "[PingPal GitHub] Failed to deliver held alerts",
+      );
+      deliveries.push({
+        channel: channel.type,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return deliveries;
+}
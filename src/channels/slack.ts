@@ -0,0 +1,66 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { CATEGORY_LABELS, PRIORITY_LABELS } from "../priority";
+import { formatDateTime } from "../utils/time";
+import {
+  CHANNEL_SEND_TIMEOUT_MS,
+  createResponseError,
+  type ChannelAlert,
+  type ChannelCapabilities,
+  type NotificationChannel,
+} from "./types";
+
+/**
+ * Escapes the characters Slack's mrkdwn treats as control characters.
+ */
+function escapeSlack(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Posts alerts to a Slack incoming webhook as mrkdwn.
+ */
+export class SlackChannel implements NotificationChannel {
+  readonly type = "slack";
+  readonly capabilities: ChannelCapabilities = {
+    actions: false,
+    silent: false,
+    batch: false,
+  };
+
+  constructor(private webhookUrl: string) {}
+
+  format(alert: ChannelAlert): string {
+    const { notification } = alert;
+    const lines = [
+      `${alert.priority === "critical" ? ":rotating_light:" : ":bell:"} *PingPal: ${escapeSlack(notification.repository.full_name)}*`,
+      `<${alert.link}|${escapeSlack(notification.subject.title)}>`,
+      `*Type:* ${escapeSlack(notification.reason)}  *Priority:* ${PRIORITY_LABELS[alert.priority]}${
+        alert.category ? `  *Category:* ${CATEGORY_LABELS[alert.category]}` : ""
+      }`,
+      `*Date:* ${formatDateTime(new Date(notification.updated_at), alert.timeZone)}`,
+      `*Reason:* ${escapeSlack(alert.reason)}`,
+    ];
+    if (alert.suggestedAction) {
+      lines.push(`*Suggested action:* ${escapeSlack(alert.suggestedAction)}`);
+    }
+    if (alert.deadline) {
+      lines.push(`*Deadline:* ${escapeSlack(alert.deadline)}`);
+    }
+    return lines.join("\n");
+  }
+
+  async send(_runtime: IAgentRuntime, alert: ChannelAlert): Promise<void> {
+    const response = await fetch(this.webhookUrl, {
+      method: "POST",
+      signal: AbortSignal.timeout(CHANNEL_SEND_TIMEOUT_MS),
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: this.format(alert), mrkdwn: true }),
+    });
+    if (!response.ok) {
+      throw createResponseError("Slack webhook", response);
+    }
+  }
+}
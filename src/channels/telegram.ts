@@ -0,0 +1,240 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import {
+  buildAlertKeyboard,
+  getAlert,
+  saveAlert,
+  type StoredAlert,
+} from "../services/alertActions";
+import {
+  getActiveThreadMessage,
+  saveThreadMessage,
+  type ThreadMessage,
+} from "../services/threadMessages";
+import {
+  CATEGORY_LABELS,
+  isHigherPriority,
+  isSilentPriority,
+  PRIORITY_LABELS,
+} from "../priority";
+import { escapeMarkdownV2, escapeMarkdownV2Url } from "../utils/markdown";
+import { getTelegramBot } from "../utils/telegram";
+import { formatDateTime } from "../utils/time";
+import {
+  CHANNEL_SEND_TIMEOUT_MS,
+  type ChannelAlert,
+  type ChannelCapabilities,
+  type NotificationChannel,
+} from "./types";
+
+// Stay below Telegram's 4096 character message limit
+const MAX_BATCH_LENGTH = 3800;
+
+/**
+ * Sends alerts through the @elizaos/plugin-telegram bot as MarkdownV2, with
+ * inline buttons that act on the thread. Further alerts for a thread within
+ * the coalescing window edit its message instead of pinging again.
+ */
+export class TelegramChannel implements NotificationChannel {
+  readonly type = "telegram";
+  readonly capabilities: ChannelCapabilities = {
+    actions: true,
+    silent: true,
+    batch: true,
+  };
+
+  constructor(private chatId: string) {}
+
+  private getBot(runtime: IAgentRuntime): any {
+    const bot = getTelegramBot(runtime);
+    if (!bot?.telegram?.callApi) {
+      throw new Error("Telegram service bot.telegram.callApi not available");
+    }
+    return bot;
+  }
+
+  /**
+   * Calls the Bot API directly, as Telegraf's shortcuts take no abort signal.
+   */
+  private callApi(bot: any, method: string, payload: object): Promise<any> {
+    return bot.telegram.callApi(method, payload, {
+      signal: AbortSignal.timeout(CHANNEL_SEND_TIMEOUT_MS),
+    });
+  }
+
+  format(alert: ChannelAlert): string {
+    const { notification } = alert;
+    const repoName = escapeMarkdownV2(notification.repository.full_name);
+    const subject = escapeMarkdownV2(notification.subject.title);
+    const notificationType = escapeMarkdownV2(notification.reason);
+    const escapedReason = escapeMarkdownV2(alert.reason);
+    const escapedDate = escapeMarkdownV2(
+      formatDateTime(new Date(notification.updated_at), alert.timeZone),
+    );
+
+    const analysisLines = [
+      alert.category
+        ? `*Category:* ${escapeMarkdownV2(CATEGORY_LABELS[alert.category])}`
+        : null,
+      alert.suggestedAction
+        ? `*Suggested action:* ${escapeMarkdownV2(alert.suggestedAction)}`
+        : null,
+      alert.deadline ? `*Deadline:* ${escapeMarkdownV2(alert.deadline)}` : null,
+    ].filter((line): line is string => line !== null);
+
+    return `*🔔 PingPal Alert: ${alert.priority === "critical" ? "Critical" : "Important"} GitHub Notification*
+
+*Repository:* ${repoName}
+*Type:* ${notificationType}
+*Subject:* ${subject}
+*Date:* ${escapedDate}
+*Priority:* ${escapeMarkdownV2(PRIORITY_LABELS[alert.priority])}
+
+*Reason:* ${escapedReason}${analysisLines.length > 0 ? `\n${analysisLines.join("\n")}` : ""}
+
+[View on GitHub](${escapeMarkdownV2Url(alert.link)})`;
+  }
+
+  /**
+   * Folds an alert into the thread's earlier message with an update count
+   * and the latest snippet. Returns false when the message can't be edited
+   * (e.g. it was deleted), so a new one is sent instead.
+   */
+  private async coalesce(
+    runtime: IAgentRuntime,
+    bot: any,
+    previous: ThreadMessage,
+    alert: ChannelAlert,
+  ): Promise<boolean> {
+    const storedAlert = await getAlert(runtime, previous.alertId);
+    if (!storedAlert) {
+      return false;
+    }
+
+    const updates = previous.updates + 1;
+    const footer = `\n\n_${escapeMarkdownV2(
+      `🔄 ${updates} new update${updates === 1 ? "" : "s"} since this alert`,
+    )}_${alert.snippet ? `\n${escapeMarkdownV2(`Latest: ${alert.snippet}`)}` : ""}`;
+    try {
+      await this.callApi(bot, "editMessageText", {
+        chat_id: this.chatId,
+        message_id: previous.messageId,
+        text: `${storedAlert.text}${footer}`,
+        parse_mode: "MarkdownV2",
+        reply_markup: buildAlertKeyboard(storedAlert, !storedAlert.actionTaken),
+      });
+    } catch (error) {
+      logger.warn(
+        { error, alertId: previous.alertId, threadId: previous.threadId },
+        "[PingPal GitHub] Could not update the thread's alert message; sending a new one",
+      );
+      return false;
+    }
+
+    await saveAlert(runtime, { ...storedAlert, footer });
+    await saveThreadMessage(runtime, { ...previous, updates });
+    logger.info(
+      { alertId: previous.alertId, threadId: previous.threadId, updates },
+      "[PingPal GitHub] Folded alert into the thread's earlier message",
+    );
+    return true;
+  }
+
+  async send(runtime: IAgentRuntime, alert: ChannelAlert): Promise<void> {
+    const bot = this.getBot(runtime);
+    const previous = await getActiveThreadMessage(
+      runtime,
+      alert.subscriberId,
+      alert.notification.id,
+    );
+    if (
+      previous &&
+      previous.chatId === this.chatId &&
+      // A rise in priority is worth a new ping
+      !isHigherPriority(alert.priority, previous.priority) &&
+      (await this.coalesce(runtime, bot, previous, alert))
+    ) {
+      return;
+    }
+
+    const text = this.format(alert);
+    const storedAlert: StoredAlert = {
+      alertId: alert.alertId,
+      subscriberId: alert.subscriberId,
+      notification: alert.notification,
+      reason: alert.reason,
+      priority: alert.priority,
+      category: alert.category,
+      suggestedAction: alert.suggestedAction,
+      deadline: alert.deadline,
+      text,
+      link: alert.link,
+      processedMemoryId: alert.processedMemoryId,
+      ciRunId: alert.ciRunId,
+    };
+
+    // Saved first so the buttons work as soon as the message arrives
+    await saveAlert(runtime, storedAlert);
+    const message = await this.callApi(bot, "sendMessage", {
+      chat_id: this.chatId,
+      text,
+      parse_mode: "MarkdownV2",
+      // Critical alerts ring; high alerts arrive silently
+      disable_notification: isSilentPriority(alert.priority),
+      reply_markup: buildAlertKeyboard(storedAlert),
+    });
+    if (typeof message?.message_id !== "number") {
+      return;
+    }
+    // The alert is out; failing here must not make the outbox resend it
+    await saveThreadMessage(runtime, {
+      subscriberId: alert.subscriberId,
+      threadId: alert.notification.id,
+      alertId: alert.alertId,
+      chatId: this.chatId,
+      messageId: message.message_id,
+      priority: alert.priority,
+      sentAt: Date.now(),
+      updates: 0,
+    }).catch((error) =>
+      logger.warn(
+        { error, alertId: alert.alertId },
+        "[PingPal GitHub] Failed to record the alert message for its thread",
+      ),
+    );
+  }
+
+  async sendBatch(
+    runtime: IAgentRuntime,
+    alerts: ChannelAlert[],
+    title: string,
+  ): Promise<void> {
+    const bot = this.getBot(runtime);
+    const header = `*${escapeMarkdownV2(title)}*`;
+    const lines: string[] = [];
+    let length = header.length;
+
+    for (const alert of alerts) {
+      const line = `• *${escapeMarkdownV2(alert.notification.repository.full_name)}*: [${escapeMarkdownV2(
+        alert.notification.subject.title,
+      )}](${escapeMarkdownV2Url(alert.link)})\n  ${escapeMarkdownV2(
+        `${alert.notification.reason}, ${formatDateTime(new Date(alert.notification.updated_at), alert.timeZone)}: ${alert.reason}`,
+      )}`;
+      if (length + line.length + 2 > MAX_BATCH_LENGTH) {
+        lines.push(
+          `_${escapeMarkdownV2(`…and ${alerts.length - lines.length} more`)}_`,
+        );
+        break;
+      }
+      lines.push(line);
+      length += line.length + 2;
+    }
+
+    await this.callApi(bot, "sendMessage", {
+      chat_id: this.chatId,
+      text: `${header}\n\n${lines.join("\n\n")}`,
+      parse_mode: "MarkdownV2",
+      disable_web_page_preview: true,
+    });
+  }
+}
@@ -0,0 +1,139 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import { z } from "zod";
+import type { GitHubNotification } from "../services/githubService";
+import type { Category, Priority } from "../priority";
+
+export const CHANNEL_TYPES = [
+  "telegram",
+  "slack",
+  "discord",
+  "email",
+  "webhook",
+] as const;
+
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+/**
+ * How long a channel may take to deliver an alert before the send is
+ * aborted and counts as failed, so a hanging service can't stall the outbox.
+ */
+export const CHANNEL_SEND_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Where a subscriber's alerts are delivered. Telegram uses the subscriber's
+ * `telegramChatId`; email uses the PINGPAL_SMTP_* server settings.
+ */
+export const channelConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("telegram") }),
+  z.object({
+    type: z.literal("slack"),
+    /** Slack incoming-webhook URL. */
+    webhookUrl: z.string().url("Slack webhookUrl must be a URL"),
+  }),
+  z.object({
+    type: z.literal("discord"),
+    /** Discord channel webhook URL. */
+    webhookUrl: z.string().url("Discord webhookUrl must be a URL"),
+  }),
+  z.object({
+    type: z.literal("email"),
+    to: z.union([
+      z.string().email("Email channel 'to' must be an email address"),
+      z
+        .array(z.string().email("Email channel 'to' must be an email address"))
+        .min(1),
+    ]),
+    /** Overrides PINGPAL_SMTP_FROM. */
+    from: z.string().min(1).optional(),
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    url: z.string().url("Webhook channel url must be a URL"),
+    /** Extra request headers, e.g. for authentication. */
+    headers: z.record(z.string()).optional(),
+  }),
+]);
+
+export type ChannelConfig = z.infer<typeof channelConfigSchema>;
+
+/**
+ * One alert as handed to a channel. Channels render it in their own format.
+ */
+export interface ChannelAlert {
+  alertId: string;
+  subscriberId: string;
+  notification: GitHubNotification;
+  reason: string;
+  priority: Priority;
+  category: Category | null;
+  suggestedAction: string | null;
+  deadline: string | null;
+  /** Web URL of the item on GitHub. */
+  link: string;
+  /** IANA timezone dates are shown in. */
+  timeZone: string;
+  /** The processed-notification record, which feedback on the alert rates. */
+  processedMemoryId?: UUID | null;
+  /** The latest comment or review on the thread, `author: text`, shortened. */
+  snippet?: string | null;
+  /** Workflow run of a CI failure alert, whose failed jobs can be re-run. */
+  ciRunId?: number | null;
+}
+
+export interface ChannelCapabilities {
+  /** Alerts carry buttons (mark read, mute, snooze) that act on the thread. */
+  actions: boolean;
+  /** Can deliver without a sound, which high-priority alerts use. */
+  silent: boolean;
+  /** Can deliver several alerts as one message (see `sendBatch`). */
+  batch: boolean;
+}
+
+/**
+ * A destination for alerts. `send` throws when the alert couldn't be
+ * delivered, so callers can report or retry per channel.
+ */
+export interface NotificationChannel {
+  readonly type: ChannelType;
+  readonly capabilities: ChannelCapabilities;
+  /** Renders an alert in the channel's own markup. */
+  format(alert: ChannelAlert): string;
+  send(runtime: IAgentRuntime, alert: ChannelAlert): Promise<void>;
+  /** Delivers alerts held back (e.g. during quiet hours) as one message. */
+  sendBatch?(
+    runtime: IAgentRuntime,
+    alerts: ChannelAlert[],
+    title: string,
+  ): Promise<void>;
+}
+
+/**
+ * A failed delivery. `retryAfterMs` is set when the service asked us to wait
+ * before trying again (HTTP 429 with a Retry-After header).
+ */
+export class ChannelDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ChannelDeliveryError";
+  }
+}
+
+/**
+ * Builds the error for a failed webhook call, e.g. "Slack webhook error:
+ * 429 Too Many Requests".
+ */
+export function createResponseError(
+  service: string,
+  response: Response,
+): ChannelDeliveryError {
+  const retryAfterSeconds = Number(response.headers.get("retry-after"));
+  return new ChannelDeliveryError(
+    `${service} error: ${response.status} ${response.statusText}`,
+    response.status === 429 && retryAfterSeconds > 0
+      ? retryAfterSeconds * 1000
+      : undefined,
+  );
+}
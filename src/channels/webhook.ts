@@ -0,0 +1,65 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  CHANNEL_SEND_TIMEOUT_MS,
+  createResponseError,
+  type ChannelAlert,
+  type ChannelCapabilities,
+  type NotificationChannel,
+} from "./types";
+
+/**
+ * POSTs each alert as JSON to any HTTP endpoint, for integrations PingPal
+ * doesn't support directly.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly type = "webhook";
+  readonly capabilities: ChannelCapabilities = {
+    actions: false,
+    silent: false,
+    batch: false,
+  };
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+  ) {}
+
+  format(alert: ChannelAlert): string {
+    const { notification } = alert;
+    return JSON.stringify({
+      event: "pingpal.alert",
+      alertId: alert.alertId,
+      subscriberId: alert.subscriberId,
+      priority: alert.priority,
+      category: alert.category,
+      reason: alert.reason,
+      suggestedAction: alert.suggestedAction,
+      deadline: alert.deadline,
+      link: alert.link,
+      notification: {
+        id: notification.id,
+        reason: notification.reason,
+        repository: notification.repository.full_name,
+        title: notification.subject.title,
+        type: notification.subject.type,
+        updatedAt: notification.updated_at,
+      },
+    });
+  }
+
+  async send(_runtime: IAgentRuntime, alert: ChannelAlert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      signal: AbortSignal.timeout(CHANNEL_SEND_TIMEOUT_MS),
+      headers: {
+        ...this.headers,
+        "Content-Type": "application/json",
+        "User-Agent": "PingPal-GitHub-Monitor",
+      },
+      body: this.format(alert),
+    });
+    if (!response.ok) {
+      throw createResponseError("Webhook channel", response);
+    }
+  }
+}
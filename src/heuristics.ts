@@ -0,0 +1,109 @@
+import type {
+  GitHubNotification,
+  GitHubThreadContext,
+} from "./services/githubService";
+import type { Category, HeuristicAnalysis, Priority } from "./priority";
+import { isCiNotification } from "./services/ciFailures";
+import { isSameUser, mentions } from "./utils/mentions";
+
+// Words GitHub and CI apps use in the titles of failed runs
+const CI_FAILURE_PATTERN =
+  /\b(fail(ed|ure|ing)?|timed[_ ]out|action[_ ]required|error(ed)?)\b/i;
+
+/**
+ * Deterministic classification from the notification reason and thread
+ * content, used when the LLM is unavailable. It errs towards alerting: a
+ * missed review request costs more than an extra message.
+ */
+export function classifyByHeuristics(
+  notification: GitHubNotification,
+  context: GitHubThreadContext | null,
+  targetUsername: string,
+): HeuristicAnalysis {
+  const isMine = isSameUser(context?.author, targetUsername);
+  const result = (
+    priority: Priority,
+    category: Category | null,
+    reason: string,
+    suggestedAction: string | null = null,
+  ): HeuristicAnalysis => ({
+    priority,
+    category,
+    reason,
+    suggestedAction,
+    deadline: null,
+  });
+
+  if (isCiNotification(notification)) {
+    return CI_FAILURE_PATTERN.test(notification.subject.title)
+      ? result(
+          "high",
+          "ci_failure",
+          "A CI run you triggered failed.",
+          "Check the failed run",
+        )
+      : result("low", "fyi", "CI activity without a failure.");
+  }
+
+  if (notification.reason === "review_requested") {
+    return result(
+      "high",
+      "review_needed",
+      "Your review was requested.",
+      "Review the pull request",
+    );
+  }
+
+  if (
+    mentions(context?.latestComment?.body, targetUsername) ||
+    mentions(context?.latestReview?.body, targetUsername) ||
+    (notification.reason === "mention" &&
+      !context?.latestComment &&
+      mentions(context?.body, targetUsername))
+  ) {
+    return result(
+      "high",
+      "question",
+      "You were @-mentioned directly.",
+      "Read the mention and reply",
+    );
+  }
+
+  if (notification.reason === "assign") {
+    return result(
+      "high",
+      null,
+      "You were assigned.",
+      `Look at the ${notification.subject.type === "PullRequest" ? "pull request" : "issue"}`,
+    );
+  }
+
+  if (isMine && context?.latestReview?.state === "CHANGES_REQUESTED") {
+    return result(
+      "high",
+      "blocker",
+      "Changes were requested on your pull request.",
+      "Address the review",
+    );
+  }
+
+  if (
+    notification.reason === "mention" ||
+    notification.reason === "team_mention"
+  ) {
+    return result(
+      notification.reason === "mention" ? "high" : "normal",
+      "question",
+      notification.reason === "mention"
+        ? "You were mentioned."
+        : "Your team was mentioned.",
+    );
+  }
+
+  if (isMine || notification.reason === "author") {
+    return result("normal", "fyi", "Activity on something you opened.");
+  }
+
+  // Unknown cases go to the digest rather than being dropped
+  return result("normal", "fyi", "No heuristic matched.");
+}
@@ -1,4 +1,5 @@
 import { pingPalGitHubPlugin } from "./plugin.ts";
 
 export { pingPalGitHubPlugin, StarterService } from "./plugin.ts";
+export { githubWebhookRawBody } from "./routes/githubWebhook.ts";
 export default pingPalGitHubPlugin;
@@ -14,25 +14,46 @@ import {
   type MessagePayload,
   type WorldPayload,
   EventType,
-  type UUID,
-  stringToUuid,
   ChannelType,
 } from "@elizaos/core";
 import { z } from "zod";
 import { pollGitHubNotificationsAction } from "./actions/pollGitHubNotifications";
-import { analyzeGitHubNotificationAction } from "./actions/analyzeGitHubNotification";
-import { sendTelegramNotificationAction } from "./actions/sendTelegramNotification";
+import {
+  analyzeGitHubNotificationAction,
+  reanalyzeFailedNotifications,
+} from "./actions/analyzeGitHubNotification";
+import { sendNotificationAction } from "./actions/sendNotification";
+import { getInternalRoomIdForAgent } from "./utils/internalRoom";
+import { getIngestionMode, githubWebhookRoute } from "./routes/githubWebhook";
+import { pingPalApiRoutes } from "./routes/pingpalApi";
+import { metricsRoute } from "./routes/metrics";
+import { loadSubscribers, type Subscriber } from "./subscribers";
+import { getRuleSetForSubscriber } from "./rules";
+import {
+  processDueSnoozes,
+  registerAlertActionHandlers,
+  subscribeToAlertButtonPresses,
+} from "./services/alertActions";
+import { processDueDigests } from "./services/digestService";
+import { processTrackedRequests } from "./services/reviewReminders";
+import { processDueEscalations } from "./services/escalation";
+import { flushHeldAlerts } from "./services/quietHours";
+import { processOutbox } from "./services/outbox";
+import { registerChatCommands } from "./services/chatCommands";
+import { parseDuration, parseTimeWindow } from "./utils/time";
+import { getSmtpSettings } from "./channels/email";
+import { getGitHubAuthConfig, getGitHubAuthProvider } from "./auth";
+import {
+  getGitHubApiBaseUrl,
+  getGitHubDispatcher,
+  getGitHubWebBaseUrl,
+} from "./services/githubHost";
 
-/**
- * Generates a consistent internal room ID for the agent following the email plugin pattern
- */
-const getInternalRoomIdForAgent = (agentId: UUID): UUID => {
-  // Take first 13 chars of agentId to create a unique suffix (following email plugin pattern)
-  const agentSpecificRoomSuffix = agentId.slice(0, 13);
+// Minimum delay between polls; GitHub's X-Poll-Interval can only lengthen it
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
 
-  // Use stringToUuid with a clean, short seed string for proper UUID generation
-  return stringToUuid(`pingpal-github-internal-room-${agentSpecificRoomSuffix}`);
-};
+// How often scheduled work (expired snoozes, held alerts, due digests) is checked
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
 
 /**
  * Defines the configuration schema for a plugin, including the validation rules for the plugin name.
@@ -163,12 +184,46 @@ const helloWorldProvider: Provider = {
   },
 };
 
+/**
+ * Subscribes the Telegram bot to button presses once it polls, and warns
+ * when that isn't possible. Checked on every scheduler pass, as the bot may
+ * start (or restart its polling) after us.
+ */
+function checkAlertButtonPresses(
+  service: StarterService,
+  runtime: IAgentRuntime,
+): void {
+  const subscribed = subscribeToAlertButtonPresses(runtime);
+  if (subscribed === null || subscribed === service.alertButtonPresses) {
+    return;
+  }
+  service.alertButtonPresses = subscribed;
+  if (subscribed) {
+    logger.info(
+      "[PingPal GitHub] Telegram bot receives callback_query updates; alert buttons are active.",
+    );
+  } else {
+    logger.warn(
+      "[PingPal GitHub] The Telegram bot doesn't receive callback_query updates, so alert buttons (mark read, mute, snooze, feedback, re-run, Got it) do nothing. Add callback_query to the bot's allowed updates.",
+    );
+  }
+}
+
 export class StarterService extends Service {
   static override serviceType = "starter";
 
   override capabilityDescription =
     "This is a starter service which is attached to the agent through the starter plugin.";
 
+  // One poll loop per subscriber, keyed by subscriber id
+  pollTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  schedulerTimer: ReturnType<typeof setTimeout> | null = null;
+  alertActionsRegistered = false;
+  chatCommandsRegistered = false;
+  // Whether button presses reach the bot; null until the bot polls
+  alertButtonPresses: boolean | null = null;
+  stopped = false;
+
   constructor(runtime: IAgentRuntime) {
     super(runtime);
   }
@@ -196,9 +251,25 @@ export class StarterService extends Service {
       `[PingPal GitHub] Ensured internal room exists: ${internalRoomId}`,
     );
 
-    // Set up periodic polling (every 30 seconds)
-    const pollInterval = 30 * 1000; // 30 seconds
-    setInterval(async () => {
+    const service = new StarterService(runtime);
+
+    // Set up periodic polling per subscriber (every 30 seconds, or longer if
+    // configured for the subscriber or requested by GitHub via X-Poll-Interval)
+    const schedulePoll = (subscriber: Subscriber, delayMs: number) => {
+      service.pollTimers.set(
+        subscriber.id,
+        setTimeout(() => runPoll(subscriber), delayMs),
+      );
+    };
+
+    const getBaseDelayMs = (subscriber: Subscriber) =>
+      Math.max(
+        DEFAULT_POLL_INTERVAL_MS,
+        (subscriber.pollIntervalSeconds ?? 0) * 1000,
+      );
+
+    const runPoll = async (subscriber: Subscriber) => {
+      let nextDelayMs = getBaseDelayMs(subscriber);
       try {
         // Create a memory object for internal polling trigger
         // Use agent-specific internal roomId to avoid FK constraints
@@ -207,7 +278,11 @@ export class StarterService extends Service {
           entityId: runtime.agentId,
           roomId: internalRoomId, // Use agent-specific room ID
           agentId: runtime.agentId,
-          content: { text: "Polling GitHub notifications", source: "internal" },
+          content: {
+            text: "Polling GitHub notifications",
+            source: "internal",
+            subscriberId: subscriber.id,
+          },
           createdAt: Date.now(),
         };
 
@@ -215,18 +290,138 @@ export class StarterService extends Service {
         if (
           await pollGitHubNotificationsAction.validate(runtime, pollingMemory)
         ) {
-          await pollGitHubNotificationsAction.handler(runtime, pollingMemory);
+          const result = await pollGitHubNotificationsAction.handler(
+            runtime,
+            pollingMemory,
+          );
+          const pollIntervalSeconds = (result as ActionResult | undefined)
+            ?.data?.pollIntervalSeconds;
+          if (typeof pollIntervalSeconds === "number") {
+            nextDelayMs = Math.max(nextDelayMs, pollIntervalSeconds * 1000);
+          }
         }
       } catch (error) {
-        logger.error("[PingPal GitHub] Error during periodic polling:", error);
+        logger.error(
+          { error, subscriberId: subscriber.id },
+          "[PingPal GitHub] Error during periodic polling",
+        );
+      }
+      if (!service.stopped) {
+        schedulePoll(subscriber, nextDelayMs);
       }
-    }, pollInterval);
+    };
 
-    console.log(
-      "[PingPal GitHub] Registered periodic GitHub notification polling (30 second intervals).",
-    );
+    // Telegram alert buttons (mark read, mute, snooze) and chat commands.
+    // The Telegram service may start after us, so registration is retried
+    // from the scheduler loop.
+    service.alertActionsRegistered = registerAlertActionHandlers(runtime);
+    service.chatCommandsRegistered = registerChatCommands(runtime);
+    if (!service.alertActionsRegistered || !service.chatCommandsRegistered) {
+      logger.warn(
+        "[PingPal GitHub] Telegram bot not available yet; alert buttons and chat commands will be registered once it is.",
+      );
+    }
+    checkAlertButtonPresses(service, runtime);
+    // Each tick is scheduled once the previous one finished, so slow ticks
+    // can't overlap and send the same alerts or escalations twice
+    const runScheduler = async () => {
+      try {
+        if (!service.alertActionsRegistered) {
+          service.alertActionsRegistered = registerAlertActionHandlers(runtime);
+        }
+        if (!service.chatCommandsRegistered) {
+          service.chatCommandsRegistered = registerChatCommands(runtime);
+        }
+        checkAlertButtonPresses(service, runtime);
+        await processDueSnoozes(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while processing snoozed alerts",
+        );
+      }
+      try {
+        await processOutbox(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while retrying failed alert deliveries",
+        );
+      }
+      try {
+        await flushHeldAlerts(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while flushing alerts held during quiet hours",
+        );
+      }
+      try {
+        await reanalyzeFailedNotifications(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while re-analyzing notifications the LLM failed on",
+        );
+      }
+      try {
+        await processTrackedRequests(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while checking review requests and assignments",
+        );
+      }
+      try {
+        await processDueEscalations(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while escalating unacknowledged critical alerts",
+        );
+      }
+      try {
+        await processDueDigests(runtime);
+      } catch (error) {
+        logger.error(
+          { error },
+          "[PingPal GitHub] Error while processing scheduled digests",
+        );
+      }
+      if (!service.stopped) {
+        service.schedulerTimer = setTimeout(
+          runScheduler,
+          SCHEDULER_INTERVAL_MS,
+        );
+      }
+    };
+    service.schedulerTimer = setTimeout(runScheduler, SCHEDULER_INTERVAL_MS);
+
+    if (getIngestionMode() === "webhook") {
+      console.log(
+        "[PingPal GitHub] Ingestion mode is 'webhook'; periodic polling is disabled.",
+      );
+    } else {
+      const subscribers = loadSubscribers().filter((subscriber) => {
+        // GitHub only serves the notification inbox to user tokens
+        if (getGitHubAuthProvider(runtime, subscriber).canReadNotifications) {
+          return true;
+        }
+        logger.warn(
+          { subscriberId: subscriber.id },
+          "[PingPal GitHub] Not polling: this GitHub auth mode can't read notifications; use PINGPAL_INGESTION_MODE=webhook",
+        );
+        return false;
+      });
+      for (const subscriber of subscribers) {
+        schedulePoll(subscriber, getBaseDelayMs(subscriber));
+      }
+
+      console.log(
+        `[PingPal GitHub] Registered periodic GitHub notification polling for ${subscribers.length} subscriber(s) (30 second minimum intervals, honouring X-Poll-Interval).`,
+      );
+    }
 
-    const service = new StarterService(runtime);
     return service;
   }
 
@@ -242,6 +437,15 @@ export class StarterService extends Service {
   }
 
   override async stop(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.pollTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.pollTimers.clear();
+    if (this.schedulerTimer) {
+      clearTimeout(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
     logger.info("Starter service stopped");
   }
 }
@@ -256,31 +460,100 @@ export const pingPalGitHubPlugin: Plugin = {
   async init(config: Record<string, string>, _runtime: IAgentRuntime) {
     console.log("Initializing PingPal GitHub Plugin....");
 
-    // Validate required configuration
-    const accessToken = process.env.GITHUB_ACCESS_TOKEN;
-    const targetUsername = process.env.PINGPAL_TARGET_GITHUB_USERNAME;
-    const targetTelegramUserId = process.env.PINGPAL_TARGET_TELEGRAM_USERID;
+    // Validate required configuration (PINGPAL_SUBSCRIBERS or the single-user variables)
+    const subscribers = loadSubscribers();
 
-    if (!accessToken) {
-      throw new Error("GITHUB_ACCESS_TOKEN environment variable is required");
+    // Fail fast on an invalid rules file instead of on the first poll
+    for (const subscriber of subscribers) {
+      getRuleSetForSubscriber(subscriber);
     }
-    if (!targetUsername) {
+
+    // Likewise for the GitHub host settings (URLs, CA file, proxy) and
+    // GitHub auth, e.g. an unreadable GitHub App private key
+    const githubApiBaseUrl = getGitHubApiBaseUrl();
+    const githubWebBaseUrl = getGitHubWebBaseUrl();
+    getGitHubDispatcher();
+    for (const subscriber of subscribers) {
+      getGitHubAuthProvider(_runtime, subscriber);
+    }
+
+    if (
+      !getSmtpSettings() &&
+      subscribers.some((subscriber) =>
+        subscriber.channels?.some((channel) => channel.type === "email"),
+      )
+    ) {
       throw new Error(
-        "PINGPAL_TARGET_GITHUB_USERNAME environment variable is required",
+        "PINGPAL_SMTP_HOST environment variable is required for email channels",
       );
     }
-    if (!targetTelegramUserId) {
+
+    if (
+      process.env.PINGPAL_QUIET_HOURS &&
+      !parseTimeWindow(process.env.PINGPAL_QUIET_HOURS)
+    ) {
       throw new Error(
-        "PINGPAL_TARGET_TELEGRAM_USERID environment variable is required",
+        `PINGPAL_QUIET_HOURS must be HH:MM-HH:MM, got '${process.env.PINGPAL_QUIET_HOURS}'`,
+      );
+    }
+
+    if (
+      process.env.PINGPAL_ESCALATION_AFTER &&
+      parseDuration(process.env.PINGPAL_ESCALATION_AFTER) === null
+    ) {
+      throw new Error(
+        `PINGPAL_ESCALATION_AFTER must be a duration such as 30m, got '${process.env.PINGPAL_ESCALATION_AFTER}'`,
+      );
+    }
+    const invalidReminder = (process.env.PINGPAL_REVIEW_REMINDERS ?? "")
+      .split(",")
+      .map((age) => age.trim())
+      .find(
+        (age) =>
+          age && age.toLowerCase() !== "off" && parseDuration(age) === null,
+      );
+    if (invalidReminder) {
+      throw new Error(
+        `PINGPAL_REVIEW_REMINDERS must list durations such as 4h,24h,3d, got '${invalidReminder}'`,
+      );
+    }
+
+    const ingestionMode = getIngestionMode();
+    if (ingestionMode !== "polling" && !process.env.GITHUB_WEBHOOK_SECRET) {
+      throw new Error(
+        `GITHUB_WEBHOOK_SECRET environment variable is required when PINGPAL_INGESTION_MODE is '${ingestionMode}'`,
       );
     }
 
     console.log(
-      `[PingPal GitHub] Configured to monitor GitHub notifications for user: ${targetUsername}`,
-    );
-    console.log(
-      `[PingPal GitHub] Will send alerts to Telegram user: ${targetTelegramUserId}`,
+      `[PingPal GitHub] Ingestion mode: ${ingestionMode}. Monitoring ${subscribers.length} subscriber(s).`,
     );
+    if (ingestionMode !== "polling") {
+      logger.warn(
+        "[PingPal GitHub] Webhook deliveries are only accepted when the ElizaOS server runs with githubWebhookRawBody in its middlewares; otherwise they are answered 500 (see README).",
+      );
+    }
+    if (process.env.PINGPAL_API_TOKEN) {
+      console.log("[PingPal GitHub] HTTP API enabled under /api/pingpal");
+    }
+    if (githubApiBaseUrl !== "https://api.github.com") {
+      console.log(
+        `[PingPal GitHub] GitHub API: ${githubApiBaseUrl}, web: ${githubWebBaseUrl}`,
+      );
+    }
+    for (const subscriber of subscribers) {
+      console.log(
+        `[PingPal GitHub] Subscriber '${subscriber.id}': GitHub user ${subscriber.githubUsername} (${getGitHubAuthConfig(subscriber).type}) -> ${(
+          subscriber.channels ?? [{ type: "telegram" }]
+        )
+          .map((channel) =>
+            channel.type === "telegram"
+              ? `Telegram chat ${subscriber.telegramChatId}`
+              : channel.type,
+          )
+          .join(", ")}`,
+      );
+    }
 
     try {
       const validatedConfig = await configSchema.parseAsync(config);
@@ -311,11 +584,14 @@ export const pingPalGitHubPlugin: Plugin = {
       handler: async (_req: any, res: any) => {
         res.json({
           status: "ok",
-          plugin: "quick-starter",
+          plugin: "pingpal-github",
           timestamp: new Date().toISOString(),
         });
       },
     },
+    githubWebhookRoute,
+    ...pingPalApiRoutes,
+    metricsRoute,
   ],
   events: {
     [EventType.MESSAGE_RECEIVED]: [
@@ -347,7 +623,7 @@ export const pingPalGitHubPlugin: Plugin = {
   actions: [
     pollGitHubNotificationsAction,
     analyzeGitHubNotificationAction,
-    sendTelegramNotificationAction,
+    sendNotificationAction,
   ],
   providers: [helloWorldProvider],
   dependencies: ['@elizaos/plugin-telegram'], // Required for sending Telegram notifications
@@ -0,0 +1,81 @@
+export const PRIORITIES = ["critical", "high", "normal", "low"] as const;
+export const CATEGORIES = [
+  "review_needed",
+  "blocker",
+  "question",
+  "fyi",
+  "ci_failure",
+] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+export type Category = (typeof CATEGORIES)[number];
+
+/**
+ * A classification made without the LLM, in the shape the LLM returns.
+ */
+export interface HeuristicAnalysis {
+  priority: Priority;
+  category: Category | null;
+  reason: string;
+  suggestedAction: string | null;
+  deadline: string | null;
+}
+
+/**
+ * Where an alert goes: sent right away, collected for the digest, or only
+ * recorded in the processed log.
+ */
+export type DeliveryRoute = "immediate" | "digest" | "log";
+
+export const CATEGORY_LABELS: Record<Category, string> = {
+  review_needed: "Review needed",
+  blocker: "Blocker",
+  question: "Question for me",
+  fyi: "FYI",
+  ci_failure: "CI failure",
+};
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  critical: "🚨 Critical",
+  high: "🔴 High",
+  normal: "🟡 Normal",
+  low: "⚪ Low",
+};
+
+export function isPriority(value: unknown): value is Priority {
+  return PRIORITIES.includes(value as Priority);
+}
+
+export function isCategory(value: unknown): value is Category {
+  return CATEGORIES.includes(value as Category);
+}
+
+/**
+ * Critical and high alerts are sent immediately, normal ones wait for the
+ * digest and low ones are only logged.
+ */
+export function getDeliveryRoute(priority: Priority): DeliveryRoute {
+  switch (priority) {
+    case "critical":
+    case "high":
+      return "immediate";
+    case "normal":
+      return "digest";
+    case "low":
+      return "log";
+  }
+}
+
+/**
+ * Only critical alerts make a sound; high alerts arrive silently.
+ */
+export function isSilentPriority(priority: Priority): boolean {
+  return priority !== "critical";
+}
+
+/**
+ * True when `priority` is more urgent than `than`.
+ */
+export function isHigherPriority(priority: Priority, than: Priority): boolean {
+  return PRIORITIES.indexOf(priority) < PRIORITIES.indexOf(than);
+}
@@ -0,0 +1,608 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IAgentRuntime, Memory, Route } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { GitHubNotification } from "../services/githubService";
+import { getInternalRoomIdForAgent } from "../utils/internalRoom";
+import { isSameUser, mentions } from "../utils/mentions";
+import { loadSubscribers, type Subscriber } from "../subscribers";
+
+export type IngestionMode = "polling" | "webhook" | "both";
+
+const DELIVERY_CACHE_KEY = "pingpal_github_webhook_deliveries";
+const MAX_REMEMBERED_DELIVERIES = 500;
+// Outside /api: with ELIZA_SERVER_AUTH_TOKEN set, the server requires an
+// X-API-KEY header there, which GitHub can't send
+const WEBHOOK_PATH = "/github/webhook";
+// GitHub caps webhook payloads at 25 MB
+const MAX_WEBHOOK_BODY_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Reads PINGPAL_INGESTION_MODE. "webhook" turns polling off entirely,
+ * "both" keeps polling as a safety net for missed deliveries.
+ */
+export function getIngestionMode(): IngestionMode {
+  const mode = process.env.PINGPAL_INGESTION_MODE?.toLowerCase();
+  if (mode === "webhook" || mode === "both") {
+    return mode;
+  }
+  return "polling";
+}
+
+/**
+ * Checks `X-Hub-Signature-256` (HMAC-SHA256 of the raw body) against the
+ * configured webhook secret.
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Buffer,
+  signatureHeader: string | undefined,
+  secret: string,
+): boolean {
+  if (!signatureHeader?.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`,
+  );
+  const received = Buffer.from(signatureHeader);
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Express middleware that keeps the exact bytes of webhook deliveries as
+ * `req.rawBody`, which the signature is computed over, and parses `req.body`
+ * from them. The ElizaOS server parses JSON before plugin routes run and
+ * keeps no raw body, so this has to be passed in the server's `middlewares`
+ * option, which runs before its own parser. It also lifts the server's 2 MB
+ * body limit for deliveries.
+ */
+export function githubWebhookRawBody(
+  req: any,
+  res: any,
+  next: (error?: unknown) => void,
+): void {
+  if (req.method !== "POST" || req.path !== WEBHOOK_PATH) {
+    next();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let tooLarge = false;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_WEBHOOK_BODY_BYTES) {
+      if (!tooLarge) {
+        tooLarge = true;
+        res.status(413).json({ error: "Payload too large" });
+        req.destroy();
+      }
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => {
+    if (tooLarge) {
+      return;
+    }
+    req.rawBody = Buffer.concat(chunks);
+    try {
+      req.body = JSON.parse(req.rawBody.toString("utf8"));
+    } catch {
+      // Answered by the route, after the signature check
+      req.body = undefined;
+    }
+    next();
+  });
+  req.on("error", (error: unknown) => {
+    if (!tooLarge) {
+      next(error);
+    }
+  });
+}
+
+function toRepository(payload: any): GitHubNotification["repository"] {
+  return {
+    id: payload.repository.id,
+    name: payload.repository.name,
+    full_name: payload.repository.full_name,
+    html_url: payload.repository.html_url,
+  };
+}
+
+/**
+ * Converts a webhook event into the notification shape that
+ * ANALYZE_GITHUB_NOTIFICATION consumes. Webhooks have no thread id, so one is
+ * derived from the repository and issue/PR number, which keeps thread-level
+ * deduplication working across events. Returns null for events that are not
+ * addressed to `targetUsername`.
+ */
+export function normalizeWebhookEvent(
+  event: string,
+  payload: any,
+  targetUsername: string,
+): GitHubNotification | null {
+  if (!payload?.repository) {
+    return null;
+  }
+
+  const base = {
+    repository: toRepository(payload),
+    last_read_at: null,
+    unread: true,
+  };
+
+  switch (event) {
+    case "issue_comment": {
+      if (payload.action !== "created" && payload.action !== "edited") {
+        return null;
+      }
+      const { issue, comment } = payload;
+      if (isSameUser(comment.user?.login, targetUsername)) {
+        return null;
+      }
+
+      let reason: string | null = null;
+      if (mentions(comment.body, targetUsername)) {
+        reason = "mention";
+      } else if (isSameUser(issue.user?.login, targetUsername)) {
+        reason = "author";
+      } else if (
+        issue.assignees?.some((assignee: any) =>
+          isSameUser(assignee.login, targetUsername),
+        )
+      ) {
+        reason = "assign";
+      }
+      if (!reason) {
+        return null;
+      }
+
+      const subjectUrl = issue.pull_request?.url ?? issue.url;
+      return {
+        ...base,
+        id: `webhook-${payload.repository.id}-${issue.number}`,
+        url: subjectUrl,
+        subject: {
+          title: issue.title,
+          url: subjectUrl,
+          latest_comment_url: comment.url,
+          type: issue.pull_request ? "PullRequest" : "Issue",
+        },
+        reason,
+        updated_at: comment.updated_at ?? comment.created_at,
+      };
+    }
+
+    case "pull_request_review": {
+      if (payload.action !== "submitted") {
+        return null;
+      }
+      const { pull_request: pr, review } = payload;
+      if (isSameUser(review.user?.login, targetUsername)) {
+        return null;
+      }
+
+      let reason: string | null = null;
+      if (mentions(review.body, targetUsername)) {
+        reason = "mention";
+      } else if (isSameUser(pr.user?.login, targetUsername)) {
+        reason = "author";
+      }
+      if (!reason) {
+        return null;
+      }
+
+      return {
+        ...base,
+        id: `webhook-${payload.repository.id}-${pr.number}`,
+        url: pr.url,
+        subject: {
+          title: pr.title,
+          url: pr.url,
+          latest_comment_url: `${pr.url}/reviews/${review.id}`,
+          type: "PullRequest",
+        },
+        reason,
+        updated_at: review.submitted_at ?? pr.updated_at,
+      };
+    }
+
+    case "pull_request": {
+      const { pull_request: pr } = payload;
+      let reason: string | null = null;
+      if (
+        payload.action === "review_requested" &&
+        isSameUser(payload.requested_reviewer?.login, targetUsername)
+      ) {
+        reason = "review_requested";
+      } else if (
+        payload.action === "assigned" &&
+        isSameUser(payload.assignee?.login, targetUsername)
+      ) {
+        reason = "assign";
+      }
+      if (!reason) {
+        return null;
+      }
+
+      return {
+        ...base,
+        id: `webhook-${payload.repository.id}-${pr.number}`,
+        url: pr.url,
+        subject: {
+          title: pr.title,
+          url: pr.url,
+          latest_comment_url: null,
+          type: "PullRequest",
+        },
+        reason,
+        updated_at: pr.updated_at,
+      };
+    }
+
+    case "issues": {
+      const { issue } = payload;
+      let reason: string | null = null;
+      if (
+        payload.action === "assigned" &&
+        isSameUser(payload.assignee?.login, targetUsername)
+      ) {
+        reason = "assign";
+      } else if (
+        payload.action === "opened" &&
+        !isSameUser(issue.user?.login, targetUsername) &&
+        mentions(issue.body, targetUsername)
+      ) {
+        reason = "mention";
+      }
+      if (!reason) {
+        return null;
+      }
+
+      return {
+        ...base,
+        id: `webhook-${payload.repository.id}-${issue.number}`,
+        url: issue.url,
+        subject: {
+          title: issue.title,
+          url: issue.url,
+          latest_comment_url: null,
+          type: "Issue",
+        },
+        reason,
+        updated_at: issue.updated_at,
+      };
+    }
+
+    case "check_suite": {
+      const suite = payload.check_suite;
+      // Like GitHub's own ci_activity notifications, only runs the user triggered
+      if (
+        payload.action !== "completed" ||
+        !["failure", "timed_out", "action_required"].includes(
+          suite.conclusion,
+        ) ||
+        !isSameUser(payload.sender?.login, targetUsername)
+      ) {
+        return null;
+      }
+
+      const pr = suite.pull_requests?.[0];
+      return {
+        ...base,
+        id: `webhook-${payload.repository.id}-check-suite-${suite.id}`,
+        url: suite.url,
+        subject: {
+          title: `${suite.app?.name ?? "CI"} ${suite.conclusion} on ${
+            pr ? `#${pr.number}` : suite.head_branch
+          }`,
+          url: pr?.url ?? null,
+          latest_comment_url: null,
+          type: "CheckSuite",
+        },
+        reason: "ci_activity",
+        updated_at: suite.updated_at,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Deliveries being analyzed right now, so a redelivery arriving meanwhile
+// isn't analyzed twice
+const deliveriesInProgress = new Set<string>();
+
+// Serializes read-modify-write of the remembered deliveries within this process
+let deliveryUpdates: Promise<unknown> = Promise.resolve();
+
+/**
+ * Whether the delivery was handled before or is being handled. GitHub
+ * redelivers on timeouts and from the "Redeliver" button.
+ */
+async function isDuplicateDelivery(
+  runtime: IAgentRuntime,
+  deliveryId: string,
+): Promise<boolean> {
+  if (deliveriesInProgress.has(deliveryId)) {
+    return true;
+  }
+  const deliveries =
+    (await runtime.getCache<string[]>(DELIVERY_CACHE_KEY)) ?? [];
+  return deliveries.includes(deliveryId);
+}
+
+/**
+ * Remembers a delivery once it was analyzed, so that a redelivery of one
+ * whose analysis failed is analyzed again.
+ */
+function rememberDelivery(
+  runtime: IAgentRuntime,
+  deliveryId: string,
+): Promise<void> {
+  const run = deliveryUpdates.then(async () => {
+    const deliveries =
+      (await runtime.getCache<string[]>(DELIVERY_CACHE_KEY)) ?? [];
+    if (!deliveries.includes(deliveryId)) {
+      await runtime.setCache<string[]>(
+        DELIVERY_CACHE_KEY,
+        [...deliveries, deliveryId].slice(-MAX_REMEMBERED_DELIVERIES),
+      );
+    }
+  });
+  deliveryUpdates = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Analyzes each subscriber's notification of a delivery. Returns whether
+ * all analyses went through.
+ */
+async function analyzeWebhookNotifications(
+  runtime: IAgentRuntime,
+  deliveryId: string | undefined,
+  event: string,
+  matches: { subscriber: Subscriber; notification: GitHubNotification }[],
+): Promise<boolean> {
+  const analyzeAction = runtime.actions?.find(
+    (action) => action.name === "ANALYZE_GITHUB_NOTIFICATION",
+  );
+
+  if (!analyzeAction) {
+    logger.warn(
+      "[PingPal GitHub] ANALYZE_GITHUB_NOTIFICATION action not found",
+    );
+    return false;
+  }
+
+  let analyzed = true;
+  for (const { subscriber, notification } of matches) {
+    logger.info(
+      {
+        deliveryId,
+        event,
+        subscriberId: subscriber.id,
+        id: notification.id,
+        reason: notification.reason,
+        repository: notification.repository.full_name,
+      },
+      "[PingPal GitHub] Received relevant webhook event",
+    );
+
+    const analysisMemory: Memory = {
+      id: crypto.randomUUID(),
+      entityId: runtime.agentId,
+      roomId: getInternalRoomIdForAgent(runtime.agentId),
+      agentId: runtime.agentId,
+      content: {
+        text: "Analyze GitHub notification",
+        githubNotification: notification,
+        subscriberId: subscriber.id,
+      },
+      createdAt: Date.now(),
+    };
+
+    try {
+      if (await analyzeAction.validate(runtime, analysisMemory)) {
+        const result = await analyzeAction.handler(runtime, analysisMemory);
+        if (result && result.success === false) {
+          analyzed = false;
+        }
+      }
+    } catch (error) {
+      analyzed = false;
+      logger.error(
+        {
+          error:
+            error instanceof Error
+              ? {
+                  name: error.name,
+                  message: error.message,
+                  stack: error.stack,
+                }
+              : String(error),
+          deliveryId,
+          subscriberId: subscriber.id,
+          notificationId: notification.id,
+        },
+        "[PingPal GitHub] Failed to analyze webhook notification",
+      );
+    }
+  }
+  return analyzed;
+}
+
+/**
+ * The server doesn't await plugin route handlers, so errors are answered
+ * (or, after the early 202, logged) here.
+ */
+function withErrorHandling(
+  handler: NonNullable<Route["handler"]>,
+): NonNullable<Route["handler"]> {
+  return async (req: any, res: any, runtime: IAgentRuntime) => {
+    try {
+      await handler(req, res, runtime);
+    } catch (error) {
+      logger.error(
+        { error, deliveryId: req.headers?.["x-github-delivery"] },
+        "[PingPal GitHub] Failed to handle webhook delivery",
+      );
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal error" });
+      }
+    }
+  };
+}
+
+export const githubWebhookRoute: Route = {
+  name: "github-webhook",
+  path: WEBHOOK_PATH,
+  type: "POST",
+  handler: withErrorHandling(async (req, res, runtime) => {
+    if (getIngestionMode() === "polling") {
+      res.status(404).json({ error: "Webhook ingestion is disabled" });
+      return;
+    }
+
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      logger.error("[PingPal GitHub] GITHUB_WEBHOOK_SECRET not configured");
+      res.status(500).json({ error: "Webhook secret not configured" });
+      return;
+    }
+
+    // Signatures are over the exact bytes GitHub sent. Re-serialized JSON
+    // doesn't always reproduce them, so without the raw body nothing is accepted.
+    const rawBody: Buffer | undefined = Buffer.isBuffer(req.rawBody)
+      ? req.rawBody
+      : Buffer.isBuffer(req.body)
+        ? req.body
+        : undefined;
+    if (!rawBody) {
+      logger.error(
+        "[PingPal GitHub] Webhook raw body unavailable, so the signature can't be verified. Add githubWebhookRawBody to the ElizaOS server's middlewares (see README).",
+      );
+      res.status(500).json({
+        error: "Raw request body unavailable; cannot verify the signature",
+      });
+      return;
+    }
+
+    if (
+      !verifyWebhookSignature(
+        rawBody,
+        req.headers["x-hub-signature-256"],
+        secret,
+      )
+    ) {
+      logger.warn("[PingPal GitHub] Rejected webhook with invalid signature");
+      res.status(401).json({ error: "Invalid signature" });
+      return;
+    }
+
+    const event = req.headers["x-github-event"] as string | undefined;
+    const deliveryId = req.headers["x-github-delivery"] as string | undefined;
+
+    if (event === "ping") {
+      res.json({ status: "ok", event });
+      return;
+    }
+
+    if (deliveryId && (await isDuplicateDelivery(runtime, deliveryId))) {
+      logger.info(
+        { deliveryId, event },
+        "[PingPal GitHub] Duplicate webhook delivery. Skipping.",
+      );
+      res.json({ status: "duplicate", deliveryId });
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString());
+    } catch {
+      res.status(400).json({
+        error: "Expected a JSON payload (content type application/json)",
+      });
+      return;
+    }
+
+    let subscribers: Subscriber[];
+    try {
+      subscribers = loadSubscribers();
+    } catch (error) {
+      logger.error(
+        { error },
+        "[PingPal GitHub] Cannot route webhook: subscribers misconfigured",
+      );
+      res.status(500).json({ error: "Subscribers not configured" });
+      return;
+    }
+
+    // One delivery can concern several subscribers (e.g. author and reviewer)
+    const matches = event
+      ? subscribers
+          .map((subscriber) => ({
+            subscriber,
+            notification: normalizeWebhookEvent(
+              event,
+              payload,
+              subscriber.githubUsername,
+            ),
+          }))
+          .filter(
+            (
+              match,
+            ): match is {
+              subscriber: Subscriber;
+              notification: GitHubNotification;
+            } => match.notification !== null,
+          )
+      : [];
+
+    if (matches.length === 0) {
+      logger.debug(
+        { deliveryId, event, action: payload?.action },
+        "[PingPal GitHub] Webhook event not relevant. Ignoring.",
+      );
+      res.json({ status: "ignored", deliveryId });
+      return;
+    }
+
+    // Acknowledge right away: GitHub times out deliveries after 10 seconds
+    res.status(202).json({
+      status: "accepted",
+      deliveryId,
+      subscribers: matches.length,
+    });
+
+    if (deliveryId) {
+      deliveriesInProgress.add(deliveryId);
+    }
+    try {
+      const analyzed = await analyzeWebhookNotifications(
+        runtime,
+        deliveryId,
+        event!,
+        matches,
+      );
+      if (deliveryId && analyzed) {
+        await rememberDelivery(runtime, deliveryId);
+      } else if (deliveryId) {
+        logger.warn(
+          { deliveryId, event },
+          "[PingPal GitHub] Webhook delivery not fully analyzed; a redelivery will be analyzed again",
+        );
+      }
+    } finally {
+      if (deliveryId) {
+        deliveriesInProgress.delete(deliveryId);
+      }
+    }
+  }),
+};
@@ -0,0 +1,70 @@
+import type { IAgentRuntime, Route } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { metrics, renderMetrics } from "../services/metrics";
+import { getDeadLetters, getOutboxEntries } from "../services/outbox";
+import { loadSubscribers } from "../subscribers";
+import { createGitHubService } from "../auth";
+import { isApiTokenValid } from "./pingpalApi";
+
+/**
+ * Sets the gauges from current state: the rate limit each subscriber's
+ * credentials saw last, and the outbox and dead-letter sizes.
+ */
+async function collectGauges(runtime: IAgentRuntime): Promise<void> {
+  metrics.rateLimitRemaining.reset();
+  for (const subscriber of loadSubscribers()) {
+    try {
+      const rateLimit = createGitHubService(
+        runtime,
+        subscriber,
+      ).getTrackedRateLimit();
+      if (rateLimit) {
+        metrics.rateLimitRemaining.set(
+          { subscriber: subscriber.id },
+          rateLimit.remaining,
+        );
+      }
+    } catch (error) {
+      logger.debug(
+        { error, subscriberId: subscriber.id },
+        "[PingPal GitHub] No GitHub credentials for the rate limit metric",
+      );
+    }
+  }
+
+  const [outboxEntries, deadLetters] = await Promise.all([
+    getOutboxEntries(runtime),
+    getDeadLetters(runtime),
+  ]);
+  metrics.outboxDepth.set({}, outboxEntries.length);
+  metrics.deadLetters.set({}, deadLetters.length);
+}
+
+/**
+ * Prometheus scrape endpoint. Open unless PINGPAL_API_TOKEN is set; then it
+ * takes the same bearer token as the PingPal API.
+ */
+export const metricsRoute: Route = {
+  name: "pingpal-metrics",
+  path: "/metrics",
+  type: "GET",
+  handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+    const token = process.env.PINGPAL_API_TOKEN;
+    if (token && !isApiTokenValid(req.headers?.authorization, token)) {
+      res.status(401).json({ error: "Invalid or missing API token" });
+      return;
+    }
+
+    try {
+      await collectGauges(runtime);
+    } catch (error) {
+      // Counters and histograms are still worth serving
+      logger.warn(
+        { error },
+        "[PingPal GitHub] Failed to collect gauges for /metrics",
+      );
+    }
+    res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    res.status(200).send(renderMetrics());
+  },
+};
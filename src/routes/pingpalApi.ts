@@ -0,0 +1,493 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IAgentRuntime, Memory, Route } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import type { GitHubNotification } from "../services/githubService";
+import {
+  findProcessedRecord,
+  getProcessedRecords,
+  getRecordSubscriberId,
+  PROCESSED_SCAN_COUNT,
+  scanProcessedRecords,
+} from "../services/processedRecords";
+import { getCircuitState } from "../services/githubCircuit";
+import { getDeadLetters, getOutboxEntries } from "../services/outbox";
+import { getLlmDailyUsage } from "../services/llmUsage";
+import { getLastPolledAt } from "../actions/pollGitHubNotifications";
+import { getIngestionMode } from "./githubWebhook";
+import {
+  getSubscriberTimeZone,
+  loadSubscribers,
+  type Subscriber,
+} from "../subscribers";
+import { createGitHubService, getGitHubAuthProvider } from "../auth";
+import { isPriority } from "../priority";
+import { getInternalRoomIdForAgent } from "../utils/internalRoom";
+import { addDays, getZonedParts, toDateKey } from "../utils/time";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_STATS_DAYS = 7;
+const MAX_STATS_DAYS = 90;
+// Dead letters listed in the stats; the count covers the rest
+const MAX_LISTED_DEAD_LETTERS = 10;
+
+type RouteHandler = NonNullable<Route["handler"]>;
+
+/**
+ * Checks an `Authorization: Bearer <token>` header against the API token in
+ * constant time.
+ */
+export function isApiTokenValid(
+  authorizationHeader: string | undefined,
+  token: string,
+): boolean {
+  const match = authorizationHeader?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  // Hashing first makes the lengths equal, as timingSafeEqual requires
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Wraps an API handler with the PINGPAL_API_TOKEN check. The API is off
+ * while no token is configured. The server doesn't await plugin route
+ * handlers, so errors are answered here.
+ */
+function withApiToken(handler: RouteHandler): RouteHandler {
+  return async (req: any, res: any, runtime: IAgentRuntime) => {
+    const token = process.env.PINGPAL_API_TOKEN;
+    if (!token) {
+      res.status(404).json({ error: "PingPal API is disabled" });
+      return;
+    }
+    if (!isApiTokenValid(req.headers?.authorization, token)) {
+      res.status(401).json({ error: "Invalid or missing API token" });
+      return;
+    }
+
+    try {
+      await handler(req, res, runtime);
+    } catch (error) {
+      logger.error(
+        { error, path: req.path },
+        "[PingPal GitHub] PingPal API request failed",
+      );
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal error" });
+      }
+    }
+  };
+}
+
+/**
+ * Subscribers the request is about: the one named by the `subscriber` query
+ * parameter, or all of them. Answers 404 and returns null for an unknown id.
+ */
+function getRequestedSubscribers(req: any, res: any): Subscriber[] | null {
+  const subscribers = loadSubscribers();
+  const subscriberId = req.query?.subscriber as string | undefined;
+  if (!subscriberId) {
+    return subscribers;
+  }
+  const subscriber = subscribers.find(
+    (candidate) => candidate.id === subscriberId,
+  );
+  if (!subscriber) {
+    res.status(404).json({ error: `Unknown subscriber '${subscriberId}'` });
+    return null;
+  }
+  return [subscriber];
+}
+
+/**
+ * A positive integer query parameter up to `max`, or `fallback` when it is
+ * missing. Null when it is malformed.
+ */
+function getIntegerParam(
+  value: unknown,
+  fallback: number,
+  max: number,
+): number | null {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? Math.min(number, max) : null;
+}
+
+function toIsoString(epochMs: number | null | undefined): string | null {
+  return epochMs ? new Date(epochMs).toISOString() : null;
+}
+
+function toApiNotification(memory: Memory): Record<string, unknown> {
+  const metadata = memory.metadata as Record<string, any>;
+  const source = metadata.sourceContext ?? {};
+  return {
+    id: memory.id,
+    subscriberId: getRecordSubscriberId(memory),
+    threadId: metadata.githubNotificationId,
+    repository: source.repository ?? null,
+    reason: source.notificationType ?? null,
+    subjectType: source.subjectType ?? null,
+    title: source.subjectTitle ?? null,
+    updatedAt: metadata.githubUpdatedAt ?? null,
+    processedAt: toIsoString(memory.createdAt),
+    priority: metadata.priority ?? null,
+    category: metadata.category ?? null,
+    analysis: metadata.analysisResult ?? null,
+    suggestedAction: metadata.suggestedAction ?? null,
+    deadline: metadata.deadline ?? null,
+    decidedBy: metadata.decidedBy ?? null,
+    webUrl: metadata.webUrl ?? null,
+    notified: metadata.notifiedViaTelegram === true,
+    notifiedAt: toIsoString(metadata.notifiedAt),
+    deliveredVia: metadata.deliveredVia ?? [],
+    feedback: metadata.feedback?.rating ?? null,
+  };
+}
+
+/**
+ * Last successful poll, last GitHub error, rate limit and circuit state per
+ * subscriber. The rate limit is the one seen on the latest response; no
+ * GitHub call is made.
+ */
+const healthRoute: Route = {
+  name: "pingpal-api-health",
+  path: "/api/pingpal/health",
+  type: "GET",
+  handler: withApiToken(async (req, res, runtime) => {
+    const subscribers = getRequestedSubscribers(req, res);
+    if (!subscribers) {
+      return;
+    }
+
+    const entries = await Promise.all(
+      subscribers.map(async (subscriber) => {
+        const [lastPolledAt, circuit] = await Promise.all([
+          getLastPolledAt(runtime, subscriber.id),
+          getCircuitState(runtime, subscriber),
+        ]);
+        const rateLimit = createGitHubService(
+          runtime,
+          subscriber,
+        ).getTrackedRateLimit();
+        const openUntil =
+          circuit?.openUntil && circuit.openUntil > Date.now()
+            ? circuit.openUntil
+            : null;
+        return {
+          id: subscriber.id,
+          githubUsername: subscriber.githubUsername,
+          lastPolledAt: toIsoString(lastPolledAt),
+          lastError: circuit?.lastError ?? null,
+          consecutiveFailures: circuit?.consecutiveFailures ?? 0,
+          circuit: {
+            state: openUntil ? "open" : "closed",
+            openUntil: toIsoString(openUntil),
+          },
+          rateLimit: rateLimit && {
+            limit: rateLimit.limit,
+            remaining: rateLimit.remaining,
+            resetAt: toIsoString(rateLimit.resetAt),
+          },
+        };
+      }),
+    );
+
+    res.json({
+      status: entries.some((entry) => entry.circuit.state === "open")
+        ? "degraded"
+        : "ok",
+      ingestionMode: getIngestionMode(),
+      subscribers: entries,
+      timestamp: new Date().toISOString(),
+    });
+  }),
+};
+
+/**
+ * Processed notifications, newest first, filtered by `repo`, `reason` and
+ * `priority` and paginated with `page` and `per_page`. Only the latest
+ * PROCESSED_SCAN_COUNT records are searched; `truncated` says so when there
+ * are more.
+ */
+const notificationsRoute: Route = {
+  name: "pingpal-api-notifications",
+  path: "/api/pingpal/notifications",
+  type: "GET",
+  handler: withApiToken(async (req, res, runtime) => {
+    const subscribers = getRequestedSubscribers(req, res);
+    if (!subscribers) {
+      return;
+    }
+    const page = getIntegerParam(req.query?.page, 1, Number.MAX_SAFE_INTEGER);
+    const perPage = getIntegerParam(
+      req.query?.per_page,
+      DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE,
+    );
+    if (page === null || perPage === null) {
+      res
+        .status(400)
+        .json({ error: "page and per_page must be positive integers" });
+      return;
+    }
+    const { repo, reason, priority } = (req.query ?? {}) as Record<
+      string,
+      string | undefined
+    >;
+    if (priority && !isPriority(priority)) {
+      res.status(400).json({ error: `Unknown priority '${priority}'` });
+      return;
+    }
+
+    const subscriberIds = new Set(
+      subscribers.map((subscriber) => subscriber.id),
+    );
+    const scan = await scanProcessedRecords(runtime);
+    const records = scan.records.filter((memory) => {
+      const metadata = memory.metadata as Record<string, any>;
+      const source = metadata.sourceContext ?? {};
+      return (
+        subscriberIds.has(getRecordSubscriberId(memory)) &&
+        (!repo ||
+          String(source.repository).toLowerCase() === repo.toLowerCase()) &&
+        (!reason || source.notificationType === reason) &&
+        (!priority || metadata.priority === priority)
+      );
+    });
+
+    res.json({
+      page,
+      perPage,
+      total: records.length,
+      scanLimit: PROCESSED_SCAN_COUNT,
+      truncated: scan.truncated,
+      items: records
+        .slice((page - 1) * perPage, page * perPage)
+        .map(toApiNotification),
+    });
+  }),
+};
+
+/**
+ * Alerts per day, how notifications were decided (LLM, cache, rules,
+ * heuristics, CI) and delivery failures per subscriber over the last
+ * `days` days, plus today's LLM usage.
+ */
+const statsRoute: Route = {
+  name: "pingpal-api-stats",
+  path: "/api/pingpal/stats",
+  type: "GET",
+  handler: withApiToken(async (req, res, runtime) => {
+    const subscribers = getRequestedSubscribers(req, res);
+    if (!subscribers) {
+      return;
+    }
+    const days = getIntegerParam(
+      req.query?.days,
+      DEFAULT_STATS_DAYS,
+      MAX_STATS_DAYS,
+    );
+    if (days === null) {
+      res.status(400).json({ error: "days must be a positive integer" });
+      return;
+    }
+
+    const entries = await Promise.all(
+      subscribers.map(async (subscriber) => {
+        const timeZone = getSubscriberTimeZone(subscriber);
+        const [scan, retrying, deadLetters] = await Promise.all([
+          scanProcessedRecords(runtime, subscriber.id),
+          getOutboxEntries(runtime, subscriber.id),
+          getDeadLetters(runtime, subscriber.id),
+        ]);
+
+        // Days in the subscriber's timezone, oldest first
+        const today = getZonedParts(new Date(), timeZone);
+        const alertsPerDay = new Map<string, number>();
+        for (let offset = days - 1; offset >= 0; offset--) {
+          const day = addDays(today.year, today.month, today.day, -offset);
+          alertsPerDay.set(toDateKey(day.year, day.month, day.day), 0);
+        }
+        const getDateKey = (epochMs: number) => {
+          const parts = getZonedParts(new Date(epochMs), timeZone);
+          return toDateKey(parts.year, parts.month, parts.day);
+        };
+
+        const decisions: Record<string, number> = {};
+        let processed = 0;
+        for (const memory of scan.records) {
+          const metadata = memory.metadata as Record<string, any>;
+          if (metadata.notifiedViaTelegram === true) {
+            const key = getDateKey(metadata.notifiedAt ?? memory.createdAt);
+            if (alertsPerDay.has(key)) {
+              alertsPerDay.set(key, alertsPerDay.get(key)! + 1);
+            }
+          }
+          if (!alertsPerDay.has(getDateKey(memory.createdAt ?? 0))) {
+            continue;
+          }
+          processed++;
+          // Rules are counted together; /why names the rule for a thread
+          const decidedBy: string = metadata.decidedBy ?? "unknown";
+          const kind = decidedBy.startsWith("rule:") ? "rule" : decidedBy;
+          decisions[kind] = (decisions[kind] ?? 0) + 1;
+        }
+
+        return {
+          id: subscriber.id,
+          timeZone,
+          processed,
+          // Counts leave out records older than the latest PROCESSED_SCAN_COUNT
+          truncated: scan.truncated,
+          alerts: [...alertsPerDay.values()].reduce((a, b) => a + b, 0),
+          alertsPerDay: [...alertsPerDay].map(([date, alerts]) => ({
+            date,
+            alerts,
+          })),
+          decisions,
+          deliveryFailures: {
+            retrying: retrying.length,
+            failed: deadLetters.length,
+            recent: deadLetters
+              .sort((a, b) => b.failedAt - a.failedAt)
+              .slice(0, MAX_LISTED_DEAD_LETTERS)
+              .map((deadLetter) => ({
+                alertId: deadLetter.alert.alertId,
+                threadId: deadLetter.alert.notification.id,
+                repository: deadLetter.alert.notification.repository.full_name,
+                title: deadLetter.alert.notification.subject.title,
+                channels: deadLetter.pendingChannels,
+                attempts: deadLetter.attempts,
+                error: deadLetter.lastError,
+                failedAt: toIsoString(deadLetter.failedAt),
+              })),
+          },
+        };
+      }),
+    );
+
+    res.json({
+      days,
+      subscribers: entries,
+      llmToday: await getLlmDailyUsage(runtime),
+    });
+  }),
+};
+
+/**
+ * Analyzes a processed thread again, bypassing deduplication and the
+ * analysis cache. The thread is fetched from GitHub when possible, else the
+ * stored notification is used. The result is routed like any analysis, so
+ * it may alert again.
+ */
+const reprocessRoute: Route = {
+  name: "pingpal-api-reprocess",
+  path: "/api/pingpal/reprocess/:threadId",
+  type: "POST",
+  handler: withApiToken(async (req, res, runtime) => {
+    const subscribers = getRequestedSubscribers(req, res);
+    if (!subscribers) {
+      return;
+    }
+    const threadId = req.params?.threadId as string | undefined;
+    if (!threadId) {
+      res.status(400).json({ error: "Thread id is required" });
+      return;
+    }
+
+    const subscriberIds = new Set(
+      subscribers.map((subscriber) => subscriber.id),
+    );
+    const record = findProcessedRecord(
+      (await getProcessedRecords(runtime)).filter((memory) =>
+        subscriberIds.has(getRecordSubscriberId(memory)),
+      ),
+      threadId,
+    );
+    if (!record) {
+      res
+        .status(404)
+        .json({ error: `No processed notification for thread '${threadId}'` });
+      return;
+    }
+    const subscriber = subscribers.find(
+      (candidate) => candidate.id === getRecordSubscriberId(record),
+    )!;
+    const metadata = record.metadata as Record<string, any>;
+
+    // Webhook threads are not GitHub notification threads
+    let notification: GitHubNotification | null = null;
+    if (
+      !String(metadata.githubNotificationId).startsWith("webhook-") &&
+      getGitHubAuthProvider(runtime, subscriber).canReadNotifications
+    ) {
+      notification = await createGitHubService(
+        runtime,
+        subscriber,
+      ).getNotificationThread(metadata.githubNotificationId);
+    }
+    notification ??= metadata.githubNotification ?? null;
+    if (!notification) {
+      res.status(409).json({
+        error:
+          "The thread's notification was not stored and GitHub could not provide it",
+      });
+      return;
+    }
+
+    const analyzeAction = runtime.actions?.find(
+      (action) => action.name === "ANALYZE_GITHUB_NOTIFICATION",
+    );
+    if (!analyzeAction) {
+      res
+        .status(500)
+        .json({ error: "ANALYZE_GITHUB_NOTIFICATION action not found" });
+      return;
+    }
+
+    const analysisMemory: Memory = {
+      id: crypto.randomUUID(),
+      entityId: runtime.agentId,
+      roomId: getInternalRoomIdForAgent(runtime.agentId),
+      agentId: runtime.agentId,
+      content: {
+        text: "Analyze GitHub notification",
+        githubNotification: notification,
+        subscriberId: subscriber.id,
+        reprocess: true,
+      },
+      createdAt: Date.now(),
+    };
+    logger.info(
+      { subscriberId: subscriber.id, notificationId: notification.id },
+      "[PingPal GitHub] Reprocessing thread on API request",
+    );
+    const result = await analyzeAction.handler(runtime, analysisMemory);
+
+    if (!result || !result.success) {
+      res.status(500).json({
+        error:
+          (result?.error instanceof Error
+            ? result.error.message
+            : result?.error) ?? "Analysis failed",
+      });
+      return;
+    }
+    res.json({
+      threadId: notification.id,
+      subscriberId: subscriber.id,
+      ...result.data,
+    });
+  }),
+};
+
+export const pingPalApiRoutes: Route[] = [
+  healthRoute,
+  notificationsRoute,
+  statsRoute,
+  reprocessRoute,
+];
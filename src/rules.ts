@@ -0,0 +1,237 @@
+import { readFileSync, statSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type {
+  GitHubNotification,
+  GitHubThreadContext,
+} from "./services/githubService";
+import type { Subscriber } from "./subscribers";
+import { PRIORITIES, type Priority } from "./priority";
+
+export const RULE_OUTCOMES = [
+  "always_alert",
+  "never_alert",
+  "ask_llm",
+] as const;
+
+export type RuleOutcome = (typeof RULE_OUTCOMES)[number];
+
+const stringOrList = z
+  .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const ruleSchema = z.object({
+  name: z.string().min(1, "Every rule needs a name"),
+  match: z
+    .object({
+      /** Glob(s) on `owner/repo`; `*` stops at `/`, `**` doesn't. */
+      repo: stringOrList.optional(),
+      org: stringOrList.optional(),
+      reason: stringOrList.optional(),
+      subjectType: stringOrList.optional(),
+      /** Case-insensitive regular expression on the subject title. */
+      title: z
+        .string()
+        .refine((pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        }, "Rule title must be a valid regular expression")
+        .optional(),
+      /** Matches when the thread has any of these labels. */
+      labels: stringOrList.optional(),
+      author: stringOrList.optional(),
+    })
+    .strict()
+    .default({}),
+  outcome: z.enum(RULE_OUTCOMES),
+  priority: z.enum(PRIORITIES).optional(),
+});
+
+const ruleSetSchema = z.object({
+  rules: z.array(ruleSchema).default([]),
+  /** Outcome when no rule matches. */
+  defaultOutcome: z.enum(RULE_OUTCOMES).default("never_alert"),
+});
+
+export type Rule = z.infer<typeof ruleSchema>;
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+
+export interface RuleDecision {
+  outcome: RuleOutcome;
+  /** Name of the rule that decided, or null when the default outcome applied. */
+  rule: string | null;
+  priority?: Priority;
+}
+
+/**
+ * Used when no rules file is configured: the reason filter PingPal has
+ * always applied, with everything that passes it going to the LLM, plus CI
+ * activity, which is judged from the failed jobs of the run.
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+  rules: [
+    {
+      name: "relevant-reasons",
+      match: {
+        reason: ["mention", "review_requested", "assign", "author"],
+      },
+      outcome: "ask_llm",
+    },
+    {
+      name: "ci-activity",
+      match: { reason: ["ci_activity"] },
+      outcome: "ask_llm",
+    },
+  ],
+  defaultOutcome: "never_alert",
+};
+
+const ruleSetCache = new Map<string, { mtimeMs: number; ruleSet: RuleSet }>();
+
+/**
+ * Loads and validates a YAML or JSON rules file (JSON is valid YAML, so one
+ * parser covers both). Re-reads the file when it changes on disk. Without a
+ * path the built-in default rules apply.
+ */
+export function loadRuleSet(path?: string): RuleSet {
+  if (!path) {
+    return DEFAULT_RULE_SET;
+  }
+
+  const { mtimeMs } = statSync(path);
+  const cached = ruleSetCache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.ruleSet;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not parse rules file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    const ruleSet = ruleSetSchema.parse(parsed ?? {});
+    ruleSetCache.set(path, { mtimeMs, ruleSet });
+    return ruleSet;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(
+        `Invalid rules file ${path}: ${error.errors
+          .map((e) => `${e.path.join(".")}: ${e.message}`)
+          .join(", ")}`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rules for a subscriber: their own `rulesFile` if set, else
+ * PINGPAL_RULES_FILE, else the built-in defaults.
+ */
+export function getRuleSetForSubscriber(subscriber: Subscriber): RuleSet {
+  return loadRuleSet(subscriber.rulesFile ?? process.env.PINGPAL_RULES_FILE);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("**")
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, "[^/]*")
+        .replace(/\?/g, "[^/]"),
+    )
+    .join(".*");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function includesIgnoreCase(values: string[], value: string | null): boolean {
+  if (value === null) {
+    return false;
+  }
+  const lower = value.toLowerCase();
+  return values.some((candidate) => candidate.toLowerCase() === lower);
+}
+
+/**
+ * Evaluates the rules in order; the first matching rule decides.
+ *
+ * `context` is the fetched thread content. Pass `undefined` when it hasn't
+ * been fetched yet: evaluation then stops (returning null) at the first rule
+ * that needs labels or author, since its result can't be known. Pass `null`
+ * when the content is unavailable, which treats labels as empty and the
+ * author as unknown.
+ */
+export function evaluateRules(
+  ruleSet: RuleSet,
+  notification: GitHubNotification,
+  context: GitHubThreadContext | null | undefined,
+): RuleDecision | null {
+  const [owner] = notification.repository.full_name.split("/");
+
+  for (const rule of ruleSet.rules) {
+    const { match } = rule;
+
+    if (
+      match.repo &&
+      !match.repo.some((glob) =>
+        globToRegExp(glob).test(notification.repository.full_name),
+      )
+    ) {
+      continue;
+    }
+    if (match.org && !includesIgnoreCase(match.org, owner)) {
+      continue;
+    }
+    if (
+      match.reason &&
+      !includesIgnoreCase(match.reason, notification.reason)
+    ) {
+      continue;
+    }
+    if (
+      match.subjectType &&
+      !includesIgnoreCase(match.subjectType, notification.subject.type)
+    ) {
+      continue;
+    }
+    if (
+      match.title &&
+      !new RegExp(match.title, "i").test(notification.subject.title)
+    ) {
+      continue;
+    }
+
+    if (match.labels || match.author) {
+      if (context === undefined) {
+        return null;
+      }
+      const labels = context?.labels ?? [];
+      if (
+        match.labels &&
+        !labels.some((label) => includesIgnoreCase(match.labels!, label))
+      ) {
+        continue;
+      }
+      if (
+        match.author &&
+        !includesIgnoreCase(match.author, context?.author ?? null)
+      ) {
+        continue;
+      }
+    }
+
+    return { outcome: rule.outcome, rule: rule.name, priority: rule.priority };
+  }
+
+  return { outcome: ruleSet.defaultOutcome, rule: null };
+}
@@ -0,0 +1,504 @@
+import type { IAgentRuntime, Memory, UUID } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import type { GitHubNotification } from "./githubService";
+import { recordFeedback, type FeedbackRating } from "./feedback";
+import { findProcessedRecord, getProcessedRecords } from "./processedRecords";
+import { acknowledgeEscalations } from "./escalation";
+import {
+  getSubscriberTimeZone,
+  loadSubscribers,
+  type Subscriber,
+} from "../subscribers";
+import { createGitHubService } from "../auth";
+import type { Category, Priority } from "../priority";
+import { escapeMarkdownV2 } from "../utils/markdown";
+import { getInternalRoomIdForAgent } from "../utils/internalRoom";
+import { addDays, getZonedParts, getZonedTime } from "../utils/time";
+import { ensureCallbackQueryUpdates, getTelegramBot } from "../utils/telegram";
+
+const ALERT_CACHE_PREFIX = "pingpal_github_alert_";
+const SNOOZE_CACHE_KEY = "pingpal_github_snoozes";
+const SNOOZE_HOUR_MS = 60 * 60 * 1000;
+// "Until tomorrow" means tomorrow at this local hour
+const SNOOZE_TOMORROW_HOUR = 9;
+
+export type AlertAction =
+  | "read"
+  | "mute"
+  | "snooze1h"
+  | "snoozetm"
+  | "useful"
+  | "noise"
+  | "rerun"
+  | "ack";
+
+const ALERT_ACTION_PATTERN =
+  /^pp:(read|mute|snooze1h|snoozetm|useful|noise|rerun|ack):([a-z0-9]+)$/;
+
+/**
+ * Everything needed to act on an alert after it was sent. Stored in the
+ * agent cache under a short id because Telegram limits callback data to 64
+ * bytes.
+ */
+export interface StoredAlert {
+  alertId: string;
+  subscriberId: string;
+  notification: GitHubNotification;
+  reason: string;
+  priority?: Priority;
+  category?: Category | null;
+  suggestedAction?: string | null;
+  deadline?: string | null;
+  /** The MarkdownV2 text that was sent, so the message can be edited later. */
+  text: string;
+  link: string;
+  /** The processed-notification record feedback on the alert is stored on. */
+  processedMemoryId?: UUID | null;
+  /** Set once the alert was rated; the rating buttons are then removed. */
+  feedback?: FeedbackRating;
+  /** Set once a thread action succeeded; its buttons are then removed. */
+  actionTaken?: boolean;
+  /** Shown below the text once later updates were folded into the alert. */
+  footer?: string;
+  /** Workflow run of a CI failure alert, for the re-run button. */
+  ciRunId?: number | null;
+  /** Set once any button worked; critical alerts then lose "Got it". */
+  acknowledged?: boolean;
+}
+
+interface Snooze {
+  alertId: string;
+  subscriberId: string;
+  threadId: string;
+  until: number;
+  /**
+   * SEND_NOTIFICATION content of the latest activity on the thread during
+   * the snooze, sent instead of the original alert when it ends.
+   */
+  latestActivity?: Record<string, unknown>;
+  /** Records of earlier activity during the snooze, marked along with it. */
+  foldedProcessedMemoryIds?: UUID[];
+}
+
+// Serializes read-modify-write of the snoozes within this process
+let snoozeUpdates: Promise<unknown> = Promise.resolve();
+
+function updateSnoozes(
+  runtime: IAgentRuntime,
+  update: (snoozes: Snooze[]) => Snooze[],
+): Promise<void> {
+  const run = snoozeUpdates.then(async () => {
+    const snoozes = (await runtime.getCache<Snooze[]>(SNOOZE_CACHE_KEY)) ?? [];
+    await runtime.setCache<Snooze[]>(SNOOZE_CACHE_KEY, update(snoozes));
+  });
+  snoozeUpdates = run.catch(() => undefined);
+  return run;
+}
+
+export function createAlertId(): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 12);
+}
+
+export async function saveAlert(
+  runtime: IAgentRuntime,
+  alert: StoredAlert,
+): Promise<void> {
+  await runtime.setCache<StoredAlert>(
+    `${ALERT_CACHE_PREFIX}${alert.alertId}`,
+    alert,
+  );
+}
+
+export async function getAlert(
+  runtime: IAgentRuntime,
+  alertId: string,
+): Promise<StoredAlert | undefined> {
+  return runtime.getCache<StoredAlert>(`${ALERT_CACHE_PREFIX}${alertId}`);
+}
+
+/**
+ * Thread ids synthesized for webhook events are not GitHub notification
+ * threads, so mark-read and mute can't be offered for them.
+ */
+function isNotificationThread(notification: GitHubNotification): boolean {
+  return !notification.id.startsWith("webhook-");
+}
+
+/**
+ * Inline keyboard attached to every alert. After an action has been taken
+ * only the rating buttons (until the alert is rated) and "Open" are kept.
+ */
+export function buildAlertKeyboard(
+  alert: StoredAlert,
+  includeActions = true,
+): {
+  inline_keyboard: { text: string; callback_data?: string; url?: string }[][];
+} {
+  const open = [{ text: "🔗 Open", url: alert.link }];
+  const rows: { text: string; callback_data?: string; url?: string }[][] = [];
+  if (!alert.feedback) {
+    rows.push([
+      { text: "👍 Useful", callback_data: `pp:useful:${alert.alertId}` },
+      { text: "👎 Noise", callback_data: `pp:noise:${alert.alertId}` },
+    ]);
+  }
+  if (alert.priority === "critical" && !alert.acknowledged) {
+    rows.push([
+      { text: "👀 Got it", callback_data: `pp:ack:${alert.alertId}` },
+    ]);
+  }
+  if (!includeActions) {
+    return { inline_keyboard: [...rows, open] };
+  }
+
+  if (alert.ciRunId) {
+    rows.push([
+      {
+        text: "🔁 Re-run failed jobs",
+        callback_data: `pp:rerun:${alert.alertId}`,
+      },
+    ]);
+  }
+  if (isNotificationThread(alert.notification)) {
+    rows.push([
+      { text: "✅ Mark read", callback_data: `pp:read:${alert.alertId}` },
+      { text: "🔕 Mute thread", callback_data: `pp:mute:${alert.alertId}` },
+    ]);
+  }
+  rows.push([
+    { text: "⏰ Snooze 1h", callback_data: `pp:snooze1h:${alert.alertId}` },
+    {
+      text: "🌙 Until tomorrow",
+      callback_data: `pp:snoozetm:${alert.alertId}`,
+    },
+  ]);
+  rows.push(open);
+  return { inline_keyboard: rows };
+}
+
+/**
+ * When a snooze ends. "Until tomorrow" means the next day's morning in the
+ * subscriber's timezone.
+ */
+function getSnoozeUntil(
+  action: "snooze1h" | "snoozetm",
+  timeZone: string,
+): number {
+  if (action === "snooze1h") {
+    return Date.now() + SNOOZE_HOUR_MS;
+  }
+  const today = getZonedParts(new Date(), timeZone);
+  const tomorrow = addDays(today.year, today.month, today.day, 1);
+  return getZonedTime(
+    tomorrow.year,
+    tomorrow.month,
+    tomorrow.day,
+    SNOOZE_TOMORROW_HOUR * 60,
+    timeZone,
+  );
+}
+
+/**
+ * Holds back an alert on a snoozed thread: the snooze keeps the latest
+ * activity (the SEND_NOTIFICATION content) and sends it when it ends, in
+ * place of the original alert. Returns false when the thread isn't snoozed.
+ */
+export async function holdSnoozedActivity(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  threadId: string,
+  content: Record<string, unknown>,
+): Promise<boolean> {
+  let held = false;
+  await updateSnoozes(runtime, (snoozes) =>
+    snoozes.map((snooze) => {
+      if (
+        snooze.subscriberId !== subscriberId ||
+        snooze.threadId !== threadId ||
+        snooze.until <= Date.now()
+      ) {
+        return snooze;
+      }
+      held = true;
+      const previous = snooze.latestActivity;
+      const folded = [
+        ...(snooze.foldedProcessedMemoryIds ?? []),
+        ...((previous?.foldedProcessedMemoryIds as UUID[] | undefined) ?? []),
+        previous?.processedMemoryId as UUID | null | undefined,
+        ...((content.foldedProcessedMemoryIds as UUID[] | undefined) ?? []),
+      ].filter((id): id is UUID => !!id && id !== content.processedMemoryId);
+      return {
+        ...snooze,
+        latestActivity: content,
+        foldedProcessedMemoryIds: [...new Set(folded)],
+      };
+    }),
+  );
+  return held;
+}
+
+/**
+ * The processed record the alert was sent for. Alerts from before records
+ * were linked fall back to the newest record of the thread.
+ */
+async function getAlertRecord(
+  runtime: IAgentRuntime,
+  alert: StoredAlert,
+): Promise<Memory | null> {
+  if (alert.processedMemoryId) {
+    return runtime.getMemoryById(alert.processedMemoryId);
+  }
+  const records = await getProcessedRecords(runtime, alert.subscriberId);
+  return findProcessedRecord(records, alert.notification.id) ?? null;
+}
+
+/**
+ * Performs an alert action and returns the line to append to the message.
+ */
+async function performAlertAction(
+  runtime: IAgentRuntime,
+  action: AlertAction,
+  alert: StoredAlert,
+  subscriber: Subscriber,
+): Promise<{ ok: boolean; outcome: string }> {
+  const githubService = createGitHubService(runtime, subscriber);
+
+  switch (action) {
+    case "read":
+      return (await githubService.markNotificationAsRead(alert.notification.id))
+        ? { ok: true, outcome: "✅ Marked as read" }
+        : { ok: false, outcome: "⚠️ Could not mark as read on GitHub" };
+    case "mute":
+      return (await githubService.muteThread(alert.notification.id))
+        ? { ok: true, outcome: "🔕 Thread muted" }
+        : { ok: false, outcome: "⚠️ Could not mute the thread on GitHub" };
+    case "snooze1h":
+    case "snoozetm": {
+      const timeZone = getSubscriberTimeZone(subscriber);
+      const until = getSnoozeUntil(action, timeZone);
+      await updateSnoozes(runtime, (snoozes) => {
+        const previous = snoozes.find(
+          (snooze) =>
+            snooze.subscriberId === alert.subscriberId &&
+            snooze.threadId === alert.notification.id,
+        );
+        return [
+          ...snoozes.filter((snooze) => snooze !== previous),
+          {
+            // Activity held by an earlier snooze stays held
+            ...previous,
+            alertId: alert.alertId,
+            subscriberId: alert.subscriberId,
+            threadId: alert.notification.id,
+            until,
+          },
+        ];
+      });
+      return {
+        ok: true,
+        outcome: `⏰ Snoozed until ${new Date(until).toLocaleString("en-US", {
+          month: "short",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+          timeZone,
+          timeZoneName: "short",
+        })}`,
+      };
+    }
+    case "rerun":
+      return alert.ciRunId &&
+        (await githubService.rerunFailedJobs(
+          alert.notification.repository.full_name,
+          alert.ciRunId,
+        ))
+        ? { ok: true, outcome: "🔁 Re-running the failed jobs" }
+        : { ok: false, outcome: "⚠️ Could not re-run the jobs on GitHub" };
+    case "ack":
+      return { ok: true, outcome: "👀 Acknowledged" };
+    case "useful":
+    case "noise": {
+      const record = await getAlertRecord(runtime, alert);
+      if (!record) {
+        return { ok: false, outcome: "⚠️ The alert's record is gone" };
+      }
+      await recordFeedback(runtime, record, action);
+      alert.feedback = action;
+      return {
+        ok: true,
+        outcome:
+          action === "useful"
+            ? "👍 Thanks, more like this"
+            : "👎 Thanks, fewer like this",
+      };
+    }
+  }
+}
+
+/**
+ * Whether presses of alert buttons reach the bot; see
+ * ensureCallbackQueryUpdates. Null while the Telegram bot isn't polling yet.
+ */
+export function subscribeToAlertButtonPresses(
+  runtime: IAgentRuntime,
+): boolean | null {
+  return ensureCallbackQueryUpdates(getTelegramBot(runtime));
+}
+
+/**
+ * Registers the callback-query handler for alert buttons on the Telegram
+ * service's bot. Returns false if the Telegram service isn't available.
+ */
+export function registerAlertActionHandlers(runtime: IAgentRuntime): boolean {
+  const bot = getTelegramBot(runtime);
+  if (!bot?.action) {
+    logger.debug(
+      "[PingPal GitHub] Telegram bot not available; alert buttons will not respond.",
+    );
+    return false;
+  }
+
+  bot.action(ALERT_ACTION_PATTERN, async (ctx: any) => {
+    const [, action, alertId] = ctx.match as [string, AlertAction, string];
+
+    try {
+      const alert = await getAlert(runtime, alertId);
+      if (!alert) {
+        await ctx.answerCbQuery("This alert has expired.");
+        return;
+      }
+
+      const subscriber = loadSubscribers().find(
+        (candidate) => candidate.id === alert.subscriberId,
+      );
+      // Only the chat the alert was sent to may act on it
+      if (!subscriber || String(ctx.chat?.id) !== subscriber.telegramChatId) {
+        await ctx.answerCbQuery("Not allowed.");
+        return;
+      }
+
+      const { ok, outcome } = await performAlertAction(
+        runtime,
+        action,
+        alert,
+        subscriber,
+      );
+
+      const text = `${alert.text}\n\n_${escapeMarkdownV2(outcome)}_`;
+      if (ok) {
+        // Rating and acknowledging leave the thread actions in place; they
+        // can still be used
+        if (action !== "useful" && action !== "noise" && action !== "ack") {
+          alert.actionTaken = true;
+        }
+        // Any reaction means the alert was seen, so it isn't escalated
+        alert.acknowledged = true;
+        await acknowledgeEscalations(
+          runtime,
+          alert.subscriberId,
+          alert.notification.id,
+        );
+        // Kept so a later action's edit doesn't drop this outcome
+        await saveAlert(runtime, { ...alert, text });
+      }
+
+      await ctx.answerCbQuery(outcome);
+      await ctx.editMessageText(`${text}${alert.footer ?? ""}`, {
+        parse_mode: "MarkdownV2",
+        // Thread actions stay until one succeeds, so a failed one can be retried
+        reply_markup: buildAlertKeyboard(alert, !alert.actionTaken),
+      });
+
+      logger.info(
+        {
+          action,
+          alertId,
+          subscriberId: alert.subscriberId,
+          notificationId: alert.notification.id,
+        },
+        "[PingPal GitHub] Handled Telegram alert action",
+      );
+    } catch (error) {
+      logger.error(
+        { error, action, alertId },
+        "[PingPal GitHub] Failed to handle Telegram alert action",
+      );
+      await ctx.answerCbQuery("Something went wrong.").catch(() => {});
+    }
+  });
+
+  logger.info("[PingPal GitHub] Registered Telegram alert action handlers");
+  return true;
+}
+
+/**
+ * Sends the latest activity held by each expired snooze through
+ * SEND_NOTIFICATION, or re-sends the snoozed alert when there was none.
+ */
+export async function processDueSnoozes(runtime: IAgentRuntime): Promise<void> {
+  const now = Date.now();
+  let due: Snooze[] = [];
+  await updateSnoozes(runtime, (snoozes) => {
+    due = snoozes.filter((snooze) => snooze.until <= now);
+    return snoozes.filter((snooze) => snooze.until > now);
+  });
+  if (due.length === 0) {
+    return;
+  }
+
+  const sendAction = runtime.actions?.find(
+    (action) => action.name === "SEND_NOTIFICATION",
+  );
+  if (!sendAction) {
+    logger.warn("[PingPal GitHub] SEND_NOTIFICATION action not found");
+    return;
+  }
+
+  for (const snooze of due) {
+    const { latestActivity } = snooze;
+    const alert = latestActivity
+      ? null
+      : await getAlert(runtime, snooze.alertId);
+    if (!latestActivity && !alert) {
+      continue;
+    }
+
+    const reminderMemory: Memory = {
+      id: crypto.randomUUID(),
+      entityId: runtime.agentId,
+      roomId: getInternalRoomIdForAgent(runtime.agentId),
+      agentId: runtime.agentId,
+      content: latestActivity
+        ? {
+            ...latestActivity,
+            text: "Send Telegram notification",
+            analysisReason: `⏰ Snooze over, new activity. ${String(latestActivity.analysisReason ?? "")}`,
+            foldedProcessedMemoryIds: snooze.foldedProcessedMemoryIds ?? [],
+          }
+        : {
+            text: "Send Telegram notification",
+            githubNotification: alert!.notification,
+            analysisReason: `⏰ Snooze over. ${alert!.reason}`,
+            priority: alert!.priority,
+            category: alert!.category,
+            suggestedAction: alert!.suggestedAction,
+            deadline: alert!.deadline,
+            webUrl: alert!.link,
+            ciRunId: alert!.ciRunId,
+            subscriberId: alert!.subscriberId,
+          },
+      createdAt: Date.now(),
+    };
+
+    try {
+      if (await sendAction.validate(runtime, reminderMemory)) {
+        await sendAction.handler(runtime, reminderMemory);
+      }
+    } catch (error) {
+      logger.error(
+        { error, alertId: snooze.alertId, subscriberId: snooze.subscriberId },
+        "[PingPal GitHub] Failed to send snooze reminder",
+      );
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { createHash } from "node:crypto";
+
+const ANALYSIS_CACHE_KEY = "pingpal_github_llm_results";
+// Oldest results are dropped beyond this
+const MAX_CACHED_RESULTS = 500;
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedAnalysis<T> {
+  analysis: T;
+  cachedAt: number;
+}
+
+// Serializes read-modify-write of the cache within this process
+let cacheUpdates: Promise<unknown> = Promise.resolve();
+
+/**
+ * Stable hash of what the LLM is asked to judge. Identical content gets the
+ * identical answer, so it is only paid for once.
+ */
+export function hashAnalysisInput(input: unknown): string {
+  return createHash("sha256").update(JSON.stringify(input)).digest("hex");
+}
+
+export async function getCachedAnalysis<T>(
+  runtime: IAgentRuntime,
+  hash: string,
+): Promise<T | null> {
+  const cache =
+    (await runtime.getCache<Record<string, CachedAnalysis<T>>>(
+      ANALYSIS_CACHE_KEY,
+    )) ?? {};
+  const entry = cache[hash];
+  return entry && entry.cachedAt + CACHE_TTL_MS > Date.now()
+    ? entry.analysis
+    : null;
+}
+
+export function cacheAnalysis<T>(
+  runtime: IAgentRuntime,
+  hash: string,
+  analysis: T,
+): Promise<void> {
+  const run = cacheUpdates.then(async () => {
+    const cache =
+      (await runtime.getCache<Record<string, CachedAnalysis<T>>>(
+        ANALYSIS_CACHE_KEY,
+      )) ?? {};
+    cache[hash] = { analysis, cachedAt: Date.now() };
+    const entries = Object.entries(cache)
+      .filter(([, entry]) => entry.cachedAt + CACHE_TTL_MS > Date.now())
+      .sort(([, a], [, b]) => a.cachedAt - b.cachedAt)
+      .slice(-MAX_CACHED_RESULTS);
+    await runtime.setCache(ANALYSIS_CACHE_KEY, Object.fromEntries(entries));
+  });
+  cacheUpdates = run.catch(() => undefined);
+  return run;
+}
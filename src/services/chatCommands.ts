@@ -0,0 +1,603 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { sendDigest } from "./digestService";
+import {
+  getMutedRepos,
+  getPausedUntil,
+  muteRepo,
+  pauseAlerts,
+  resumeAlerts,
+  unmuteRepo,
+} from "./subscriberControls";
+import { getDeadLetters, getOutboxEntries } from "./outbox";
+import { getCircuitState, recordGitHubSuccess } from "./githubCircuit";
+import { getLlmBudget, getLlmDailyUsage, type LlmDailyUsage } from "./llmUsage";
+import { findProcessedRecord, getProcessedRecords } from "./processedRecords";
+import { getTrackedRequests } from "./reviewReminders";
+import {
+  getFeedbackReport,
+  recordFeedback,
+  type FeedbackStats,
+} from "./feedback";
+import { createGitHubService, getGitHubAuthConfig } from "../auth";
+import {
+  saveOAuthToken,
+  type DeviceCode,
+  startDeviceFlow,
+  waitForDeviceAuthorization,
+} from "../auth/oauthDevice";
+import { getLastPolledAt } from "../actions/pollGitHubNotifications";
+import { getIngestionMode } from "../routes/githubWebhook";
+import {
+  getSubscriberTimeZone,
+  loadSubscribers,
+  type Subscriber,
+} from "../subscribers";
+import {
+  CATEGORY_LABELS,
+  isCategory,
+  isPriority,
+  PRIORITY_LABELS,
+} from "../priority";
+import { escapeMarkdownV2, escapeMarkdownV2Url } from "../utils/markdown";
+import { getNotificationWebUrl } from "../utils/links";
+import { getTelegramBot, prependTelegramMiddleware } from "../utils/telegram";
+import {
+  formatDateTime,
+  getZonedParts,
+  parseDuration,
+  toDateKey,
+} from "../utils/time";
+
+const MAX_PENDING_ITEMS = 20;
+const REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+const HELP_TEXT = `*PingPal commands*
+/status \\- last poll, rate limit and alerts today
+/pending \\- unread items PingPal alerted about
+/mute owner/repo \\- stop alerts for a repository
+/unmute \\[owner/repo\\] \\- unmute one repository, or all
+/pause 2h \\- hold alerts for a while \\(m, h or d\\); /pause off resumes
+/digest now \\- send the digest right away
+/why <thread id or GitHub URL> \\- why PingPal decided what it did
+/connect \\- authorize PingPal on GitHub \\(OAuth device flow\\)
+/missed <GitHub URL> \\- PingPal should have alerted about this
+/feedback \\- alert precision from your 👍/👎 ratings`;
+
+type CommandHandler = (
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  args: string,
+) => Promise<string>;
+
+/**
+ * The subscriber whose Telegram user sent the message. A subscriber's
+ * private chat id is their user id.
+ */
+function getCommandSender(telegramUserId: string): Subscriber | undefined {
+  return loadSubscribers().find(
+    (subscriber) => subscriber.telegramChatId === telegramUserId,
+  );
+}
+
+/**
+ * Today's LLM usage (shared by all subscribers) against the daily budget.
+ */
+function formatLlmUsage(usage: LlmDailyUsage): string {
+  const budget = getLlmBudget();
+  const tokens = usage.promptTokens + usage.completionTokens;
+  const limits = [
+    budget.tokens !== null ? `${budget.tokens} tokens` : null,
+    budget.costUsd !== null ? `$${budget.costUsd.toFixed(2)}` : null,
+  ].filter((limit) => limit !== null);
+  let line = `LLM today: ${usage.calls} call${usage.calls === 1 ? "" : "s"}, ~${tokens} tokens, ~$${usage.costUsd.toFixed(4)}${
+    limits.length > 0 ? ` (budget ${limits.join(" / ")})` : ""
+  }`;
+  if (usage.cacheHits > 0) {
+    line += `, ${usage.cacheHits} from cache`;
+  }
+  if (usage.budgetFallbacks > 0) {
+    line += `, ${usage.budgetFallbacks} classified by rules only (budget used up)`;
+  }
+  return line;
+}
+
+const handleStatus: CommandHandler = async (runtime, subscriber) => {
+  const timeZone = getSubscriberTimeZone(subscriber);
+  const githubService = createGitHubService(runtime, subscriber);
+  const [
+    lastPolledAt,
+    rateLimit,
+    records,
+    pausedUntil,
+    mutedRepos,
+    retrying,
+    deadLetters,
+    circuit,
+    llmUsage,
+    trackedRequests,
+  ] = await Promise.all([
+    getLastPolledAt(runtime, subscriber.id),
+    // Falls back to the last seen headers while GitHub is backing us off
+    githubService
+      .getRateLimit()
+      .then((rateLimit) => rateLimit ?? githubService.getTrackedRateLimit()),
+    getProcessedRecords(runtime, subscriber.id),
+    getPausedUntil(runtime, subscriber.id),
+    getMutedRepos(runtime, subscriber.id),
+    getOutboxEntries(runtime, subscriber.id),
+    getDeadLetters(runtime, subscriber.id),
+    getCircuitState(runtime, subscriber),
+    getLlmDailyUsage(runtime),
+    getTrackedRequests(runtime, subscriber.id),
+  ]);
+
+  const now = getZonedParts(new Date(), timeZone);
+  const todayKey = toDateKey(now.year, now.month, now.day);
+  const alertsToday = records.filter((memory) => {
+    if ((memory.metadata as Record<string, any>).notifiedViaTelegram !== true) {
+      return false;
+    }
+    const processed = getZonedParts(new Date(memory.createdAt ?? 0), timeZone);
+    return (
+      toDateKey(processed.year, processed.month, processed.day) === todayKey
+    );
+  }).length;
+
+  const lines = [
+    `Last poll: ${
+      lastPolledAt
+        ? formatDateTime(new Date(lastPolledAt), timeZone)
+        : getIngestionMode() === "webhook"
+          ? "not polling (webhook mode)"
+          : "not yet"
+    }`,
+    `GitHub rate limit: ${
+      rateLimit
+        ? `${rateLimit.remaining}/${rateLimit.limit} remaining, resets ${formatDateTime(new Date(rateLimit.resetAt), timeZone)}`
+        : "unavailable"
+    }`,
+    `Alerts today: ${alertsToday}`,
+  ];
+  if (circuit?.openUntil && circuit.openUntil > Date.now()) {
+    lines.push(
+      `GitHub polling paused until ${formatDateTime(new Date(circuit.openUntil), timeZone)}: ${circuit.lastError}`,
+    );
+  } else if (circuit) {
+    lines.push(
+      `Last GitHub error (${circuit.consecutiveFailures}x): ${circuit.lastError}`,
+    );
+  }
+  const awaitingReanalysis = records.filter(
+    (memory) =>
+      (memory.metadata as Record<string, any>).needsReanalysis === true,
+  ).length;
+  const failedReanalysis = records.filter(
+    (memory) =>
+      (memory.metadata as Record<string, any>).reanalysisFailed === true,
+  ).length;
+  if (awaitingReanalysis > 0) {
+    lines.push(
+      `Classified by heuristics after an LLM failure, awaiting re-analysis: ${awaitingReanalysis}`,
+    );
+  }
+  if (failedReanalysis > 0) {
+    lines.push(
+      `LLM re-analysis gave up (heuristic result kept): ${failedReanalysis}`,
+    );
+  }
+  if (trackedRequests.length > 0) {
+    const reviews = trackedRequests.filter(
+      (request) => request.kind === "review",
+    ).length;
+    lines.push(
+      `Waiting on you: ${reviews} review request(s), ${trackedRequests.length - reviews} assignment(s)`,
+    );
+  }
+  if (retrying.length > 0) {
+    lines.push(`Alerts waiting for a retry: ${retrying.length}`);
+  }
+  if (deadLetters.length > 0) {
+    lines.push(`Alerts that failed to deliver: ${deadLetters.length}`);
+  }
+  if (pausedUntil) {
+    lines.push(
+      `Paused until: ${formatDateTime(new Date(pausedUntil), timeZone)}`,
+    );
+  }
+  if (mutedRepos.length > 0) {
+    lines.push(`Muted: ${mutedRepos.join(", ")}`);
+  }
+  lines.push(formatLlmUsage(llmUsage));
+
+  return `*📊 PingPal status*\n${escapeMarkdownV2(lines.join("\n"))}`;
+};
+
+const handlePending: CommandHandler = async (runtime, subscriber) => {
+  const githubService = createGitHubService(runtime, subscriber);
+  if (!githubService.canReadNotifications) {
+    return escapeMarkdownV2(
+      "/pending needs access to your GitHub notifications, which this kind of GitHub token doesn't have.",
+    );
+  }
+  const [{ notifications, truncated }, records] = await Promise.all([
+    githubService.getNotifications({
+      unreadOnly: true,
+      allPages: true,
+    }),
+    getProcessedRecords(runtime, subscriber.id),
+  ]);
+
+  // The latest record per thread decides whether it was alerted
+  const latestByThread = new Map<string, Record<string, any>>();
+  for (const memory of records) {
+    const metadata = memory.metadata as Record<string, any>;
+    if (!latestByThread.has(metadata.githubNotificationId)) {
+      latestByThread.set(metadata.githubNotificationId, metadata);
+    }
+  }
+
+  const pending = notifications.filter(
+    (notification) =>
+      latestByThread.get(notification.id)?.notifiedViaTelegram === true,
+  );
+  // Unread notifications past the page limit weren't checked
+  const truncatedNote = truncated
+    ? `\n_${escapeMarkdownV2(
+        `Only your ${notifications.length} most recent unread notifications were checked.`,
+      )}_`
+    : "";
+  if (pending.length === 0) {
+    return (
+      escapeMarkdownV2("Nothing important is waiting for you. 🎉") +
+      truncatedNote
+    );
+  }
+
+  const lines = pending.slice(0, MAX_PENDING_ITEMS).map((notification) => {
+    const metadata = latestByThread.get(notification.id)!;
+    const priority = isPriority(metadata.priority)
+      ? ` ${PRIORITY_LABELS[metadata.priority]}`
+      : "";
+    return `•${escapeMarkdownV2(priority)} *${escapeMarkdownV2(
+      notification.repository.full_name,
+    )}*: [${escapeMarkdownV2(notification.subject.title)}](${escapeMarkdownV2Url(
+      metadata.webUrl ?? getNotificationWebUrl(notification),
+    )}) \`${notification.id}\``;
+  });
+  if (pending.length > MAX_PENDING_ITEMS) {
+    lines.push(
+      `_${escapeMarkdownV2(`…and ${pending.length - MAX_PENDING_ITEMS} more`)}_`,
+    );
+  }
+
+  return `*📥 ${pending.length} unread important item${
+    pending.length === 1 ? "" : "s"
+  }*\n${lines.join("\n")}${truncatedNote}`;
+};
+
+const handleMute: CommandHandler = async (runtime, subscriber, args) => {
+  if (!REPO_PATTERN.test(args)) {
+    return escapeMarkdownV2("Usage: /mute owner/repo");
+  }
+  await muteRepo(runtime, subscriber.id, args);
+  return escapeMarkdownV2(
+    `🔇 Muted ${args.toLowerCase()}. Its notifications are skipped until you /unmute it.`,
+  );
+};
+
+const handleUnmute: CommandHandler = async (runtime, subscriber, args) => {
+  if (args && !REPO_PATTERN.test(args)) {
+    return escapeMarkdownV2("Usage: /unmute [owner/repo]");
+  }
+  const removed = await unmuteRepo(runtime, subscriber.id, args || undefined);
+  return escapeMarkdownV2(
+    removed.length > 0
+      ? `🔊 Unmuted ${removed.join(", ")}.`
+      : args
+        ? `${args} wasn't muted.`
+        : "No repositories are muted.",
+  );
+};
+
+const handlePause: CommandHandler = async (runtime, subscriber, args) => {
+  if (args.toLowerCase() === "off") {
+    await resumeAlerts(runtime, subscriber.id);
+    return escapeMarkdownV2(
+      "▶️ Alerts resumed. Anything held while paused follows shortly.",
+    );
+  }
+
+  const durationMs = parseDuration(args);
+  if (!durationMs) {
+    return escapeMarkdownV2("Usage: /pause 2h (m, h or d), or /pause off");
+  }
+  const until = Date.now() + durationMs;
+  await pauseAlerts(runtime, subscriber.id, until);
+  return escapeMarkdownV2(
+    `⏸️ Alerts paused until ${formatDateTime(new Date(until), getSubscriberTimeZone(subscriber))}. They're held and sent together afterwards.`,
+  );
+};
+
+const handleDigest: CommandHandler = async (runtime, subscriber, args) => {
+  if (args && args.toLowerCase() !== "now") {
+    return escapeMarkdownV2("Usage: /digest now");
+  }
+  const { sent } = await sendDigest(runtime, subscriber);
+  return sent
+    ? ""
+    : escapeMarkdownV2("Nothing for the digest since the last one.");
+};
+
+const handleWhy: CommandHandler = async (runtime, subscriber, args) => {
+  if (!args) {
+    return escapeMarkdownV2("Usage: /why <thread id or GitHub URL>");
+  }
+
+  const records = await getProcessedRecords(runtime, subscriber.id);
+  const record = findProcessedRecord(records, args);
+  if (!record) {
+    return escapeMarkdownV2(`No processed notification found for ${args}.`);
+  }
+
+  const metadata = record.metadata as Record<string, any>;
+  const lines = [
+    `${metadata.sourceContext?.repository ?? "unknown"} (${metadata.sourceContext?.notificationType ?? "unknown"})`,
+    `Processed: ${formatDateTime(new Date(record.createdAt ?? 0), getSubscriberTimeZone(subscriber))}`,
+    `Decided by: ${metadata.decidedBy ?? "llm"}`,
+  ];
+  if (isPriority(metadata.priority)) {
+    lines.push(`Priority: ${PRIORITY_LABELS[metadata.priority]}`);
+  }
+  if (isCategory(metadata.category)) {
+    lines.push(`Category: ${CATEGORY_LABELS[metadata.category]}`);
+  }
+  lines.push(
+    `Alerted: ${metadata.notifiedViaTelegram === true ? "yes" : "no"}`,
+  );
+  lines.push(`Reason: ${metadata.analysisResult ?? "(none recorded)"}`);
+  if (metadata.suggestedAction) {
+    lines.push(`Suggested action: ${metadata.suggestedAction}`);
+  }
+  if (metadata.deadline) {
+    lines.push(`Deadline: ${metadata.deadline}`);
+  }
+
+  return `*🤔 ${escapeMarkdownV2(
+    metadata.sourceContext?.subjectTitle ?? metadata.githubNotificationId,
+  )}*\n${escapeMarkdownV2(lines.join("\n"))}`;
+};
+
+const handleMissed: CommandHandler = async (runtime, subscriber, args) => {
+  if (!args) {
+    return escapeMarkdownV2("Usage: /missed <GitHub URL or thread id>");
+  }
+
+  const records = await getProcessedRecords(runtime, subscriber.id);
+  const record = findProcessedRecord(records, args);
+  if (!record) {
+    return escapeMarkdownV2(
+      `No processed notification found for ${args}. PingPal can only learn from notifications it has seen.`,
+    );
+  }
+  const metadata = record.metadata as Record<string, any>;
+  if (metadata.notifiedViaTelegram === true) {
+    return escapeMarkdownV2(
+      "PingPal did alert you about this one. Rate the alert with its 👍/👎 buttons instead.",
+    );
+  }
+
+  await recordFeedback(runtime, record, "missed");
+  return escapeMarkdownV2(
+    `Noted: "${metadata.sourceContext?.subjectTitle ?? metadata.githubNotificationId}" should have alerted you. PingPal will take it into account from now on.`,
+  );
+};
+
+function formatFeedbackStats(label: string, stats: FeedbackStats): string {
+  const precision =
+    stats.precision !== null
+      ? ` (precision ${Math.round(stats.precision * 100)}%)`
+      : "";
+  return `${label}: ${stats.useful} useful, ${stats.noise} noise${precision}, ${stats.missed} missed`;
+}
+
+const handleFeedback: CommandHandler = async (runtime, subscriber) => {
+  const report = getFeedbackReport(
+    await getProcessedRecords(runtime, subscriber.id),
+  );
+  const { overall } = report;
+  if (overall.useful + overall.noise + overall.missed === 0) {
+    return escapeMarkdownV2(
+      "No feedback yet. Rate alerts with their 👍/👎 buttons, and send /missed <GitHub URL> for notifications that should have alerted.",
+    );
+  }
+
+  const lines = [formatFeedbackStats("Overall", overall), "", "By repository:"];
+  for (const [repository, stats] of Object.entries(report.byRepository)) {
+    lines.push(formatFeedbackStats(repository, stats));
+  }
+  lines.push("", "By reason:");
+  for (const [reason, stats] of Object.entries(report.byReason)) {
+    lines.push(formatFeedbackStats(reason, stats));
+  }
+  return `*🎯 Alert feedback*\n${escapeMarkdownV2(lines.join("\n"))}`;
+};
+
+/**
+ * Waits for the user to enter the device code, then stores the token and
+ * confirms in the chat. Runs after /connect has replied.
+ */
+async function completeDeviceFlow(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  clientId: string,
+  code: DeviceCode,
+): Promise<void> {
+  const bot = getTelegramBot(runtime);
+  let reply: string;
+  try {
+    const token = await waitForDeviceAuthorization(clientId, code);
+    await saveOAuthToken(runtime, subscriber.id, token);
+    // Polling paused by a missing or rejected token can resume right away
+    await recordGitHubSuccess(runtime, subscriber);
+    logger.info(
+      { subscriberId: subscriber.id, scope: token.scope },
+      "[PingPal GitHub] Connected GitHub account via device flow",
+    );
+    reply = escapeMarkdownV2(
+      "✅ GitHub connected. PingPal is watching your notifications.",
+    );
+  } catch (error) {
+    logger.warn(
+      { error, subscriberId: subscriber.id },
+      "[PingPal GitHub] GitHub device flow failed",
+    );
+    reply = escapeMarkdownV2(
+      `⚠️ GitHub connection failed: ${error instanceof Error ? error.message : String(error)}. Send /connect to try again.`,
+    );
+  }
+  if (subscriber.telegramChatId && bot?.telegram?.sendMessage) {
+    await bot.telegram.sendMessage(subscriber.telegramChatId, reply, {
+      parse_mode: "MarkdownV2",
+    });
+  }
+}
+
+const handleConnect: CommandHandler = async (runtime, subscriber) => {
+  const config = getGitHubAuthConfig(subscriber);
+  if (config.type !== "oauth_device") {
+    return escapeMarkdownV2(
+      "/connect is only used with OAuth device flow authentication. This subscriber uses a configured GitHub token.",
+    );
+  }
+
+  const code = await startDeviceFlow(config.clientId, config.scopes);
+  void completeDeviceFlow(runtime, subscriber, config.clientId, code).catch(
+    (error) =>
+      logger.error(
+        { error, subscriberId: subscriber.id },
+        "[PingPal GitHub] Failed to finish GitHub device flow",
+      ),
+  );
+
+  // Device codes are letters, digits and a dash, safe inside a code span
+  return `*🔑 Connect GitHub*\n${escapeMarkdownV2(
+    `Open ${code.verificationUri} and enter this code:`,
+  )}\n\n\`${code.userCode}\`\n\n${escapeMarkdownV2(
+    `The code expires in ${Math.round((code.expiresAt - Date.now()) / 60000)} minutes.`,
+  )}`;
+};
+
+const COMMANDS: Record<string, CommandHandler> = {
+  help: async () => HELP_TEXT,
+  status: handleStatus,
+  pending: handlePending,
+  mute: handleMute,
+  unmute: handleUnmute,
+  pause: handlePause,
+  digest: handleDigest,
+  why: handleWhy,
+  connect: handleConnect,
+  missed: handleMissed,
+  feedback: handleFeedback,
+};
+
+/**
+ * Handles a PingPal chat command sent to the Telegram bot and replies in
+ * the subscriber's chat. Returns false when the message isn't a PingPal
+ * command, so other handlers can deal with it. Commands are only accepted
+ * from configured subscribers.
+ */
+export async function handleChatCommand(
+  runtime: IAgentRuntime,
+  text: string,
+  telegramUserId: string,
+): Promise<boolean> {
+  // "/pause@PingPalBot 2h" -> command "pause", args "2h"
+  const match = text.trim().match(/^\/([a-z]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i);
+  const handler = match ? COMMANDS[match[1].toLowerCase()] : undefined;
+  if (!match || !handler) {
+    return false;
+  }
+
+  const subscriber = getCommandSender(telegramUserId);
+  if (!subscriber) {
+    logger.warn(
+      { telegramUserId, command: match[1] },
+      "[PingPal GitHub] Ignoring chat command from an unknown Telegram user",
+    );
+    return true;
+  }
+
+  const bot = getTelegramBot(runtime);
+  if (!bot?.telegram?.sendMessage) {
+    logger.warn(
+      "[PingPal GitHub] Telegram bot not available; cannot answer chat command.",
+    );
+    return true;
+  }
+
+  const command = match[1].toLowerCase();
+  let reply: string;
+  try {
+    reply = await handler(runtime, subscriber, (match[2] ?? "").trim());
+    logger.info(
+      { subscriberId: subscriber.id, command },
+      "[PingPal GitHub] Handled chat command",
+    );
+  } catch (error) {
+    logger.error(
+      { error, subscriberId: subscriber.id, command },
+      "[PingPal GitHub] Failed to handle chat command",
+    );
+    reply = escapeMarkdownV2(`⚠️ /${command} failed. Check the agent logs.`);
+  }
+
+  // Empty when the command already sent its own message (e.g. the digest)
+  if (reply) {
+    await bot.telegram.sendMessage(subscriber.telegramChatId, reply, {
+      parse_mode: "MarkdownV2",
+      disable_web_page_preview: true,
+    });
+  }
+  return true;
+}
+
+/**
+ * Answers PingPal commands straight from the Telegram bot, ahead of
+ * @elizaos/plugin-telegram's message handler, so commands never reach the
+ * agent's own reply pipeline and get a second answer from it. Other
+ * messages pass on unchanged. Returns false if the Telegram service isn't
+ * available.
+ */
+export function registerChatCommands(runtime: IAgentRuntime): boolean {
+  const registered = prependTelegramMiddleware(
+    getTelegramBot(runtime),
+    async (ctx, next) => {
+      const text = ctx.message?.text;
+      const from = ctx.from?.id;
+      let handled = false;
+      if (typeof text === "string" && from !== undefined) {
+        try {
+          handled = await handleChatCommand(runtime, text, String(from));
+        } catch (error) {
+          // Answered neither way; don't hand the command to the agent
+          handled = true;
+          logger.error(
+            { error },
+            "[PingPal GitHub] Error while handling a chat command",
+          );
+        }
+      }
+      if (!handled) {
+        await next();
+      }
+    },
+  );
+  if (!registered) {
+    logger.debug(
+      "[PingPal GitHub] Telegram bot not available; chat commands will not respond.",
+    );
+  }
+  return registered;
+}
@@ -0,0 +1,236 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger, ModelType, parseJSONObjectFromText } from "@elizaos/core";
+import type { GitHubCiRun, GitHubNotification } from "./githubService";
+import {
+  cacheAnalysis,
+  getCachedAnalysis,
+  hashAnalysisInput,
+} from "./analysisCache";
+import { isLlmBudgetExhausted, recordLlmCall } from "./llmUsage";
+import type { HeuristicAnalysis } from "../priority";
+import { isSameUser } from "../utils/mentions";
+
+const DEFAULT_LOG_TAIL_LINES = 40;
+// Keeps the summary prompt small however many jobs failed
+const MAX_SUMMARIZED_JOBS = 3;
+
+/**
+ * What the LLM makes of a failed run's logs.
+ */
+export interface CiFailureSummary {
+  likelyCause: string;
+  suggestedAction: string | null;
+}
+
+/**
+ * CI notifications: GitHub's `ci_activity` reason, or check-suite and
+ * workflow-run subjects.
+ */
+export function isCiNotification(notification: GitHubNotification): boolean {
+  return (
+    notification.reason === "ci_activity" ||
+    notification.subject.type === "CheckSuite" ||
+    notification.subject.type === "WorkflowRun"
+  );
+}
+
+/**
+ * Lines of each failed job's log that are fetched, from
+ * PINGPAL_CI_LOG_TAIL_LINES.
+ */
+export function getCiLogTailLines(): number {
+  const value = Number(process.env.PINGPAL_CI_LOG_TAIL_LINES);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_LOG_TAIL_LINES;
+}
+
+function toSummary(raw: unknown): CiFailureSummary | null {
+  const candidate = raw as Record<string, unknown> | null;
+  if (
+    !candidate ||
+    typeof candidate.likelyCause !== "string" ||
+    !candidate.likelyCause.trim()
+  ) {
+    return null;
+  }
+  return {
+    likelyCause: candidate.likelyCause.trim(),
+    suggestedAction:
+      typeof candidate.suggestedAction === "string" &&
+      candidate.suggestedAction.trim()
+        ? candidate.suggestedAction.trim()
+        : null,
+  };
+}
+
+/**
+ * Asks the LLM for the likely cause of a failed run from its failed steps
+ * and log tails. Summaries are cached per run and job, and none is made
+ * once the daily LLM budget is used up. Returns null when there is no
+ * summary; the alert then goes out without one.
+ */
+export async function summarizeCiFailure(
+  runtime: IAgentRuntime,
+  ciRun: GitHubCiRun,
+): Promise<CiFailureSummary | null> {
+  const jobs = ciRun.jobs.slice(0, MAX_SUMMARIZED_JOBS);
+  if (jobs.every((job) => !job.logTail)) {
+    return null;
+  }
+
+  const hash = hashAnalysisInput({
+    ciRunId: ciRun.runId,
+    jobs: jobs.map((job) => [job.id, job.logTail]),
+  });
+  const cached = await getCachedAnalysis<CiFailureSummary>(runtime, hash);
+  if (cached) {
+    return cached;
+  }
+  if (await isLlmBudgetExhausted(runtime)) {
+    logger.info(
+      { runId: ciRun.runId },
+      "[PingPal GitHub] Daily LLM budget used up. Sending the CI alert without a summary.",
+    );
+    return null;
+  }
+
+  const prompt = `You are helping a developer understand why a CI run on their pull request failed. Read the failed steps and the end of each failed job's log and name the most likely cause.
+
+Workflow: ${ciRun.workflowName}
+Branch: ${ciRun.headBranch ?? "unknown"}
+${ciRun.pullRequest ? `Pull request: #${ciRun.pullRequest.number} ${ciRun.pullRequest.title}\n` : ""}
+${jobs
+  .map(
+    (job) => `### Job: ${job.name}
+Failed steps: ${job.failedSteps.join(", ") || "unknown"}
+Log tail:
+\`\`\`
+${job.logTail ?? "(log unavailable)"}
+\`\`\``,
+  )
+  .join("\n\n")}
+
+Respond ONLY with a JSON object matching this schema:
+{
+  "type": "object",
+  "properties": {
+    "likelyCause": { "type": "string", "description": "The most likely cause of the failure in one or two short sentences, naming the failing test, file or command where the log shows it." },
+    "suggestedAction": { "type": ["string", "null"], "description": "The next step to fix it, in a few words, or null if unclear." }
+  },
+  "required": ["likelyCause"]
+}`;
+  const schema = {
+    type: "object",
+    properties: {
+      likelyCause: { type: "string" },
+      suggestedAction: { type: ["string", "null"] },
+    },
+    required: ["likelyCause"],
+  };
+
+  let model: string = ModelType.OBJECT_SMALL;
+  let rawResponse: unknown = null;
+  const startedAt = Date.now();
+  try {
+    try {
+      rawResponse = await runtime.useModel(ModelType.OBJECT_SMALL, {
+        prompt,
+        schema,
+      });
+    } catch (objectModelError) {
+      logger.warn(
+        { error: objectModelError },
+        "[PingPal GitHub] OBJECT_SMALL model not available, falling back to TEXT_SMALL",
+      );
+      model = ModelType.TEXT_SMALL;
+      rawResponse = await runtime.useModel(ModelType.TEXT_SMALL, { prompt });
+    }
+  } catch (error) {
+    logger.error(
+      { error, runId: ciRun.runId },
+      "[PingPal GitHub] CI failure summary failed",
+    );
+  }
+
+  // Accounting never fails the alert
+  await recordLlmCall(runtime, {
+    model,
+    items: 1,
+    prompt,
+    response:
+      typeof rawResponse === "string"
+        ? rawResponse
+        : JSON.stringify(rawResponse ?? ""),
+    ok: rawResponse !== null,
+    durationMs: Date.now() - startedAt,
+  }).catch((error) =>
+    logger.warn({ error }, "[PingPal GitHub] Failed to record LLM usage"),
+  );
+
+  const summary = toSummary(
+    typeof rawResponse === "string"
+      ? parseJSONObjectFromText(rawResponse)
+      : rawResponse,
+  );
+  if (summary) {
+    // A summary that couldn't be cached is still worth sending
+    await cacheAnalysis(runtime, hash, summary).catch((error) =>
+      logger.warn(
+        { error, runId: ciRun.runId },
+        "[PingPal GitHub] Failed to cache CI failure summary",
+      ),
+    );
+  }
+  return summary;
+}
+
+/**
+ * Classifies a CI notification from its workflow run: failed runs of pull
+ * requests `targetUsername` authored alert, everything else is logged only.
+ */
+export function classifyCiRun(
+  ciRun: GitHubCiRun,
+  targetUsername: string,
+  summary: CiFailureSummary | null,
+): HeuristicAnalysis {
+  const pullRequest = ciRun.pullRequest;
+  const result = (
+    priority: HeuristicAnalysis["priority"],
+    reason: string,
+    suggestedAction: string | null = null,
+  ): HeuristicAnalysis => ({
+    priority,
+    category: "ci_failure",
+    reason,
+    suggestedAction,
+    deadline: null,
+  });
+
+  if (ciRun.jobs.length === 0) {
+    return {
+      ...result(
+        "low",
+        `${ciRun.workflowName} finished with '${ciRun.conclusion ?? "unknown"}'.`,
+      ),
+      category: "fyi",
+    };
+  }
+  if (!pullRequest || !isSameUser(pullRequest.author, targetUsername)) {
+    return result(
+      "low",
+      `${ciRun.workflowName} failed, but not on a pull request you authored.`,
+    );
+  }
+
+  const [job, ...otherJobs] = ciRun.jobs;
+  const step = job.failedSteps[0];
+  const jobLine = `Job '${job.name}'${step ? ` failed at step '${step}'` : " failed"}${
+    otherJobs.length > 0
+      ? ` (and ${otherJobs.length} more job${otherJobs.length === 1 ? "" : "s"})`
+      : ""
+  } on #${pullRequest.number}.`;
+  return result(
+    "high",
+    summary ? `${jobLine} Likely cause: ${summary.likelyCause}` : jobLine,
+    summary?.suggestedAction ?? "Check the failing job's log",
+  );
+}
@@ -0,0 +1,340 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import {
+  DEFAULT_SUBSCRIBER_ID,
+  DIGEST_SCHEDULES,
+  getSubscriberTimeZone,
+  loadSubscribers,
+  type Subscriber,
+} from "../subscribers";
+import { getDeliveryRoute } from "../priority";
+import { getGitHubWebBaseUrl } from "./githubHost";
+import { escapeMarkdownV2, escapeMarkdownV2Url } from "../utils/markdown";
+import { getTelegramBot } from "../utils/telegram";
+import {
+  addDays,
+  formatDateTime,
+  getZonedParts,
+  parseTimeOfDay,
+  toDateKey,
+  WEEKDAYS,
+  type Weekday,
+} from "../utils/time";
+
+const DIGEST_STATE_CACHE_PREFIX = "pingpal_github_digest_state_";
+const DEFAULT_DIGEST_TIME = "09:00";
+const DEFAULT_DIGEST_WEEKDAY: Weekday = "monday";
+// How many processed records are scanned when building a digest
+const DIGEST_SCAN_COUNT = 1000;
+// Stay below Telegram's 4096 character message limit
+const MAX_DIGEST_LENGTH = 3800;
+
+type DigestSchedule = (typeof DIGEST_SCHEDULES)[number];
+
+export interface DigestSettings {
+  schedule: DigestSchedule;
+  /** Minutes after midnight in `timeZone`. */
+  timeOfDay: number;
+  /** 0 = Sunday … 6 = Saturday; only used by weekly digests. */
+  weekday: number;
+  timeZone: string;
+}
+
+interface DigestState {
+  /** Date (YYYY-MM-DD, subscriber timezone) of the last scheduled digest handled. */
+  lastOccurrenceKey?: string;
+  /** Records processed after this time go into the next digest. */
+  lastSentAt: number;
+}
+
+export interface DigestItem {
+  threadId: string;
+  repository: string;
+  reason: string;
+  title: string;
+  analysis: string;
+  webUrl: string;
+  processedAt: number;
+}
+
+/**
+ * Digest settings for a subscriber, with PINGPAL_DIGEST_SCHEDULE,
+ * PINGPAL_DIGEST_TIME and PINGPAL_DIGEST_WEEKDAY as defaults.
+ */
+export function getDigestSettings(subscriber: Subscriber): DigestSettings {
+  const envSchedule = process.env.PINGPAL_DIGEST_SCHEDULE?.toLowerCase();
+  const schedule =
+    subscriber.digest?.schedule ??
+    (DIGEST_SCHEDULES.includes(envSchedule as DigestSchedule)
+      ? (envSchedule as DigestSchedule)
+      : "daily");
+
+  const timeOfDay =
+    parseTimeOfDay(
+      subscriber.digest?.time ??
+        process.env.PINGPAL_DIGEST_TIME ??
+        DEFAULT_DIGEST_TIME,
+    ) ?? (parseTimeOfDay(DEFAULT_DIGEST_TIME) as number);
+
+  const envWeekday = process.env.PINGPAL_DIGEST_WEEKDAY?.toLowerCase();
+  const weekday = WEEKDAYS.indexOf(
+    subscriber.digest?.weekday ??
+      (WEEKDAYS.includes(envWeekday as Weekday)
+        ? (envWeekday as Weekday)
+        : DEFAULT_DIGEST_WEEKDAY),
+  );
+
+  return {
+    schedule,
+    timeOfDay,
+    weekday,
+    timeZone: getSubscriberTimeZone(subscriber),
+  };
+}
+
+/**
+ * Date key of the most recent scheduled digest time at or before `now`.
+ */
+function getLatestOccurrenceKey(settings: DigestSettings, now: Date): string {
+  const zoned = getZonedParts(now, settings.timeZone);
+  const passedToday = zoned.hour * 60 + zoned.minute >= settings.timeOfDay;
+
+  let offset = passedToday ? 0 : -1;
+  if (settings.schedule === "weekly") {
+    let candidate = addDays(zoned.year, zoned.month, zoned.day, offset);
+    while (candidate.weekday !== settings.weekday) {
+      offset--;
+      candidate = addDays(zoned.year, zoned.month, zoned.day, offset);
+    }
+  }
+
+  const occurrence = addDays(zoned.year, zoned.month, zoned.day, offset);
+  return toDateKey(occurrence.year, occurrence.month, occurrence.day);
+}
+
+/**
+ * Whether a processed record belongs in the digest: normal-priority items
+ * that were not alerted. Records from before priorities existed count when
+ * the LLM judged them not important; rule-dropped ones stay out since the
+ * user asked never to see them.
+ */
+function isDigestRecord(metadata: Record<string, any>): boolean {
+  if (metadata.notifiedViaTelegram === true) {
+    return false;
+  }
+  if (metadata.priority) {
+    return getDeliveryRoute(metadata.priority) === "digest";
+  }
+  return !metadata.decidedBy || metadata.decidedBy === "llm";
+}
+
+/**
+ * Non-urgent notifications processed for the subscriber since `since`. Only
+ * the latest record per thread is kept.
+ */
+export async function collectDigestItems(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  since: number,
+): Promise<DigestItem[]> {
+  const memories = await runtime.getMemories({
+    tableName: "pingpal_github_processed",
+    agentId: runtime.agentId,
+    count: DIGEST_SCAN_COUNT,
+  });
+
+  const latestByThread = new Map<string, DigestItem>();
+  for (const memory of memories) {
+    const metadata = memory.metadata as Record<string, any>;
+    const processedAt = memory.createdAt ?? 0;
+    if (
+      !metadata ||
+      processedAt <= since ||
+      (metadata.subscriberId ?? DEFAULT_SUBSCRIBER_ID) !== subscriber.id ||
+      !isDigestRecord(metadata)
+    ) {
+      continue;
+    }
+
+    const repository = metadata.sourceContext?.repository ?? "unknown";
+    const item: DigestItem = {
+      threadId: metadata.githubNotificationId,
+      repository,
+      reason: metadata.sourceContext?.notificationType ?? "unknown",
+      title: metadata.sourceContext?.subjectTitle ?? "(no title)",
+      analysis: metadata.analysisResult ?? "",
+      webUrl: metadata.webUrl ?? `${getGitHubWebBaseUrl()}/${repository}`,
+      processedAt,
+    };
+
+    const existing = latestByThread.get(item.threadId);
+    if (!existing || existing.processedAt < processedAt) {
+      latestByThread.set(item.threadId, item);
+    }
+  }
+
+  return Array.from(latestByThread.values()).sort(
+    (a, b) => b.processedAt - a.processedAt,
+  );
+}
+
+/**
+ * Renders the digest as MarkdownV2, grouped by repository and then by reason.
+ */
+export function formatDigest(
+  items: DigestItem[],
+  since: number,
+  timeZone: string,
+): string {
+  const header = `*📬 PingPal Digest*
+_${escapeMarkdownV2(
+    `${items.length} non-urgent notification${items.length === 1 ? "" : "s"} since ${formatDateTime(new Date(since), timeZone)}`,
+  )}_`;
+
+  const byRepository = new Map<string, Map<string, DigestItem[]>>();
+  for (const item of items) {
+    const byReason =
+      byRepository.get(item.repository) ?? new Map<string, DigestItem[]>();
+    byReason.set(item.reason, [...(byReason.get(item.reason) ?? []), item]);
+    byRepository.set(item.repository, byReason);
+  }
+
+  const sections: string[] = [];
+  let length = header.length;
+  let included = 0;
+
+  outer: for (const [repository, byReason] of Array.from(
+    byRepository.entries(),
+  ).sort((a, b) => a[0].localeCompare(b[0]))) {
+    const count = Array.from(byReason.values()).reduce(
+      (total, group) => total + group.length,
+      0,
+    );
+    const lines = [`*${escapeMarkdownV2(repository)}* \\(${count}\\)`];
+
+    for (const [reason, group] of byReason) {
+      lines.push(`_${escapeMarkdownV2(reason)}_ \\(${group.length}\\)`);
+      for (const item of group) {
+        const line = `• [${escapeMarkdownV2(item.title)}](${escapeMarkdownV2Url(item.webUrl)})${
+          item.analysis ? `: ${escapeMarkdownV2(item.analysis)}` : ""
+        }`;
+        if (length + line.length + 1 > MAX_DIGEST_LENGTH) {
+          sections.push(lines.join("\n"));
+          break outer;
+        }
+        lines.push(line);
+        length += line.length + 1;
+        included++;
+      }
+    }
+
+    sections.push(lines.join("\n"));
+  }
+
+  const more =
+    included < items.length
+      ? `\n\n_${escapeMarkdownV2(`…and ${items.length - included} more`)}_`
+      : "";
+
+  return `${header}\n\n${sections.join("\n\n")}${more}`;
+}
+
+/**
+ * Sends the subscriber's digest of everything since the previous one.
+ * Nothing is sent when there are no items. Used by the scheduler and for
+ * on-demand digests.
+ */
+export async function sendDigest(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): Promise<{ sent: boolean; count: number }> {
+  const cacheKey = `${DIGEST_STATE_CACHE_PREFIX}${subscriber.id}`;
+  const settings = getDigestSettings(subscriber);
+  const state = await runtime.getCache<DigestState>(cacheKey);
+  const since = state?.lastSentAt ?? 0;
+  const now = Date.now();
+
+  if (!subscriber.telegramChatId) {
+    throw new Error(
+      `Subscriber '${subscriber.id}' has no telegramChatId for digests`,
+    );
+  }
+
+  const items = await collectDigestItems(runtime, subscriber, since);
+  if (items.length > 0) {
+    const bot = getTelegramBot(runtime);
+    if (!bot?.telegram?.sendMessage) {
+      throw new Error(
+        "Telegram service bot.telegram.sendMessage not available",
+      );
+    }
+
+    await bot.telegram.sendMessage(
+      subscriber.telegramChatId,
+      formatDigest(
+        items,
+        since || items[items.length - 1].processedAt,
+        settings.timeZone,
+      ),
+      { parse_mode: "MarkdownV2", disable_web_page_preview: true },
+    );
+  }
+
+  await runtime.setCache<DigestState>(cacheKey, {
+    lastOccurrenceKey: state?.lastOccurrenceKey,
+    lastSentAt: now,
+  });
+
+  logger.info(
+    { subscriberId: subscriber.id, count: items.length },
+    "[PingPal GitHub] Digest processed",
+  );
+
+  return { sent: items.length > 0, count: items.length };
+}
+
+/**
+ * Sends digests whose scheduled time has passed since they were last sent.
+ * The first check for a subscriber only records the current occurrence, so
+ * enabling digests doesn't dump the whole history.
+ */
+export async function processDueDigests(runtime: IAgentRuntime): Promise<void> {
+  const now = new Date();
+
+  for (const subscriber of loadSubscribers()) {
+    const settings = getDigestSettings(subscriber);
+    // Digests are only sent to Telegram
+    if (settings.schedule === "off" || !subscriber.telegramChatId) {
+      continue;
+    }
+
+    const cacheKey = `${DIGEST_STATE_CACHE_PREFIX}${subscriber.id}`;
+    const occurrenceKey = getLatestOccurrenceKey(settings, now);
+    const state = await runtime.getCache<DigestState>(cacheKey);
+
+    if (!state) {
+      await runtime.setCache<DigestState>(cacheKey, {
+        lastOccurrenceKey: occurrenceKey,
+        lastSentAt: now.getTime(),
+      });
+      continue;
+    }
+    if (state.lastOccurrenceKey === occurrenceKey) {
+      continue;
+    }
+
+    try {
+      await sendDigest(runtime, subscriber);
+      const updated = await runtime.getCache<DigestState>(cacheKey);
+      await runtime.setCache<DigestState>(cacheKey, {
+        lastSentAt: updated?.lastSentAt ?? now.getTime(),
+        lastOccurrenceKey: occurrenceKey,
+      });
+    } catch (error) {
+      logger.error(
+        { error, subscriberId: subscriber.id },
+        "[PingPal GitHub] Failed to send scheduled digest",
+      );
+    }
+  }
+}
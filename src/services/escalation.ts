@@ -0,0 +1,252 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { loadSubscribers, type Subscriber } from "../subscribers";
+import { createGitHubService, getGitHubAuthProvider } from "../auth";
+import type { ChannelAlert } from "../channels/types";
+import { escapeMarkdownV2, escapeMarkdownV2Url } from "../utils/markdown";
+import { getTelegramBot } from "../utils/telegram";
+import { parseDuration } from "../utils/time";
+
+const ESCALATIONS_CACHE_KEY = "pingpal_github_escalations";
+const DEFAULT_ESCALATION_AFTER = "30m";
+// Escalations that could not be sent for this long are dropped
+const MAX_ESCALATION_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface EscalationSettings {
+  telegramChatId: string;
+  afterMs: number;
+}
+
+/**
+ * A critical alert that goes to the escalation contact unless the
+ * subscriber reacts to it in time.
+ */
+interface PendingEscalation {
+  alertId: string;
+  subscriberId: string;
+  threadId: string;
+  repository: string;
+  title: string;
+  reason: string;
+  link: string;
+  sentAt: number;
+  dueAt: number;
+}
+
+// Serializes read-modify-write of the pending escalations within this process
+let escalationUpdates: Promise<unknown> = Promise.resolve();
+
+function updateEscalations(
+  runtime: IAgentRuntime,
+  update: (escalations: PendingEscalation[]) => PendingEscalation[],
+): Promise<void> {
+  const run = escalationUpdates.then(async () => {
+    const escalations =
+      (await runtime.getCache<PendingEscalation[]>(ESCALATIONS_CACHE_KEY)) ??
+      [];
+    await runtime.setCache<PendingEscalation[]>(
+      ESCALATIONS_CACHE_KEY,
+      update(escalations),
+    );
+  });
+  escalationUpdates = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Escalation settings for a subscriber, with
+ * PINGPAL_ESCALATION_TELEGRAM_USERID and PINGPAL_ESCALATION_AFTER as
+ * defaults. Null when no escalation contact is configured.
+ */
+export function getEscalationSettings(
+  subscriber: Subscriber,
+): EscalationSettings | null {
+  const telegramChatId =
+    subscriber.escalation?.telegramChatId ??
+    process.env.PINGPAL_ESCALATION_TELEGRAM_USERID;
+  if (!telegramChatId) {
+    return null;
+  }
+  const after =
+    subscriber.escalation?.after ??
+    process.env.PINGPAL_ESCALATION_AFTER ??
+    DEFAULT_ESCALATION_AFTER;
+  return {
+    telegramChatId,
+    afterMs: parseDuration(after) ?? parseDuration(DEFAULT_ESCALATION_AFTER)!,
+  };
+}
+
+/**
+ * Starts the escalation clock for a delivered critical alert. A thread
+ * already waiting on an escalation keeps its earlier one.
+ */
+export async function scheduleEscalation(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  alert: ChannelAlert,
+): Promise<void> {
+  const settings = getEscalationSettings(subscriber);
+  if (!settings || alert.priority !== "critical") {
+    return;
+  }
+
+  const now = Date.now();
+  const escalation: PendingEscalation = {
+    alertId: alert.alertId,
+    subscriberId: subscriber.id,
+    threadId: alert.notification.id,
+    repository: alert.notification.repository.full_name,
+    title: alert.notification.subject.title,
+    reason: alert.reason,
+    link: alert.link,
+    sentAt: now,
+    dueAt: now + settings.afterMs,
+  };
+  await updateEscalations(runtime, (escalations) =>
+    escalations.some(
+      (pending) =>
+        pending.subscriberId === escalation.subscriberId &&
+        pending.threadId === escalation.threadId,
+    )
+      ? escalations
+      : [...escalations, escalation],
+  );
+}
+
+/**
+ * Cancels pending escalations for a thread once the subscriber reacted to
+ * one of its alerts.
+ */
+export async function acknowledgeEscalations(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  threadId: string,
+): Promise<void> {
+  await updateEscalations(runtime, (escalations) =>
+    escalations.filter(
+      (pending) =>
+        !(
+          pending.subscriberId === subscriberId && pending.threadId === threadId
+        ),
+    ),
+  );
+}
+
+/**
+ * Reading the thread on GitHub counts as acknowledging its alert. Unknown
+ * when the thread isn't a notification thread or can't be fetched.
+ */
+async function isReadOnGitHub(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  threadId: string,
+): Promise<boolean> {
+  if (
+    threadId.startsWith("webhook-") ||
+    !getGitHubAuthProvider(runtime, subscriber).canReadNotifications
+  ) {
+    return false;
+  }
+  const thread = await createGitHubService(
+    runtime,
+    subscriber,
+  ).getNotificationThread(threadId);
+  return thread?.unread === false;
+}
+
+function formatEscalation(
+  escalation: PendingEscalation,
+  subscriber: Subscriber,
+): string {
+  const minutes = Math.round((Date.now() - escalation.sentAt) / (60 * 1000));
+  return `*🚨 PingPal Escalation: Critical Alert Not Acknowledged*
+
+${escapeMarkdownV2(
+  `${subscriber.githubUsername} has not reacted to this alert for ${minutes} minutes.`,
+)}
+
+*Repository:* ${escapeMarkdownV2(escalation.repository)}
+*Subject:* ${escapeMarkdownV2(escalation.title)}
+*Reason:* ${escapeMarkdownV2(escalation.reason)}
+
+[View on GitHub](${escapeMarkdownV2Url(escalation.link)})`;
+}
+
+/**
+ * Sends due escalations to the escalation contact, unless the subscriber
+ * acknowledged the alert in the meantime: by pressing one of its buttons
+ * (see acknowledgeEscalations) or by reading the thread on GitHub. Failed
+ * sends are retried on the next pass for up to a day.
+ */
+export async function processDueEscalations(
+  runtime: IAgentRuntime,
+): Promise<void> {
+  const escalations =
+    (await runtime.getCache<PendingEscalation[]>(ESCALATIONS_CACHE_KEY)) ?? [];
+  const now = Date.now();
+  const due = escalations.filter((escalation) => escalation.dueAt <= now);
+  if (due.length === 0) {
+    return;
+  }
+  const subscribers = loadSubscribers();
+
+  for (const escalation of due) {
+    const subscriber = subscribers.find(
+      (candidate) => candidate.id === escalation.subscriberId,
+    );
+    const settings = subscriber ? getEscalationSettings(subscriber) : null;
+    const done = () =>
+      updateEscalations(runtime, (current) =>
+        current.filter((pending) => pending.alertId !== escalation.alertId),
+      );
+    if (!subscriber || !settings) {
+      await done();
+      continue;
+    }
+    if (await isReadOnGitHub(runtime, subscriber, escalation.threadId)) {
+      logger.info(
+        { alertId: escalation.alertId, subscriberId: subscriber.id },
+        "[PingPal GitHub] Critical alert was read on GitHub; not escalating",
+      );
+      await done();
+      continue;
+    }
+
+    try {
+      const bot = getTelegramBot(runtime);
+      if (!bot?.telegram?.sendMessage) {
+        throw new Error(
+          "Telegram service bot.telegram.sendMessage not available",
+        );
+      }
+      await bot.telegram.sendMessage(
+        settings.telegramChatId,
+        formatEscalation(escalation, subscriber),
+        {
+          parse_mode: "MarkdownV2",
+          reply_markup: {
+            inline_keyboard: [[{ text: "🔗 Open", url: escalation.link }]],
+          },
+        },
+      );
+      logger.info(
+        {
+          alertId: escalation.alertId,
+          subscriberId: subscriber.id,
+          chatId: settings.telegramChatId,
+        },
+        "[PingPal GitHub] Escalated unacknowledged critical alert",
+      );
+      await done();
+    } catch (error) {
+      logger.error(
+        { error, alertId: escalation.alertId, subscriberId: subscriber.id },
+        "[PingPal GitHub] Failed to send escalation",
+      );
+      if (escalation.sentAt + MAX_ESCALATION_AGE_MS <= now) {
+        await done();
+      }
+    }
+  }
+}
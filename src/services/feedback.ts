@@ -0,0 +1,152 @@
+import type { IAgentRuntime, Memory, MemoryMetadata } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { getProcessedRecords } from "./processedRecords";
+import { isPriority, type Priority } from "../priority";
+
+const DEFAULT_FEEDBACK_EXAMPLES = 10;
+
+/**
+ * What the user said about a classification: an alert was useful or noise,
+ * or a notification that didn't alert should have.
+ */
+export type FeedbackRating = "useful" | "noise" | "missed";
+
+/**
+ * Stored as `feedback` on the processed record it rates.
+ */
+export interface AlertFeedback {
+  rating: FeedbackRating;
+  at: number;
+}
+
+/**
+ * Feedback counts for one group of records. Precision is the share of rated
+ * alerts that were useful; null before any alert was rated.
+ */
+export interface FeedbackStats {
+  useful: number;
+  noise: number;
+  missed: number;
+  precision: number | null;
+}
+
+export interface FeedbackReport {
+  overall: FeedbackStats;
+  byRepository: Record<string, FeedbackStats>;
+  byReason: Record<string, FeedbackStats>;
+}
+
+function getFeedback(memory: Memory): AlertFeedback | null {
+  const feedback = (memory.metadata as Record<string, any>)?.feedback;
+  return feedback && typeof feedback.rating === "string" ? feedback : null;
+}
+
+/**
+ * Stores the rating on the processed record, replacing an earlier one.
+ */
+export async function recordFeedback(
+  runtime: IAgentRuntime,
+  memory: Memory,
+  rating: FeedbackRating,
+): Promise<void> {
+  const feedback: AlertFeedback = { rating, at: Date.now() };
+  await runtime.updateMemory({
+    id: memory.id!,
+    metadata: { ...memory.metadata, feedback } as MemoryMetadata,
+  });
+  logger.info(
+    {
+      notificationId: (memory.metadata as Record<string, any>)
+        .githubNotificationId,
+      rating,
+    },
+    "[PingPal GitHub] Recorded feedback",
+  );
+}
+
+/**
+ * How many rated records are shown to the LLM, from
+ * PINGPAL_FEEDBACK_EXAMPLES; 0 turns the examples off.
+ */
+function getFeedbackExampleCount(): number {
+  const value = Number(process.env.PINGPAL_FEEDBACK_EXAMPLES);
+  return process.env.PINGPAL_FEEDBACK_EXAMPLES !== undefined &&
+    Number.isInteger(value) &&
+    value >= 0
+    ? value
+    : DEFAULT_FEEDBACK_EXAMPLES;
+}
+
+function describeFeedback(metadata: Record<string, any>): string {
+  const source = metadata.sourceContext ?? {};
+  const priority: Priority | null = isPriority(metadata.priority)
+    ? metadata.priority
+    : null;
+  const subject = `[${source.repository ?? "unknown"}] ${source.notificationType ?? "unknown"} on ${source.subjectType ?? "unknown"} "${source.subjectTitle ?? metadata.githubNotificationId}"`;
+  switch ((metadata.feedback as AlertFeedback).rating) {
+    case "useful":
+      return `${subject}: rated ${priority ?? "high"} and alerted; the user found the alert useful.`;
+    case "noise":
+      return `${subject}: rated ${priority ?? "high"} and alerted; the user found the alert was noise and would have preferred no alert.`;
+    case "missed":
+      return `${subject}: rated ${priority ?? "normal"} without an alert; the user missed it and wanted an alert.`;
+  }
+}
+
+/**
+ * The subscriber's most recently rated notifications, as prompt lines, so
+ * the LLM learns what this person does and doesn't want to be alerted
+ * about. Empty when nothing was rated yet.
+ */
+export async function getFeedbackExamples(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+): Promise<string[]> {
+  const count = getFeedbackExampleCount();
+  if (count === 0) {
+    return [];
+  }
+  const records = await getProcessedRecords(runtime, subscriberId);
+  return records
+    .filter((memory) => getFeedback(memory) !== null)
+    .sort((a, b) => getFeedback(b)!.at - getFeedback(a)!.at)
+    .slice(0, count)
+    .map((memory) => describeFeedback(memory.metadata as Record<string, any>));
+}
+
+function emptyStats(): FeedbackStats {
+  return { useful: 0, noise: 0, missed: 0, precision: null };
+}
+
+function addRating(stats: FeedbackStats, rating: FeedbackRating): void {
+  stats[rating] += 1;
+  const rated = stats.useful + stats.noise;
+  stats.precision = rated > 0 ? stats.useful / rated : null;
+}
+
+/**
+ * Feedback counts and alert precision overall, per repository and per
+ * notification reason.
+ */
+export function getFeedbackReport(records: Memory[]): FeedbackReport {
+  const report: FeedbackReport = {
+    overall: emptyStats(),
+    byRepository: {},
+    byReason: {},
+  };
+  for (const memory of records) {
+    const feedback = getFeedback(memory);
+    if (!feedback) {
+      continue;
+    }
+    const source = (memory.metadata as Record<string, any>).sourceContext ?? {};
+    const repository: string = source.repository ?? "unknown";
+    const reason: string = source.notificationType ?? "unknown";
+    report.byRepository[repository] ??= emptyStats();
+    report.byReason[reason] ??= emptyStats();
+    addRating(report.overall, feedback.rating);
+    addRating(report.byRepository[repository], feedback.rating);
+    addRating(report.byReason[reason], feedback.rating);
+  }
+  return report;
+}
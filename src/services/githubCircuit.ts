@@ -0,0 +1,228 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import {
+  GitHubAuthError,
+  GitHubPermissionError,
+  GitHubRateLimitError,
+} from "./githubErrors";
+import { getGitHubAuthConfig, getGitHubAuthProvider } from "../auth";
+import type { Subscriber } from "../subscribers";
+import { escapeMarkdownV2 } from "../utils/markdown";
+import { getTelegramBot } from "../utils/telegram";
+
+const CIRCUIT_CACHE_PREFIX = "pingpal_github_circuit_";
+// Consecutive failures (other than auth and rate limits) before polling pauses
+const FAILURE_THRESHOLD = 3;
+const BASE_OPEN_MS = 60 * 1000;
+const MAX_OPEN_MS = 30 * 60 * 1000;
+// A rejected token won't fix itself; check again now and then in case it was
+// re-authorized on GitHub's side
+const AUTH_OPEN_MS = 15 * 60 * 1000;
+
+export type CircuitFailureKind = "auth" | "permission" | "rate_limit" | "error";
+
+/**
+ * Health of a subscriber's GitHub access. While `openUntil` is in the
+ * future, polling for the subscriber is paused.
+ */
+export interface CircuitState {
+  /** Identifies the token the state is about, so a new token starts fresh. */
+  tokenFingerprint: string;
+  consecutiveFailures: number;
+  openUntil: number | null;
+  lastFailureKind: CircuitFailureKind | null;
+  lastError: string | null;
+  /** When the user was told about a rejected token; they are told once. */
+  accessAlertSentAt: number | null;
+}
+
+function getTokenFingerprint(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): string {
+  return getGitHubAuthProvider(runtime, subscriber).fingerprint;
+}
+
+/**
+ * The circuit state for the subscriber's current token, or null when the
+ * last GitHub call succeeded.
+ */
+export async function getCircuitState(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): Promise<CircuitState | null> {
+  const state = await runtime.getCache<CircuitState>(
+    `${CIRCUIT_CACHE_PREFIX}${subscriber.id}`,
+  );
+  return state?.tokenFingerprint === getTokenFingerprint(runtime, subscriber)
+    ? state
+    : null;
+}
+
+/**
+ * End of the polling pause in epoch milliseconds, or null when GitHub may
+ * be called.
+ */
+export async function getCircuitOpenUntil(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): Promise<number | null> {
+  const state = await getCircuitState(runtime, subscriber);
+  return state?.openUntil && state.openUntil > Date.now()
+    ? state.openUntil
+    : null;
+}
+
+export async function recordGitHubSuccess(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+): Promise<void> {
+  if (await getCircuitState(runtime, subscriber)) {
+    logger.info(
+      { subscriberId: subscriber.id },
+      "[PingPal GitHub] GitHub access recovered",
+    );
+    await runtime.deleteCache(`${CIRCUIT_CACHE_PREFIX}${subscriber.id}`);
+  }
+}
+
+function getFailureKind(error: unknown): CircuitFailureKind {
+  if (error instanceof GitHubAuthError) {
+    return "auth";
+  }
+  if (error instanceof GitHubPermissionError) {
+    return "permission";
+  }
+  if (error instanceof GitHubRateLimitError) {
+    return "rate_limit";
+  }
+  return "error";
+}
+
+function getOpenDurationMs(
+  kind: CircuitFailureKind,
+  consecutiveFailures: number,
+  error: unknown,
+): number | null {
+  switch (kind) {
+    case "auth":
+    case "permission":
+      return AUTH_OPEN_MS;
+    case "rate_limit":
+      return (error as GitHubRateLimitError).retryAfterMs ?? BASE_OPEN_MS;
+    case "error":
+      return consecutiveFailures >= FAILURE_THRESHOLD
+        ? Math.min(
+            BASE_OPEN_MS * 2 ** (consecutiveFailures - FAILURE_THRESHOLD),
+            MAX_OPEN_MS,
+          )
+        : null;
+  }
+}
+
+function getAccessFix(subscriber: Subscriber): string {
+  switch (getGitHubAuthConfig(subscriber).type) {
+    case "pat":
+    case "fine_grained_pat":
+      return "Create a new token, update GITHUB_ACCESS_TOKEN (or the subscriber's githubToken) and restart the agent.";
+    case "oauth_device":
+      return "Send /connect to authorize PingPal again.";
+    case "github_app":
+      return "Check that the GitHub App is still installed and that its private key is current.";
+  }
+}
+
+/**
+ * Tells the subscriber on Telegram that GitHub rejected their token, so they
+ * don't have to find out from the logs.
+ */
+async function sendAccessAlert(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  kind: "auth" | "permission",
+  error: unknown,
+): Promise<boolean> {
+  const bot = getTelegramBot(runtime);
+  if (!subscriber.telegramChatId || !bot?.telegram?.sendMessage) {
+    logger.warn(
+      { subscriberId: subscriber.id },
+      "[PingPal GitHub] Cannot tell the subscriber about the rejected GitHub token: Telegram not available",
+    );
+    return false;
+  }
+
+  const explanation =
+    kind === "auth"
+      ? `GitHub rejected the access token for ${subscriber.githubUsername}: it has expired or was revoked.`
+      : `The access token for ${subscriber.githubUsername} lacks permission to read notifications${
+          error instanceof GitHubPermissionError &&
+          error.acceptedScopes.length > 0
+            ? ` (needs the ${error.acceptedScopes.join(", ")} scope)`
+            : ""
+        }.`;
+  await bot.telegram.sendMessage(
+    subscriber.telegramChatId,
+    `*⚠️ PingPal can't access GitHub*\n\n${escapeMarkdownV2(
+      `${explanation} Polling is paused until the token works again. ${getAccessFix(subscriber)}`,
+    )}`,
+    { parse_mode: "MarkdownV2" },
+  );
+  return true;
+}
+
+/**
+ * Records a failed GitHub call and decides whether polling pauses: right
+ * away for a rejected token (with a one-time alert) or a rate limit, and
+ * with growing pauses after repeated other failures.
+ */
+export async function recordGitHubFailure(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  error: unknown,
+): Promise<CircuitState> {
+  const previous = await getCircuitState(runtime, subscriber);
+  const kind = getFailureKind(error);
+  const consecutiveFailures = (previous?.consecutiveFailures ?? 0) + 1;
+  const openMs = getOpenDurationMs(kind, consecutiveFailures, error);
+
+  const state: CircuitState = {
+    tokenFingerprint: getTokenFingerprint(runtime, subscriber),
+    consecutiveFailures,
+    openUntil: openMs !== null ? Date.now() + openMs : null,
+    lastFailureKind: kind,
+    lastError: error instanceof Error ? error.message : String(error),
+    accessAlertSentAt: previous?.accessAlertSentAt ?? null,
+  };
+
+  if ((kind === "auth" || kind === "permission") && !state.accessAlertSentAt) {
+    try {
+      if (await sendAccessAlert(runtime, subscriber, kind, error)) {
+        state.accessAlertSentAt = Date.now();
+      }
+    } catch (alertError) {
+      logger.error(
+        { error: alertError, subscriberId: subscriber.id },
+        "[PingPal GitHub] Failed to send GitHub token alert",
+      );
+    }
+  }
+
+  await runtime.setCache<CircuitState>(
+    `${CIRCUIT_CACHE_PREFIX}${subscriber.id}`,
+    state,
+  );
+
+  if (state.openUntil) {
+    logger.warn(
+      {
+        subscriberId: subscriber.id,
+        kind,
+        consecutiveFailures,
+        openUntil: new Date(state.openUntil).toISOString(),
+        error: state.lastError,
+      },
+      "[PingPal GitHub] Pausing GitHub polling",
+    );
+  }
+  return state;
+}
@@ -0,0 +1,152 @@
+// Wait used for a secondary rate limit when GitHub sends no Retry-After
+const DEFAULT_SECONDARY_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+/**
+ * A non-OK response from the GitHub API. The subclasses tell apart the
+ * failures PingPal reacts to differently.
+ */
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** How long to wait before calling GitHub again, when known. */
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+/**
+ * 401: the token expired or was revoked. Retrying won't help until the user
+ * replaces it.
+ */
+export class GitHubAuthError extends GitHubApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "GitHubAuthError";
+  }
+}
+
+/**
+ * 403 that isn't a rate limit: the token lacks a scope (e.g.
+ * `notifications`) or access to the resource.
+ */
+export class GitHubPermissionError extends GitHubApiError {
+  constructor(
+    message: string,
+    status: number,
+    /** Scopes the endpoint accepts, from `X-Accepted-OAuth-Scopes`. */
+    readonly acceptedScopes: string[],
+  ) {
+    super(message, status);
+    this.name = "GitHubPermissionError";
+  }
+}
+
+/**
+ * The primary rate limit is used up, or GitHub applied a secondary
+ * (abuse) rate limit.
+ */
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(
+    message: string,
+    status: number,
+    retryAfterMs: number,
+    readonly secondary: boolean,
+  ) {
+    super(message, status, retryAfterMs);
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+/**
+ * 5xx: GitHub is having trouble; worth retrying later.
+ */
+export class GitHubServerError extends GitHubApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "GitHubServerError";
+  }
+}
+
+/**
+ * No response at all: GitHub is unreachable or the connection failed.
+ */
+export class GitHubNetworkError extends GitHubApiError {
+  constructor(message: string) {
+    super(message, 0);
+    this.name = "GitHubNetworkError";
+  }
+}
+
+function parseScopes(header: string | null): string[] {
+  return (header ?? "")
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds the typed error for a non-OK GitHub response, reading GitHub's
+ * error message from the body.
+ */
+export async function createGitHubError(
+  response: Response,
+): Promise<GitHubApiError> {
+  let apiMessage = "";
+  try {
+    const body = (await response.json()) as { message?: unknown };
+    apiMessage = typeof body?.message === "string" ? body.message : "";
+  } catch {
+    // Not every error response has a JSON body
+  }
+  const message = `GitHub API error: ${response.status} ${response.statusText}${
+    apiMessage ? ` (${apiMessage})` : ""
+  }`;
+  const { status } = response;
+
+  if (status === 401) {
+    return new GitHubAuthError(message, status);
+  }
+
+  if (status === 403 || status === 429) {
+    const retryAfterSeconds = Number(response.headers.get("retry-after"));
+    const remaining = response.headers.get("x-ratelimit-remaining");
+    const resetSeconds = Number(response.headers.get("x-ratelimit-reset"));
+
+    if (remaining === "0" && resetSeconds > 0) {
+      return new GitHubRateLimitError(
+        message,
+        status,
+        Math.max(0, resetSeconds * 1000 - Date.now()),
+        false,
+      );
+    }
+    if (
+      status === 429 ||
+      retryAfterSeconds > 0 ||
+      /secondary rate limit|abuse/i.test(apiMessage)
+    ) {
+      return new GitHubRateLimitError(
+        message,
+        status,
+        retryAfterSeconds > 0
+          ? retryAfterSeconds * 1000
+          : DEFAULT_SECONDARY_RATE_LIMIT_WAIT_MS,
+        true,
+      );
+    }
+    return new GitHubPermissionError(
+      message,
+      status,
+      parseScopes(response.headers.get("x-accepted-oauth-scopes")),
+    );
+  }
+
+  if (status >= 500) {
+    return new GitHubServerError(message, status);
+  }
+
+  return new GitHubApiError(message, status);
+}
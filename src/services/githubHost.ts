@@ -0,0 +1,110 @@
+import { readFileSync } from "node:fs";
+import { Agent, ProxyAgent, type Dispatcher } from "undici";
+
+const DEFAULT_API_BASE_URL = "https://api.github.com";
+const DEFAULT_WEB_BASE_URL = "https://github.com";
+
+// Built once: reading the CA file and opening proxy connections per request
+// would be wasteful. Undefined until first use, null when not needed.
+let dispatcher: Dispatcher | null | undefined;
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function parseBaseUrl(name: string, value: string): string {
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`${name} must be an absolute URL, got '${value}'`);
+  }
+  return trimTrailingSlash(value);
+}
+
+/**
+ * REST API base URL: GITHUB_API_URL, e.g. `https://github.example.com/api/v3`
+ * for GitHub Enterprise Server. Defaults to github.com.
+ */
+export function getGitHubApiBaseUrl(): string {
+  const value = process.env.GITHUB_API_URL;
+  return value ? parseBaseUrl("GITHUB_API_URL", value) : DEFAULT_API_BASE_URL;
+}
+
+/**
+ * Web base URL for links and the OAuth device flow: GITHUB_WEB_URL, or
+ * derived from the API base URL (`/api/v3` dropped for GitHub Enterprise
+ * Server, the `api.` host prefix dropped otherwise).
+ */
+export function getGitHubWebBaseUrl(): string {
+  const value = process.env.GITHUB_WEB_URL;
+  if (value) {
+    return parseBaseUrl("GITHUB_WEB_URL", value);
+  }
+
+  const apiBaseUrl = getGitHubApiBaseUrl();
+  if (apiBaseUrl === DEFAULT_API_BASE_URL) {
+    return DEFAULT_WEB_BASE_URL;
+  }
+  if (/\/api\/v3$/.test(apiBaseUrl)) {
+    return apiBaseUrl.replace(/\/api\/v3$/, "");
+  }
+  const url = new URL(apiBaseUrl);
+  url.hostname = url.hostname.replace(/^api\./, "");
+  return trimTrailingSlash(url.toString());
+}
+
+/**
+ * The connection settings for GitHub: a custom CA (GITHUB_CA_CERT_PATH, PEM)
+ * for servers with an internal certificate, and an HTTP(S) proxy
+ * (GITHUB_PROXY_URL). Null when neither is configured.
+ */
+export function getGitHubDispatcher(): Dispatcher | null {
+  if (dispatcher !== undefined) {
+    return dispatcher;
+  }
+
+  const caPath = process.env.GITHUB_CA_CERT_PATH;
+  const proxyUrl = process.env.GITHUB_PROXY_URL;
+  let ca: string | undefined;
+  if (caPath) {
+    try {
+      ca = readFileSync(caPath, "utf8");
+    } catch (error) {
+      throw new Error(
+        `Failed to read GITHUB_CA_CERT_PATH '${caPath}': ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  if (proxyUrl) {
+    parseBaseUrl("GITHUB_PROXY_URL", proxyUrl);
+    dispatcher = new ProxyAgent({
+      uri: proxyUrl,
+      ...(ca ? { requestTls: { ca }, proxyTls: { ca } } : {}),
+    });
+  } else if (ca) {
+    dispatcher = new Agent({ connect: { ca } });
+  } else {
+    dispatcher = null;
+  }
+  return dispatcher;
+}
+
+/**
+ * `fetch` for GitHub API and OAuth calls, honouring the CA and proxy
+ * settings.
+ */
+export function githubFetch(
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const githubDispatcher = getGitHubDispatcher();
+  // Node's fetch takes an undici dispatcher, which the DOM RequestInit type
+  // doesn't know about
+  return fetch(
+    url,
+    githubDispatcher
+      ? ({ ...init, dispatcher: githubDispatcher } as RequestInit)
+      : init,
+  );
+}
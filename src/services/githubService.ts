@@ -1,4 +1,14 @@
 import { logger } from "@elizaos/core";
+import {
+  createGitHubError,
+  GitHubApiError,
+  GitHubAuthError,
+  GitHubNetworkError,
+  GitHubRateLimitError,
+} from "./githubErrors";
+import type { GitHubAuthProvider } from "../auth/types";
+import { getGitHubApiBaseUrl, githubFetch } from "./githubHost";
+import { metrics } from "./metrics";
 
 export interface GitHubNotification {
   id: string;
@@ -21,44 +31,412 @@ export interface GitHubNotification {
   unread: boolean;
 }
 
+export interface GitHubComment {
+  id: number;
+  author: string | null;
+  body: string;
+  /** Links to the comment itself (`#issuecomment-…` and similar anchors). */
+  htmlUrl: string | null;
+  createdAt: string | null;
+}
+
+export interface GitHubReview {
+  id: number;
+  author: string | null;
+  /** APPROVED, CHANGES_REQUESTED, COMMENTED or DISMISSED. */
+  state: string;
+  body: string;
+  /** Links to the review (`#pullrequestreview-…`). */
+  htmlUrl: string | null;
+  submittedAt: string | null;
+}
+
+export interface GitHubPullRequestStats {
+  changedFiles: number;
+  additions: number;
+  deletions: number;
+  files: { filename: string; additions: number; deletions: number }[];
+}
+
+/**
+ * Content of the issue/PR a notification points to, used to give the LLM
+ * something more than the subject title to judge urgency from.
+ */
+export interface GitHubThreadContext {
+  author: string | null;
+  body: string | null;
+  state: string | null;
+  labels: string[];
+  htmlUrl: string | null;
+  latestComment: GitHubComment | null;
+  /** Latest submitted review of a PR, unless that is the latest comment. */
+  latestReview: GitHubReview | null;
+  pullRequest: GitHubPullRequestStats | null;
+}
+
+/**
+ * A failed job of a workflow run.
+ */
+export interface GitHubFailedJob {
+  id: number;
+  name: string;
+  htmlUrl: string | null;
+  failedSteps: string[];
+  /** Last lines of the job log without timestamps; null if unavailable. */
+  logTail: string | null;
+}
+
+/**
+ * The workflow run behind a CI notification, with the pull request it ran
+ * for. `jobs` lists the failed jobs; it is empty for runs that didn't fail.
+ */
+export interface GitHubCiRun {
+  runId: number;
+  /** The check suite the run belongs to, which webhook events link. */
+  checkSuiteId: number | null;
+  workflowName: string;
+  /** success, failure, timed_out, cancelled, action_required, … */
+  conclusion: string | null;
+  htmlUrl: string;
+  headBranch: string | null;
+  pullRequest: {
+    number: number;
+    title: string;
+    author: string | null;
+    htmlUrl: string;
+  } | null;
+  jobs: GitHubFailedJob[];
+}
+
+/**
+ * A review request or an assignment that waits on the user.
+ */
+export type GitHubOpenRequestKind = "review" | "assignment";
+
+/**
+ * Where a review request or assignment stands: still waiting on the user,
+ * or why it no longer is.
+ */
+export type GitHubOpenRequestStatus =
+  | "pending"
+  | "reviewed"
+  | "merged"
+  | "closed"
+  | "removed";
+
+// Number of changed files listed for a PR; the totals cover the rest
+const MAX_PR_FILES = 30;
+// Reviews fetched for a PR; the latest one is used
+const MAX_PR_REVIEWS = 100;
+
+// Conclusions of runs and jobs that count as failed
+const FAILED_CONCLUSIONS = ["failure", "timed_out", "startup_failure"];
+// Failed jobs whose logs are downloaded; the rest are listed by name only
+const MAX_FAILED_JOB_LOGS = 3;
+// Recent runs searched for the one a CI notification is about
+const MAX_CANDIDATE_RUNS = 20;
+// Runs finish slightly before GitHub sends the notification
+const RUN_MATCH_SLACK_MS = 5 * 60 * 1000;
+// Upper bound on a log tail, whatever the line count
+const MAX_LOG_TAIL_CHARS = 6000;
+
+// Upper bound on Link pagination per poll, so one poll can't exhaust the rate limit
+const MAX_NOTIFICATION_PAGES = 10;
+const NOTIFICATIONS_PER_PAGE = 50;
+
+export interface GetNotificationsOptions {
+  /** ISO timestamp; only notifications updated after it are returned. */
+  since?: string;
+  /** ISO timestamp; only notifications updated before it are returned. */
+  before?: string;
+  /** `Last-Modified` value from the previous poll, sent as `If-Modified-Since`. */
+  lastModified?: string;
+  /** Only return unread notifications (GitHub's default) instead of all. */
+  unreadOnly?: boolean;
+  /** Follow pagination even without `since`, up to MAX_NOTIFICATION_PAGES. */
+  allPages?: boolean;
+}
+
+export interface GitHubNotificationsResult {
+  notifications: GitHubNotification[];
+  /** True when GitHub answered 304: nothing changed since `lastModified`. */
+  notModified: boolean;
+  lastModified: string | null;
+  /** Minimum seconds between polls requested via `X-Poll-Interval`. */
+  pollIntervalSeconds: number | null;
+  /**
+   * True when pagination stopped at MAX_NOTIFICATION_PAGES: notifications
+   * older than the oldest one returned were not fetched.
+   */
+  truncated: boolean;
+}
+
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the limit resets. */
+  resetAt: number;
+}
+
+// Rate limit and backoff per credentials (keyed by the auth provider's
+// fingerprint), from the headers of the latest responses. Services are
+// created per call, so this lives at module level.
+const rateLimitsByCredentials = new Map<string, GitHubRateLimit>();
+const backoffUntilByCredentials = new Map<string, number>();
+
+/**
+ * "CI workflow run failed for main branch" -> workflow "CI", branch "main",
+ * the title GitHub gives CI notifications.
+ */
+function parseCiTitle(title: string): {
+  workflowName: string | null;
+  branch: string | null;
+} {
+  const match = title.match(/^(.+?) workflow run \w+ for (.+) branch$/i);
+  return match
+    ? { workflowName: match[1], branch: match[2] }
+    : { workflowName: null, branch: null };
+}
+
+/**
+ * The last lines of a job log, without the timestamp GitHub puts in front
+ * of every line and without terminal colour codes.
+ */
+function getLogTail(log: string, lines: number): string {
+  const tail = log
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?/, "")
+        .replace(/\x1b\[[0-9;]*m/g, "")
+        .trimEnd(),
+    )
+    .filter((line) => line.length > 0)
+    .slice(-lines)
+    .join("\n");
+  return tail.length > MAX_LOG_TAIL_CHARS
+    ? tail.slice(-MAX_LOG_TAIL_CHARS)
+    : tail;
+}
+
+/**
+ * Extracts the `rel="next"` URL from a GitHub `Link` header.
+ */
+function getNextPageUrl(linkHeader: string | null): string | null {
+  if (!linkHeader) {
+    return null;
+  }
+  const match = linkHeader
+    .split(",")
+    .map((part) => part.match(/<([^>]+)>;\s*rel="next"/))
+    .find((result) => result !== null);
+  return match ? match[1] : null;
+}
+
 export class GitHubService {
-  private accessToken: string;
-  private baseUrl = "https://api.github.com";
+  private auth: GitHubAuthProvider;
+  private baseUrl = getGitHubApiBaseUrl();
 
-  constructor(accessToken: string) {
-    this.accessToken = accessToken;
+  /**
+   * Takes the auth provider that supplies (and refreshes) the token; see
+   * `createGitHubService` in src/auth.
+   */
+  constructor(auth: GitHubAuthProvider) {
+    this.auth = auth;
   }
 
-  async getNotifications(): Promise<GitHubNotification[]> {
+  /**
+   * Whether the credentials can read the notification inbox at all.
+   */
+  get canReadNotifications(): boolean {
+    return this.auth.canReadNotifications;
+  }
+
+  private async getHeaders(): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${await this.auth.getToken()}`,
+      Accept: "application/vnd.github+json",
+      "User-Agent": "PingPal-GitHub-Monitor",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+  }
+
+  /**
+   * Calls the GitHub API, tracking `X-RateLimit-*` headers and the latency
+   * (see metrics.ts). Throws a typed error (see githubErrors.ts) for non-OK
+   * responses other than 304, and refuses to call GitHub at all while a rate
+   * limit is in effect.
+   */
+  private async request(
+    url: string,
+    init: RequestInit = {},
+  ): Promise<Response> {
+    const backoffUntil =
+      backoffUntilByCredentials.get(this.auth.fingerprint) ?? 0;
+    if (backoffUntil > Date.now()) {
+      throw new GitHubRateLimitError(
+        "GitHub API rate limited; waiting before the next request",
+        429,
+        backoffUntil - Date.now(),
+        false,
+      );
+    }
+
+    const headers = {
+      ...(await this.getHeaders()),
+      ...(init.headers as Record<string, string>),
+    };
+    const method = init.method ?? "GET";
+    const startedAt = Date.now();
+    let response: Response;
     try {
-      // Get last 20 notifications (both read and unread)
-      const params = new URLSearchParams({
-        all: 'true',        // Include read notifications
-        per_page: '20'      // Limit to 20 notifications
+      response = await githubFetch(url, { ...init, headers });
+    } catch (error) {
+      metrics.githubRequestDuration.observe(
+        { method, status: "error" },
+        (Date.now() - startedAt) / 1000,
+      );
+      throw new GitHubNetworkError(
+        `GitHub API request failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    metrics.githubRequestDuration.observe(
+      { method, status: String(response.status) },
+      (Date.now() - startedAt) / 1000,
+    );
+
+    const limit = response.headers.get("x-ratelimit-limit");
+    const remaining = response.headers.get("x-ratelimit-remaining");
+    const reset = response.headers.get("x-ratelimit-reset");
+    if (limit && remaining && reset) {
+      rateLimitsByCredentials.set(this.auth.fingerprint, {
+        limit: Number(limit),
+        remaining: Number(remaining),
+        resetAt: Number(reset) * 1000,
       });
-      
-      const response = await fetch(`${this.baseUrl}/notifications?${params}`, {
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-          Accept: "application/vnd.github+json",
-          "User-Agent": "PingPal-GitHub-Monitor",
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
+    }
+
+    if (!response.ok && response.status !== 304) {
+      const error = await createGitHubError(response);
+      if (error instanceof GitHubAuthError) {
+        // Expiring tokens are fetched anew on the next call
+        this.auth.invalidate();
+      }
+      if (error instanceof GitHubRateLimitError) {
+        backoffUntilByCredentials.set(
+          this.auth.fingerprint,
+          Date.now() + (error.retryAfterMs ?? 0),
+        );
+        logger.warn(
+          {
+            status: error.status,
+            secondary: error.secondary,
+            retryAfterMs: error.retryAfterMs,
+          },
+          "[PingPal GitHub] GitHub API rate limit hit; backing off",
+        );
+      }
+      throw error;
+    }
+
+    return response;
+  }
+
+  private async getJson<T>(url: string): Promise<T> {
+    const response = await this.request(url);
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Rate limit seen on the latest response for these credentials, without
+   * calling GitHub. Null until a request was made.
+   */
+  getTrackedRateLimit(): GitHubRateLimit | null {
+    return rateLimitsByCredentials.get(this.auth.fingerprint) ?? null;
+  }
+
+  /**
+   * Fetches notifications updated since the previous poll. Sends
+   * `If-Modified-Since` so an unchanged inbox costs a 304 instead of a full
+   * response, and follows `Link` pagination when `since` is known or
+   * `allPages` is set. Otherwise (first poll) only the newest page is fetched.
+   */
+  async getNotifications(
+    options: GetNotificationsOptions = {},
+  ): Promise<GitHubNotificationsResult> {
+    try {
+      const params = new URLSearchParams({
+        all: String(!options.unreadOnly), // Include read notifications unless asked not to
+        per_page: String(NOTIFICATIONS_PER_PAGE),
       });
+      if (options.since) {
+        params.set("since", options.since);
+      }
+      if (options.before) {
+        params.set("before", options.before);
+      }
+
+      const headers: Record<string, string> = {};
+      if (options.lastModified) {
+        headers["If-Modified-Since"] = options.lastModified;
+      }
+
+      const response = await this.request(
+        `${this.baseUrl}/notifications?${params}`,
+        { headers },
+      );
+
+      const pollIntervalHeader = response.headers.get("X-Poll-Interval");
+      const pollIntervalSeconds = pollIntervalHeader
+        ? Number(pollIntervalHeader) || null
+        : null;
 
-      if (!response.ok) {
-        throw new Error(
-          `GitHub API error: ${response.status} ${response.statusText}`,
+      if (response.status === 304) {
+        logger.debug(
+          "[PingPal GitHub] Notifications not modified since last poll",
         );
+        return {
+          notifications: [],
+          notModified: true,
+          lastModified: options.lastModified ?? null,
+          pollIntervalSeconds,
+          truncated: false,
+        };
       }
 
       const notifications: GitHubNotification[] = await response.json();
+
+      let nextUrl =
+        options.since || options.allPages
+          ? getNextPageUrl(response.headers.get("Link"))
+          : null;
+      let pages = 1;
+      while (nextUrl && pages < MAX_NOTIFICATION_PAGES) {
+        const pageResponse = await this.request(nextUrl);
+        notifications.push(...(await pageResponse.json()));
+        nextUrl = getNextPageUrl(pageResponse.headers.get("Link"));
+        pages++;
+      }
+
+      if (nextUrl && options.since) {
+        logger.warn(
+          { pages, count: notifications.length },
+          "[PingPal GitHub] Notification pagination limit reached; older notifications in this window are left for the next poll",
+        );
+      }
+
       logger.debug(
-        { count: notifications.length },
+        { count: notifications.length, pages },
         "[PingPal GitHub] Retrieved notifications from GitHub API",
       );
 
-      return notifications;
+      return {
+        notifications,
+        notModified: false,
+        lastModified: response.headers.get("Last-Modified"),
+        pollIntervalSeconds,
+        truncated: nextUrl !== null,
+      };
     } catch (error) {
       logger.error(
         { error },
@@ -68,22 +446,445 @@ export class GitHubService {
     }
   }
 
-  async markNotificationAsRead(notificationId: string): Promise<void> {
+  /**
+   * Core API rate limit for the token. Querying it doesn't count against the
+   * limit. Returns null if GitHub couldn't be reached.
+   */
+  async getRateLimit(): Promise<GitHubRateLimit | null> {
     try {
-      await fetch(`${this.baseUrl}/notifications/threads/${notificationId}`, {
-        method: "PATCH",
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-          Accept: "application/vnd.github+json",
-          "User-Agent": "PingPal-GitHub-Monitor",
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
-      });
+      const data = await this.getJson<{
+        resources: {
+          core: { limit: number; remaining: number; reset: number };
+        };
+      }>(`${this.baseUrl}/rate_limit`);
+      return {
+        limit: data.resources.core.limit,
+        remaining: data.resources.core.remaining,
+        resetAt: data.resources.core.reset * 1000,
+      };
+    } catch (error) {
+      logger.warn({ error }, "[PingPal GitHub] Failed to fetch rate limit");
+      return null;
+    }
+  }
+
+  /**
+   * Marks a notification thread as read. Returns false (and logs) if the
+   * request failed or GitHub rejected it.
+   */
+  async markNotificationAsRead(notificationId: string): Promise<boolean> {
+    try {
+      await this.request(
+        `${this.baseUrl}/notifications/threads/${notificationId}`,
+        { method: "PATCH" },
+      );
+      return true;
     } catch (error) {
       logger.warn(
         { error, notificationId },
         "[PingPal GitHub] Failed to mark notification as read",
       );
+      return false;
+    }
+  }
+
+  /**
+   * Unsubscribes from a notification thread so GitHub stops notifying about
+   * it. Returns false (and logs) if the request failed or GitHub rejected it.
+   */
+  async muteThread(notificationId: string): Promise<boolean> {
+    try {
+      await this.request(
+        `${this.baseUrl}/notifications/threads/${notificationId}/subscription`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ignored: true }),
+        },
+      );
+      return true;
+    } catch (error) {
+      logger.warn(
+        { error, notificationId },
+        "[PingPal GitHub] Failed to mute notification thread",
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Fetches the issue/PR body, labels, author, latest comment and (for PRs)
+   * latest review and changed-file stats behind a notification. Subjects
+   * without an API URL (e.g. some CheckSuite notifications) yield null.
+   */
+  async getThreadContext(
+    notification: GitHubNotification,
+  ): Promise<GitHubThreadContext | null> {
+    const subjectUrl = notification.subject.url;
+    if (!subjectUrl) {
+      return null;
+    }
+
+    try {
+      const subject = await this.getJson<any>(subjectUrl);
+
+      let latestComment: GitHubComment | null = null;
+      const commentUrl = notification.subject.latest_comment_url;
+      // When a thread has no comments GitHub points latest_comment_url at the subject itself
+      if (commentUrl && commentUrl !== subjectUrl) {
+        try {
+          const comment = await this.getJson<any>(commentUrl);
+          latestComment = {
+            id: comment.id,
+            author: comment.user?.login ?? null,
+            body: comment.body ?? "",
+            htmlUrl: comment.html_url ?? null,
+            // Webhook review events point latest_comment_url at the review
+            createdAt: comment.created_at ?? comment.submitted_at ?? null,
+          };
+        } catch (error) {
+          logger.warn(
+            { error, notificationId: notification.id },
+            "[PingPal GitHub] Failed to fetch latest comment",
+          );
+        }
+      }
+
+      // Reviews without a comment don't show up in latest_comment_url
+      let latestReview: GitHubReview | null = null;
+      if (
+        notification.subject.type === "PullRequest" &&
+        !commentUrl?.includes("/reviews/")
+      ) {
+        const reviews = await this.getJson<any[]>(
+          `${subjectUrl}/reviews?per_page=${MAX_PR_REVIEWS}`,
+        ).catch((error) => {
+          logger.warn(
+            { error, notificationId: notification.id },
+            "[PingPal GitHub] Failed to fetch pull request reviews",
+          );
+          return [];
+        });
+        const review = reviews
+          .filter((candidate) => candidate.state !== "PENDING")
+          .at(-1);
+        if (review) {
+          latestReview = {
+            id: review.id,
+            author: review.user?.login ?? null,
+            state: review.state,
+            body: review.body ?? "",
+            htmlUrl: review.html_url ?? null,
+            submittedAt: review.submitted_at ?? null,
+          };
+        }
+      }
+
+      let pullRequest: GitHubPullRequestStats | null = null;
+      if (notification.subject.type === "PullRequest") {
+        const files = await this.getJson<any[]>(
+          `${subjectUrl}/files?per_page=${MAX_PR_FILES}`,
+        ).catch((error) => {
+          logger.warn(
+            { error, notificationId: notification.id },
+            "[PingPal GitHub] Failed to fetch pull request files",
+          );
+          return [];
+        });
+        pullRequest = {
+          changedFiles: subject.changed_files ?? files.length,
+          additions: subject.additions ?? 0,
+          deletions: subject.deletions ?? 0,
+          files: files.map((file) => ({
+            filename: file.filename,
+            additions: file.additions ?? 0,
+            deletions: file.deletions ?? 0,
+          })),
+        };
+      }
+
+      return {
+        author: subject.user?.login ?? subject.author?.login ?? null,
+        body: subject.body ?? null,
+        state: subject.state ?? null,
+        labels: Array.isArray(subject.labels)
+          ? subject.labels.map((label: any) =>
+              typeof label === "string" ? label : label.name,
+            )
+          : [],
+        htmlUrl: subject.html_url ?? null,
+        latestComment,
+        latestReview,
+        pullRequest,
+      };
+    } catch (error) {
+      logger.warn(
+        { error, notificationId: notification.id },
+        "[PingPal GitHub] Failed to fetch notification thread context",
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Finds the workflow run a CI notification is about: directly from a run
+   * or check-suite URL (webhook events), else the latest completed run
+   * matching the workflow and branch in the title, or triggered by
+   * `username`, up to the notification's time.
+   */
+  private async findWorkflowRun(
+    notification: GitHubNotification,
+    username: string,
+  ): Promise<any | null> {
+    const repoUrl = `${this.baseUrl}/repos/${notification.repository.full_name}`;
+    for (const url of [notification.subject.url, notification.url]) {
+      const runId = url?.match(/\/actions\/runs\/(\d+)$/)?.[1];
+      if (runId) {
+        return this.getJson<any>(`${repoUrl}/actions/runs/${runId}`);
+      }
+      const checkSuiteId = url?.match(/\/check-suites\/(\d+)$/)?.[1];
+      if (checkSuiteId) {
+        const data = await this.getJson<{ workflow_runs: any[] }>(
+          `${repoUrl}/actions/runs?check_suite_id=${checkSuiteId}`,
+        );
+        return data.workflow_runs[0] ?? null;
+      }
+    }
+
+    const { workflowName, branch } = parseCiTitle(notification.subject.title);
+    const params = new URLSearchParams({
+      status: "completed",
+      per_page: String(MAX_CANDIDATE_RUNS),
+    });
+    if (branch) {
+      params.set("branch", branch);
+    } else {
+      params.set("actor", username);
+    }
+    const data = await this.getJson<{ workflow_runs: any[] }>(
+      `${repoUrl}/actions/runs?${params}`,
+    );
+    const notifiedAt = Date.parse(notification.updated_at) + RUN_MATCH_SLACK_MS;
+    return (
+      data.workflow_runs.find(
+        (run) =>
+          (!workflowName ||
+            run.name?.toLowerCase() === workflowName.toLowerCase()) &&
+          Date.parse(run.updated_at) <= notifiedAt,
+      ) ?? null
+    );
+  }
+
+  /**
+   * The pull request a run was for: from the run itself, or (for runs from
+   * forks, which GitHub doesn't link) by the head branch.
+   */
+  private async findRunPullRequest(
+    repoUrl: string,
+    run: any,
+  ): Promise<GitHubCiRun["pullRequest"]> {
+    let pullRequest: any = null;
+    const number = run.pull_requests?.[0]?.number;
+    if (number) {
+      pullRequest = await this.getJson<any>(`${repoUrl}/pulls/${number}`);
+    } else if (run.head_branch && run.head_repository?.owner?.login) {
+      const pulls = await this.getJson<any[]>(
+        `${repoUrl}/pulls?state=open&per_page=1&head=${encodeURIComponent(
+          `${run.head_repository.owner.login}:${run.head_branch}`,
+        )}`,
+      );
+      pullRequest = pulls[0] ?? null;
+    }
+    return pullRequest
+      ? {
+          number: pullRequest.number,
+          title: pullRequest.title,
+          author: pullRequest.user?.login ?? null,
+          htmlUrl: pullRequest.html_url,
+        }
+      : null;
+  }
+
+  /**
+   * The workflow run behind a CI notification, with its pull request and,
+   * if it failed, the failed jobs, their failed steps and the last
+   * `logTailLines` lines of their logs. Returns null (and logs) when the run
+   * can't be found.
+   */
+  async getCiRun(
+    notification: GitHubNotification,
+    username: string,
+    logTailLines: number,
+  ): Promise<GitHubCiRun | null> {
+    const repoUrl = `${this.baseUrl}/repos/${notification.repository.full_name}`;
+    try {
+      const run = await this.findWorkflowRun(notification, username);
+      if (!run) {
+        logger.info(
+          { notificationId: notification.id },
+          "[PingPal GitHub] No workflow run found for CI notification",
+        );
+        return null;
+      }
+
+      const ciRun: GitHubCiRun = {
+        runId: run.id,
+        checkSuiteId: run.check_suite_id ?? null,
+        workflowName: run.name ?? "CI",
+        conclusion: run.conclusion ?? null,
+        htmlUrl: run.html_url,
+        headBranch: run.head_branch ?? null,
+        pullRequest: await this.findRunPullRequest(repoUrl, run),
+        jobs: [],
+      };
+      if (!FAILED_CONCLUSIONS.includes(ciRun.conclusion ?? "")) {
+        return ciRun;
+      }
+
+      const data = await this.getJson<{ jobs: any[] }>(
+        `${repoUrl}/actions/runs/${run.id}/jobs?filter=latest&per_page=100`,
+      );
+      const failedJobs = data.jobs.filter((job) =>
+        FAILED_CONCLUSIONS.includes(job.conclusion),
+      );
+      for (const [index, job] of failedJobs.entries()) {
+        let logTail: string | null = null;
+        if (index < MAX_FAILED_JOB_LOGS) {
+          // Redirects to a short-lived download URL, which fetch follows
+          logTail = await this.request(`${repoUrl}/actions/jobs/${job.id}/logs`)
+            .then(async (response) =>
+              getLogTail(await response.text(), logTailLines),
+            )
+            .catch((error) => {
+              logger.warn(
+                { error, jobId: job.id },
+                "[PingPal GitHub] Failed to fetch job log",
+              );
+              return null;
+            });
+        }
+        ciRun.jobs.push({
+          id: job.id,
+          name: job.name,
+          htmlUrl: job.html_url ?? null,
+          failedSteps: (job.steps ?? [])
+            .filter((step: any) => FAILED_CONCLUSIONS.includes(step.conclusion))
+            .map((step: any) => step.name),
+          logTail,
+        });
+      }
+      return ciRun;
+    } catch (error) {
+      logger.warn(
+        { error, notificationId: notification.id },
+        "[PingPal GitHub] Failed to fetch workflow run for CI notification",
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Re-runs the failed jobs of a workflow run. Returns false (and logs) if
+   * the request failed or GitHub rejected it, e.g. for lack of the
+   * `actions: write` permission.
+   */
+  async rerunFailedJobs(repository: string, runId: number): Promise<boolean> {
+    try {
+      await this.request(
+        `${this.baseUrl}/repos/${repository}/actions/runs/${runId}/rerun-failed-jobs`,
+        { method: "POST" },
+      );
+      return true;
+    } catch (error) {
+      logger.warn(
+        { error, repository, runId },
+        "[PingPal GitHub] Failed to re-run failed jobs",
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Whether a review request or assignment made at `since` still waits on
+   * `username`: the pull request or issue is open, and for reviews the user
+   * is still a requested reviewer, or a team is and the user hasn't reviewed
+   * since. A subject that is gone counts as closed. Returns null (and logs)
+   * if GitHub couldn't be asked.
+   */
+  async getOpenRequestStatus(
+    kind: GitHubOpenRequestKind,
+    subjectUrl: string,
+    username: string,
+    since: number,
+  ): Promise<GitHubOpenRequestStatus | null> {
+    const isUser = (login: string | undefined) =>
+      login?.toLowerCase() === username.toLowerCase();
+    try {
+      const subject = await this.getJson<any>(subjectUrl);
+      if (subject.merged || subject.merged_at) {
+        return "merged";
+      }
+      if (subject.state !== "open") {
+        return "closed";
+      }
+      if (kind === "assignment") {
+        return (subject.assignees ?? []).some((assignee: any) =>
+          isUser(assignee.login),
+        )
+          ? "pending"
+          : "removed";
+      }
+
+      if (
+        (subject.requested_reviewers ?? []).some((reviewer: any) =>
+          isUser(reviewer.login),
+        )
+      ) {
+        return "pending";
+      }
+      // Submitting a review takes the user off the requested reviewers
+      const reviews = await this.getJson<any[]>(
+        `${subjectUrl}/reviews?per_page=${MAX_PR_REVIEWS}`,
+      );
+      if (
+        reviews.some(
+          (review) =>
+            isUser(review.user?.login) &&
+            Date.parse(review.submitted_at) >= since,
+        )
+      ) {
+        return "reviewed";
+      }
+      return (subject.requested_teams ?? []).length > 0 ? "pending" : "removed";
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return "closed";
+      }
+      logger.warn(
+        { error, subjectUrl },
+        "[PingPal GitHub] Failed to check review request or assignment",
+      );
+      return null;
+    }
+  }
+
+  /**
+   * A notification thread as the notifications list shows it, including
+   * whether it is unread. Returns null (and logs) if GitHub couldn't be asked.
+   */
+  async getNotificationThread(
+    notificationId: string,
+  ): Promise<GitHubNotification | null> {
+    try {
+      return await this.getJson<GitHubNotification>(
+        `${this.baseUrl}/notifications/threads/${notificationId}`,
+      );
+    } catch (error) {
+      logger.warn(
+        { error, notificationId },
+        "[PingPal GitHub] Failed to fetch notification thread",
+      );
+      return null;
     }
   }
 }
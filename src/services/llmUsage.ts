@@ -0,0 +1,243 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import { getDefaultTimeZone, getZonedParts, toDateKey } from "../utils/time";
+import { metrics } from "./metrics";
+
+const USAGE_CACHE_PREFIX = "pingpal_github_llm_usage_";
+const CALLS_CACHE_KEY = "pingpal_github_llm_calls";
+// Oldest call records are dropped beyond this
+const MAX_CALL_RECORDS = 200;
+// Rough estimate; providers don't report usage through runtime.useModel
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * One LLM call made for analysis. Token counts are estimated from the prompt
+ * and response length.
+ */
+export interface LlmCallRecord {
+  at: number;
+  model: string;
+  /** Notifications classified by the call. */
+  items: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  ok: boolean;
+}
+
+/**
+ * LLM usage for one day (in PINGPAL_TIMEZONE), which the daily budget is
+ * checked against.
+ */
+export interface LlmDailyUsage {
+  date: string;
+  calls: number;
+  items: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  /** Notifications answered from the analysis cache, without a call. */
+  cacheHits: number;
+  /** Notifications classified by rules only because the budget ran out. */
+  budgetFallbacks: number;
+}
+
+export interface LlmBudget {
+  tokens: number | null;
+  costUsd: number | null;
+}
+
+// Serializes read-modify-write of the usage records within this process
+let usageUpdates: Promise<unknown> = Promise.resolve();
+
+function withUsageLock(update: () => Promise<void>): Promise<void> {
+  const run = usageUpdates.then(update);
+  usageUpdates = run.catch(() => undefined);
+  return run;
+}
+
+function getTodayKey(): string {
+  const now = getZonedParts(new Date(), getDefaultTimeZone());
+  return toDateKey(now.year, now.month, now.day);
+}
+
+function positiveNumber(value: string | undefined): number | null {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number > 0 ? number : null;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Prices per 1,000 tokens from PINGPAL_LLM_INPUT_COST_PER_1K and
+ * PINGPAL_LLM_OUTPUT_COST_PER_1K (USD); zero when not set.
+ */
+function getLlmCostUsd(promptTokens: number, completionTokens: number): number {
+  const inputPer1k = positiveNumber(process.env.PINGPAL_LLM_INPUT_COST_PER_1K);
+  const outputPer1k = positiveNumber(
+    process.env.PINGPAL_LLM_OUTPUT_COST_PER_1K,
+  );
+  return (
+    (promptTokens / 1000) * (inputPer1k ?? 0) +
+    (completionTokens / 1000) * (outputPer1k ?? 0)
+  );
+}
+
+/**
+ * Daily limits from PINGPAL_LLM_DAILY_TOKEN_BUDGET and
+ * PINGPAL_LLM_DAILY_BUDGET_USD; null means unlimited.
+ */
+export function getLlmBudget(): LlmBudget {
+  return {
+    tokens: positiveNumber(process.env.PINGPAL_LLM_DAILY_TOKEN_BUDGET),
+    costUsd: positiveNumber(process.env.PINGPAL_LLM_DAILY_BUDGET_USD),
+  };
+}
+
+function emptyUsage(date: string): LlmDailyUsage {
+  return {
+    date,
+    calls: 0,
+    items: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    cacheHits: 0,
+    budgetFallbacks: 0,
+  };
+}
+
+export async function getLlmDailyUsage(
+  runtime: IAgentRuntime,
+  date: string = getTodayKey(),
+): Promise<LlmDailyUsage> {
+  return (
+    (await runtime.getCache<LlmDailyUsage>(`${USAGE_CACHE_PREFIX}${date}`)) ??
+    emptyUsage(date)
+  );
+}
+
+export async function getLlmCallRecords(
+  runtime: IAgentRuntime,
+): Promise<LlmCallRecord[]> {
+  return (await runtime.getCache<LlmCallRecord[]>(CALLS_CACHE_KEY)) ?? [];
+}
+
+function updateDailyUsage(
+  runtime: IAgentRuntime,
+  update: (usage: LlmDailyUsage) => void,
+): Promise<void> {
+  return withUsageLock(async () => {
+    const usage = await getLlmDailyUsage(runtime);
+    update(usage);
+    await runtime.setCache<LlmDailyUsage>(
+      `${USAGE_CACHE_PREFIX}${usage.date}`,
+      usage,
+    );
+  });
+}
+
+/**
+ * Records one LLM call, both as a call record and in today's totals, and in
+ * the LLM metrics.
+ */
+export async function recordLlmCall(
+  runtime: IAgentRuntime,
+  call: {
+    model: string;
+    items: number;
+    prompt: string;
+    response: string;
+    ok: boolean;
+    durationMs?: number;
+  },
+): Promise<LlmCallRecord> {
+  metrics.llmCalls.inc({ model: call.model });
+  if (!call.ok) {
+    metrics.llmFailures.inc({ model: call.model });
+  }
+  if (call.durationMs !== undefined) {
+    metrics.llmRequestDuration.observe(
+      { model: call.model },
+      call.durationMs / 1000,
+    );
+  }
+
+  const promptTokens = estimateTokens(call.prompt);
+  const completionTokens = estimateTokens(call.response);
+  const record: LlmCallRecord = {
+    at: Date.now(),
+    model: call.model,
+    items: call.items,
+    promptTokens,
+    completionTokens,
+    costUsd: getLlmCostUsd(promptTokens, completionTokens),
+    ok: call.ok,
+  };
+
+  await updateDailyUsage(runtime, (usage) => {
+    usage.calls += 1;
+    usage.items += record.items;
+    usage.promptTokens += record.promptTokens;
+    usage.completionTokens += record.completionTokens;
+    usage.costUsd += record.costUsd;
+  });
+  await withUsageLock(async () => {
+    const records = await getLlmCallRecords(runtime);
+    await runtime.setCache<LlmCallRecord[]>(
+      CALLS_CACHE_KEY,
+      [...records, record].slice(-MAX_CALL_RECORDS),
+    );
+  });
+
+  logger.info(
+    {
+      model: record.model,
+      items: record.items,
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      costUsd: Number(record.costUsd.toFixed(6)),
+    },
+    "[PingPal GitHub] LLM call recorded",
+  );
+  return record;
+}
+
+export function recordCacheHits(
+  runtime: IAgentRuntime,
+  count: number,
+): Promise<void> {
+  return updateDailyUsage(runtime, (usage) => {
+    usage.cacheHits += count;
+  });
+}
+
+export function recordBudgetFallbacks(
+  runtime: IAgentRuntime,
+  count: number,
+): Promise<void> {
+  return updateDailyUsage(runtime, (usage) => {
+    usage.budgetFallbacks += count;
+  });
+}
+
+/**
+ * True once today's usage reached a configured daily budget; analysis then
+ * falls back to rules only until the day ends.
+ */
+export async function isLlmBudgetExhausted(
+  runtime: IAgentRuntime,
+): Promise<boolean> {
+  const budget = getLlmBudget();
+  if (budget.tokens === null && budget.costUsd === null) {
+    return false;
+  }
+  const usage = await getLlmDailyUsage(runtime);
+  return (
+    (budget.tokens !== null &&
+      usage.promptTokens + usage.completionTokens >= budget.tokens) ||
+    (budget.costUsd !== null && usage.costUsd >= budget.costUsd)
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * In-process metrics in the Prometheus text format, served by the /metrics
+ * route. Counters and histograms are updated where the work happens; gauges
+ * are set when the route is scraped. Values start over on restart, which
+ * Prometheus handles for counters.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+// GitHub answers in well under a second unless it is struggling
+const GITHUB_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const LLM_LATENCY_BUCKETS = [0.5, 1, 2.5, 5, 10, 20, 40, 60, 120];
+// From seconds for webhooks up to hours for alerts that needed retries
+const DELIVERY_LAG_BUCKETS = [
+  5,
+  15,
+  30,
+  60,
+  120,
+  300,
+  600,
+  1800,
+  3600,
+  4 * 3600,
+];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  return entries.length === 0
+    ? ""
+    : `{${entries
+        .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+        .join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value)
+    ? String(value)
+    : value > 0
+      ? "+Inf"
+      : value < 0
+        ? "-Inf"
+        : "NaN";
+}
+
+/**
+ * Series are keyed by their labels in name order, so callers may list
+ * labels in any order.
+ */
+function getSeriesKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly type: "counter" | "gauge" | "histogram",
+  ) {
+    registry.push(this);
+  }
+
+  protected getSeries(labels: Labels, create: () => T): { value: T } {
+    const key = getSeriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].flatMap(({ labels, value }) =>
+        this.renderSeries(labels, value),
+      ),
+    ];
+  }
+}
+
+class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount <= 0) {
+      return;
+    }
+    this.getSeries(labels, () => 0).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+class Gauge extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  /** Drops all series, e.g. before setting them anew for a scrape. */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(value)}`];
+  }
+}
+
+interface HistogramValue {
+  /** Observations per bucket, not cumulative. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram extends LabeledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[],
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    const series = this.getSeries(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      series.counts[bucket] += 1;
+    }
+    series.sum += value;
+    series.count += 1;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    let cumulative = 0;
+    return [
+      ...this.buckets.map((bound, index) => {
+        cumulative += value.counts[index];
+        return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+      }),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+export const metrics = {
+  polls: new Counter(
+    "pingpal_polls_total",
+    "GitHub notification polls by subscriber and result (ok, not_modified, skipped, error).",
+  ),
+  notificationsFetched: new Counter(
+    "pingpal_notifications_fetched_total",
+    "Notifications fetched from GitHub by polling.",
+  ),
+  notificationsRelevant: new Counter(
+    "pingpal_notifications_relevant_total",
+    "Fetched notifications the rules didn't drop, handed to analysis.",
+  ),
+  notificationsDuplicate: new Counter(
+    "pingpal_notifications_duplicate_total",
+    "Notifications skipped because their activity was already processed.",
+  ),
+  llmCalls: new Counter(
+    "pingpal_llm_calls_total",
+    "LLM calls for notification analysis and CI failure summaries, by model.",
+  ),
+  llmFailures: new Counter(
+    "pingpal_llm_failures_total",
+    "LLM calls that failed, by model.",
+  ),
+  alertsSent: new Counter(
+    "pingpal_alerts_sent_total",
+    "Alerts a channel accepted, by channel.",
+  ),
+  alertsFailed: new Counter(
+    "pingpal_alerts_failed_total",
+    "Alert deliveries a channel rejected, by channel. Retries count again.",
+  ),
+  githubRequestDuration: new Histogram(
+    "pingpal_github_request_duration_seconds",
+    "GitHub API request latency by method and status (error when no response arrived).",
+    GITHUB_LATENCY_BUCKETS,
+  ),
+  llmRequestDuration: new Histogram(
+    "pingpal_llm_request_duration_seconds",
+    "LLM call latency by model.",
+    LLM_LATENCY_BUCKETS,
+  ),
+  deliveryLag: new Histogram(
+    "pingpal_delivery_lag_seconds",
+    "Time from the notification's updated_at on GitHub until a channel accepted its alert, by channel.",
+    DELIVERY_LAG_BUCKETS,
+  ),
+  rateLimitRemaining: new Gauge(
+    "pingpal_github_rate_limit_remaining",
+    "GitHub API requests left in the current rate limit window, from the latest response.",
+  ),
+  outboxDepth: new Gauge(
+    "pingpal_outbox_depth",
+    "Alerts waiting to be retried in the delivery outbox.",
+  ),
+  deadLetters: new Gauge(
+    "pingpal_dead_letters",
+    "Alerts that could not be delivered after all retries.",
+  ),
+};
+
+/**
+ * All metrics in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+}
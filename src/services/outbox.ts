@@ -0,0 +1,436 @@
+import type { IAgentRuntime, MemoryMetadata, UUID } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import {
+  deliverAlert,
+  getChannelsForSubscriber,
+  type ChannelAlert,
+  type ChannelDelivery,
+  type ChannelType,
+} from "../channels";
+import { loadSubscribers, type Subscriber } from "../subscribers";
+import { scheduleEscalation } from "./escalation";
+import { metrics } from "./metrics";
+
+const OUTBOX_CACHE_KEY = "pingpal_github_outbox";
+const DEAD_LETTER_CACHE_KEY = "pingpal_github_dead_letters";
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Oldest dead letters are dropped beyond this
+const MAX_DEAD_LETTERS = 100;
+// A claim this old was left by a process that stopped mid-delivery; sends
+// time out well before (see CHANNEL_SEND_TIMEOUT_MS)
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * An alert waiting to be delivered. Entries stay in the outbox until every
+ * channel accepted the alert or the attempts run out.
+ */
+export interface OutboxEntry {
+  alert: ChannelAlert;
+  /** Processed-notification record to mark as notified once delivered. */
+  processedMemoryId: UUID | null;
+  /** Records of earlier updates the alert stands in for, marked along with it. */
+  foldedProcessedMemoryIds?: UUID[];
+  /** Channels that haven't accepted the alert yet. */
+  pendingChannels: ChannelType[];
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  enqueuedAt: number;
+  /** When a delivery attempt claimed the entry; null while none is running. */
+  claimedAt?: number | null;
+  /** When a channel first accepted the alert; null until then. */
+  deliveredAt?: number | null;
+}
+
+/**
+ * An alert that failed on every attempt, kept for inspection.
+ */
+export interface DeadLetter extends OutboxEntry {
+  failedAt: number;
+}
+
+// Serializes read-modify-write of the outbox and the dead-letter list
+// within this process, so concurrent polls don't overwrite each other's entries
+let outboxUpdates: Promise<unknown> = Promise.resolve();
+
+function withOutboxLock<T>(task: () => Promise<T>): Promise<T> {
+  const run = outboxUpdates.then(task);
+  outboxUpdates = run.catch(() => undefined);
+  return run;
+}
+
+function updateOutbox(
+  runtime: IAgentRuntime,
+  update: (entries: OutboxEntry[]) => OutboxEntry[],
+): Promise<void> {
+  return withOutboxLock(async () => {
+    const entries =
+      (await runtime.getCache<OutboxEntry[]>(OUTBOX_CACHE_KEY)) ?? [];
+    await runtime.setCache<OutboxEntry[]>(OUTBOX_CACHE_KEY, update(entries));
+  });
+}
+
+function isClaimed(entry: OutboxEntry, now = Date.now()): boolean {
+  return (
+    typeof entry.claimedAt === "number" &&
+    now - entry.claimedAt < STALE_CLAIM_MS
+  );
+}
+
+/**
+ * Claims the entry for one delivery attempt. Fails when another attempt is
+ * running, or already made this one (the entry was delivered, rescheduled
+ * or dead-lettered since it was read).
+ */
+async function claimEntry(
+  runtime: IAgentRuntime,
+  entry: OutboxEntry,
+): Promise<boolean> {
+  let claimed = false;
+  await updateOutbox(runtime, (entries) =>
+    entries.map((existing) => {
+      if (
+        existing.alert.alertId !== entry.alert.alertId ||
+        existing.attempts !== entry.attempts ||
+        isClaimed(existing)
+      ) {
+        return existing;
+      }
+      claimed = true;
+      return { ...existing, claimedAt: Date.now() };
+    }),
+  );
+  return claimed;
+}
+
+/**
+ * Attempts per alert before it moves to the dead-letter list, from
+ * PINGPAL_DELIVERY_MAX_ATTEMPTS.
+ */
+export function getMaxDeliveryAttempts(): number {
+  const value = Number(process.env.PINGPAL_DELIVERY_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Exponential backoff after the given number of failed attempts, but never
+ * sooner than the channel asked for.
+ */
+export function getRetryDelayMs(attempts: number, retryAfterMs = 0): number {
+  const backoff = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+  return Math.max(backoff, retryAfterMs);
+}
+
+/**
+ * Marks the processed-notification record as notified. Only called after a
+ * channel accepted the alert, so the record never claims an alert that was
+ * lost.
+ */
+export async function markAlertDelivered(
+  runtime: IAgentRuntime,
+  processedMemoryId: UUID | null | undefined,
+  channels: ChannelType[],
+): Promise<void> {
+  if (!processedMemoryId) {
+    return;
+  }
+  const memory = await runtime.getMemoryById(processedMemoryId);
+  if (!memory) {
+    logger.warn(
+      { processedMemoryId },
+      "[PingPal GitHub] Processed notification record not found; cannot mark it as notified",
+    );
+    return;
+  }
+  await runtime.updateMemory({
+    id: processedMemoryId,
+    metadata: {
+      ...memory.metadata,
+      notifiedViaTelegram: true,
+      notifiedAt: Date.now(),
+      deliveredVia: channels,
+    } as MemoryMetadata,
+  });
+}
+
+async function addDeadLetter(
+  runtime: IAgentRuntime,
+  entry: OutboxEntry,
+): Promise<void> {
+  await withOutboxLock(async () => {
+    const deadLetters =
+      (await runtime.getCache<DeadLetter[]>(DEAD_LETTER_CACHE_KEY)) ?? [];
+    await runtime.setCache<DeadLetter[]>(
+      DEAD_LETTER_CACHE_KEY,
+      [
+        ...deadLetters,
+        { ...entry, claimedAt: null, failedAt: Date.now() },
+      ].slice(-MAX_DEAD_LETTERS),
+    );
+  });
+  logger.error(
+    {
+      subscriberId: entry.alert.subscriberId,
+      notificationId: entry.alert.notification.id,
+      attempts: entry.attempts,
+      channels: entry.pendingChannels,
+      error: entry.lastError,
+    },
+    "[PingPal GitHub] Giving up on alert delivery. Moved to the dead-letter list.",
+  );
+}
+
+export async function getOutboxEntries(
+  runtime: IAgentRuntime,
+  subscriberId?: string,
+): Promise<OutboxEntry[]> {
+  const entries =
+    (await runtime.getCache<OutboxEntry[]>(OUTBOX_CACHE_KEY)) ?? [];
+  return subscriberId
+    ? entries.filter((entry) => entry.alert.subscriberId === subscriberId)
+    : entries;
+}
+
+export async function getDeadLetters(
+  runtime: IAgentRuntime,
+  subscriberId?: string,
+): Promise<DeadLetter[]> {
+  const deadLetters =
+    (await runtime.getCache<DeadLetter[]>(DEAD_LETTER_CACHE_KEY)) ?? [];
+  return subscriberId
+    ? deadLetters.filter(
+        (deadLetter) => deadLetter.alert.subscriberId === subscriberId,
+      )
+    : deadLetters;
+}
+
+export interface EnqueueOptions {
+  /** Channels to deliver to; all of the subscriber's by default. */
+  channels?: ChannelType[];
+  foldedProcessedMemoryIds?: UUID[];
+  /** Set when the alert already reached another channel (see `deliveredAt`). */
+  deliveredAt?: number | null;
+}
+
+/**
+ * Persists an alert for delivery to the subscriber's channels. The first
+ * attempt is up to the caller (see `attemptDelivery`); the scheduler
+ * retries whatever is left.
+ */
+export async function enqueueAlert(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  alert: ChannelAlert,
+  processedMemoryId: UUID | null,
+  options: EnqueueOptions = {},
+): Promise<OutboxEntry> {
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    alert,
+    processedMemoryId,
+    foldedProcessedMemoryIds: options.foldedProcessedMemoryIds,
+    pendingChannels: [
+      ...new Set(
+        options.channels ??
+          getChannelsForSubscriber(subscriber).map((channel) => channel.type),
+      ),
+    ],
+    attempts: 0,
+    // Not due yet, so the scheduler doesn't race the caller's first attempt
+    nextAttemptAt: now + BASE_RETRY_DELAY_MS,
+    lastError: null,
+    enqueuedAt: now,
+    deliveredAt: options.deliveredAt ?? null,
+  };
+  await updateOutbox(runtime, (entries) => [...entries, entry]);
+  return entry;
+}
+
+/**
+ * Sends an outbox entry to its pending channels and records the outcome:
+ * the entry is removed once every channel accepted it, rescheduled with
+ * backoff while attempts remain, and dead-lettered after that. The record
+ * is marked as notified as soon as any channel accepts the alert, and the
+ * escalation clock of a critical alert starts then, whichever attempt it is.
+ *
+ * The entry is claimed first, so the scheduler and the caller's first
+ * attempt never send it at the same time. Yields no deliveries when the
+ * claim fails.
+ */
+export async function attemptDelivery(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  entry: OutboxEntry,
+): Promise<ChannelDelivery[]> {
+  if (!(await claimEntry(runtime, entry))) {
+    logger.info(
+      {
+        subscriberId: subscriber.id,
+        notificationId: entry.alert.notification.id,
+      },
+      "[PingPal GitHub] Alert delivery already in progress or done. Skipping.",
+    );
+    return [];
+  }
+
+  let deliveries: ChannelDelivery[];
+  try {
+    deliveries = await deliverAlert(
+      runtime,
+      subscriber,
+      entry.alert,
+      entry.pendingChannels,
+    );
+  } catch (error) {
+    // Left for the next retry
+    await updateOutbox(runtime, (entries) =>
+      entries.map((existing) =>
+        existing.alert.alertId === entry.alert.alertId
+          ? { ...existing, claimedAt: null }
+          : existing,
+      ),
+    );
+    throw error;
+  }
+  const failed = deliveries.filter((delivery) => !delivery.ok);
+  const delivered = deliveries
+    .filter((delivery) => delivery.ok)
+    .map((delivery) => delivery.channel);
+
+  // Lag is measured for alerts on new activity only; snoozes and reminders
+  // come back to old activity on purpose
+  const updatedAt = Date.parse(entry.alert.notification.updated_at);
+  if (entry.processedMemoryId && !Number.isNaN(updatedAt)) {
+    for (const channel of delivered) {
+      metrics.deliveryLag.observe(
+        { channel },
+        Math.max(0, Date.now() - updatedAt) / 1000,
+      );
+    }
+  }
+
+  const firstDelivery = delivered.length > 0 && !entry.deliveredAt;
+  if (firstDelivery) {
+    // Critical alerts nobody reacts to go to the escalation contact
+    await scheduleEscalation(runtime, subscriber, entry.alert).catch((error) =>
+      logger.warn(
+        { error, alertId: entry.alert.alertId },
+        "[PingPal GitHub] Failed to schedule escalation",
+      ),
+    );
+  }
+
+  if (delivered.length > 0) {
+    for (const processedMemoryId of [
+      entry.processedMemoryId,
+      ...(entry.foldedProcessedMemoryIds ?? []),
+    ]) {
+      try {
+        await markAlertDelivered(runtime, processedMemoryId, delivered);
+      } catch (error) {
+        logger.error(
+          { error, processedMemoryId },
+          "[PingPal GitHub] Failed to mark processed notification as notified",
+        );
+      }
+    }
+  }
+
+  const attempts = entry.attempts + 1;
+  const updated: OutboxEntry | null =
+    failed.length === 0
+      ? null
+      : {
+          ...entry,
+          claimedAt: null,
+          deliveredAt: firstDelivery ? Date.now() : (entry.deliveredAt ?? null),
+          // Channels that already accepted the alert don't get it again
+          pendingChannels: [
+            ...new Set(failed.map((delivery) => delivery.channel)),
+          ],
+          attempts,
+          nextAttemptAt:
+            Date.now() +
+            getRetryDelayMs(
+              attempts,
+              Math.max(
+                0,
+                ...failed.map((delivery) => delivery.retryAfterMs ?? 0),
+              ),
+            ),
+          lastError: failed
+            .map((delivery) => `${delivery.channel}: ${delivery.error}`)
+            .join("; "),
+        };
+  const deadLetter = updated !== null && attempts >= getMaxDeliveryAttempts();
+
+  await updateOutbox(runtime, (entries) => {
+    const others = entries.filter(
+      (existing) => existing.alert.alertId !== entry.alert.alertId,
+    );
+    return updated && !deadLetter ? [...others, updated] : others;
+  });
+  if (updated && deadLetter) {
+    await addDeadLetter(runtime, updated);
+  }
+
+  return deliveries;
+}
+
+/**
+ * Retries outbox entries whose backoff has passed. Entries of subscribers
+ * that are no longer configured are dead-lettered.
+ */
+export async function processOutbox(runtime: IAgentRuntime): Promise<void> {
+  const entries = await getOutboxEntries(runtime);
+  const now = Date.now();
+  // Entries claimed by a running attempt are left to it
+  const due = entries.filter(
+    (entry) => entry.nextAttemptAt <= now && !isClaimed(entry, now),
+  );
+  if (due.length === 0) {
+    return;
+  }
+
+  const subscribers = loadSubscribers();
+  for (const entry of due) {
+    const subscriber = subscribers.find(
+      (candidate) => candidate.id === entry.alert.subscriberId,
+    );
+    if (!subscriber) {
+      await updateOutbox(runtime, (current) =>
+        current.filter(
+          (existing) => existing.alert.alertId !== entry.alert.alertId,
+        ),
+      );
+      await addDeadLetter(runtime, {
+        ...entry,
+        lastError: `Subscriber '${entry.alert.subscriberId}' is no longer configured`,
+      });
+      continue;
+    }
+
+    logger.info(
+      {
+        subscriberId: subscriber.id,
+        notificationId: entry.alert.notification.id,
+        attempt: entry.attempts + 1,
+        channels: entry.pendingChannels,
+      },
+      "[PingPal GitHub] Retrying alert delivery",
+    );
+    try {
+      await attemptDelivery(runtime, subscriber, entry);
+    } catch (error) {
+      logger.error(
+        { error, notificationId: entry.alert.notification.id },
+        "[PingPal GitHub] Error while retrying alert delivery",
+      );
+    }
+  }
+}
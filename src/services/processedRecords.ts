@@ -0,0 +1,168 @@
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import type { GitHubCiRun, GitHubNotification } from "./githubService";
+import { isCiNotification } from "./ciFailures";
+import { DEFAULT_SUBSCRIBER_ID } from "../subscribers";
+
+// How many processed records are scanned to answer a lookup
+export const PROCESSED_SCAN_COUNT = 1000;
+// Webhook and polled timestamps of the same activity can be this far apart
+const CROSS_SOURCE_TOLERANCE_MS = 2 * 60 * 1000;
+
+/**
+ * Processed records for the subscriber (or all subscribers), newest first.
+ * Only the latest PROCESSED_SCAN_COUNT records of all subscribers are
+ * scanned; `truncated` tells whether older ones were left out.
+ */
+export async function scanProcessedRecords(
+  runtime: IAgentRuntime,
+  subscriberId?: string,
+): Promise<{ records: Memory[]; truncated: boolean }> {
+  const memories = await runtime.getMemories({
+    tableName: "pingpal_github_processed",
+    agentId: runtime.agentId,
+    count: PROCESSED_SCAN_COUNT,
+  });
+  const records = memories
+    .filter(
+      (memory) =>
+        memory.metadata &&
+        (subscriberId === undefined ||
+          getRecordSubscriberId(memory) === subscriberId),
+    )
+    .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+  return { records, truncated: memories.length >= PROCESSED_SCAN_COUNT };
+}
+
+/**
+ * Processed records for the subscriber (or all subscribers), newest first.
+ */
+export async function getProcessedRecords(
+  runtime: IAgentRuntime,
+  subscriberId?: string,
+): Promise<Memory[]> {
+  return (await scanProcessedRecords(runtime, subscriberId)).records;
+}
+
+/**
+ * Records from before multi-user support belong to the default subscriber.
+ */
+export function getRecordSubscriberId(memory: Memory): string {
+  return (
+    (memory.metadata as Record<string, any>).subscriberId ??
+    DEFAULT_SUBSCRIBER_ID
+  );
+}
+
+// Links to a comment or review differ from the subject's only in the anchor
+function normalizeWebUrl(url: string): string {
+  return url.replace(/#.*$/, "").replace(/\/$/, "");
+}
+
+/**
+ * The newest record for a thread id or a GitHub web URL (of the subject, or
+ * of any comment on it).
+ */
+export function findProcessedRecord(
+  records: Memory[],
+  threadIdOrUrl: string,
+): Memory | undefined {
+  const url = normalizeWebUrl(threadIdOrUrl);
+  return records.find((memory) => {
+    const metadata = memory.metadata as Record<string, any>;
+    return (
+      metadata.githubNotificationId === threadIdOrUrl ||
+      (typeof metadata.webUrl === "string" &&
+        normalizeWebUrl(metadata.webUrl) === url)
+    );
+  });
+}
+
+/**
+ * Webhook events get thread ids of their own (see normalizeWebhookEvent);
+ * polled notifications carry GitHub's.
+ */
+export function isWebhookThreadId(threadId: string): boolean {
+  return threadId.startsWith("webhook-");
+}
+
+/**
+ * The check suite behind a CI notification: webhook events link it, polled
+ * notifications only once the workflow run is looked up.
+ */
+export function getCheckSuiteId(
+  notification: GitHubNotification,
+  ciRun?: Pick<GitHubCiRun, "checkSuiteId"> | null,
+): number | null {
+  if (ciRun?.checkSuiteId) {
+    return ciRun.checkSuiteId;
+  }
+  const match = notification.url.match(/\/check-suites\/(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * The activity a notification reports, in a form both ingestion sources
+ * share: the check suite of a CI run, the comment or review it points to,
+ * or for activity without either (review requests, assignments) the issue
+ * or pull request and the reason. Null when it can't be told.
+ */
+export function getActivityKey(
+  notification: GitHubNotification,
+  checkSuiteId: number | null,
+): string | null {
+  const repository = notification.repository.full_name.toLowerCase();
+  if (isCiNotification(notification)) {
+    return checkSuiteId ? `${repository}:check-suite:${checkSuiteId}` : null;
+  }
+  const event = notification.subject.latest_comment_url?.match(
+    /\/(issues\/comments|pulls\/comments|reviews)\/(\d+)$/,
+  );
+  if (event) {
+    return `${repository}:${event[1]}:${event[2]}`;
+  }
+  const subject = notification.subject.url?.match(/\/(?:issues|pulls)\/(\d+)$/);
+  return subject ? `${repository}#${subject[1]}:${notification.reason}` : null;
+}
+
+/**
+ * Whether a record from the other ingestion source already covers the
+ * notification's activity. With PINGPAL_INGESTION_MODE=both the same
+ * comment, review or failed check suite arrives once per source, under
+ * different thread ids and with timestamps a little apart, so records are
+ * matched on the activity itself and on timestamps within a tolerance.
+ * `ciRun` is the workflow run looked up for a CI notification.
+ */
+export function isCoveredByOtherSource(
+  memory: Memory,
+  notification: GitHubNotification,
+  ciRun: Pick<GitHubCiRun, "checkSuiteId"> | null = null,
+): boolean {
+  const metadata = memory.metadata as Record<string, any>;
+  const recordNotification = metadata.githubNotification as
+    | GitHubNotification
+    | undefined;
+  if (
+    !recordNotification ||
+    typeof metadata.githubUpdatedAt !== "string" ||
+    isWebhookThreadId(String(metadata.githubNotificationId)) ===
+      isWebhookThreadId(notification.id)
+  ) {
+    return false;
+  }
+  const activityKey = getActivityKey(
+    notification,
+    getCheckSuiteId(notification, ciRun),
+  );
+  const recordCheckSuiteId =
+    typeof metadata.ciCheckSuiteId === "number"
+      ? metadata.ciCheckSuiteId
+      : getCheckSuiteId(recordNotification);
+  return (
+    activityKey !== null &&
+    getActivityKey(recordNotification, recordCheckSuiteId) === activityKey &&
+    Math.abs(
+      Date.parse(metadata.githubUpdatedAt) -
+        Date.parse(notification.updated_at),
+    ) <= CROSS_SOURCE_TOLERANCE_MS
+  );
+}
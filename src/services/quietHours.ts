@@ -0,0 +1,272 @@
+import type { IAgentRuntime, UUID } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import type { GitHubNotification } from "./githubService";
+import type { Category, Priority } from "../priority";
+import {
+  getSubscriberTimeZone,
+  loadSubscribers,
+  type Subscriber,
+} from "../subscribers";
+import { getPausedUntil } from "./subscriberControls";
+import { createChannelAlert, deliverAlertBatch } from "../channels";
+import { scheduleEscalation } from "./escalation";
+import { enqueueAlert, markAlertDelivered } from "./outbox";
+import {
+  getZonedParts,
+  parseTimeWindow,
+  WEEKDAYS,
+  type Weekday,
+} from "../utils/time";
+
+const HELD_ALERTS_CACHE_KEY = "pingpal_github_held_alerts";
+const DEFAULT_WEEKEND_DAYS: Weekday[] = ["saturday", "sunday"];
+
+export interface QuietHoursSettings {
+  window: { start: number; end: number } | null;
+  /** Weekday indexes (0 = Sunday) that are quiet all day; empty when weekends are not quiet. */
+  quietDays: number[];
+  criticalLabels: string[];
+  timeZone: string;
+}
+
+/**
+ * An alert held back during quiet hours, persisted until the window ends.
+ */
+export interface HeldAlert {
+  subscriberId: string;
+  notification: GitHubNotification;
+  reason: string;
+  priority?: Priority;
+  category?: Category | null;
+  suggestedAction?: string | null;
+  deadline?: string | null;
+  webUrl?: string | null;
+  /** Processed-notification record to mark as notified once flushed. */
+  processedMemoryId?: UUID | null;
+  /**
+   * Records of earlier updates to the thread that were held and replaced by
+   * this one; they are marked as notified along with it.
+   */
+  foldedProcessedMemoryIds?: UUID[];
+  heldAt: number;
+}
+
+// Serializes read-modify-write of the held alerts within this process, so
+// an alert held while others are flushed isn't lost
+let heldAlertUpdates: Promise<unknown> = Promise.resolve();
+
+function updateHeldAlerts(
+  runtime: IAgentRuntime,
+  update: (held: HeldAlert[]) => HeldAlert[],
+): Promise<void> {
+  const run = heldAlertUpdates.then(async () => {
+    const held =
+      (await runtime.getCache<HeldAlert[]>(HELD_ALERTS_CACHE_KEY)) ?? [];
+    await runtime.setCache<HeldAlert[]>(HELD_ALERTS_CACHE_KEY, update(held));
+  });
+  heldAlertUpdates = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Quiet-hours settings for a subscriber, with PINGPAL_QUIET_HOURS,
+ * PINGPAL_QUIET_WEEKENDS and PINGPAL_CRITICAL_LABELS as defaults.
+ */
+export function getQuietHoursSettings(
+  subscriber: Subscriber,
+): QuietHoursSettings {
+  const windowValue =
+    subscriber.quietHours?.window ?? process.env.PINGPAL_QUIET_HOURS;
+  const weekends =
+    subscriber.quietHours?.weekends ??
+    process.env.PINGPAL_QUIET_WEEKENDS === "true";
+  const weekendDays =
+    subscriber.quietHours?.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+  const criticalLabels =
+    subscriber.criticalLabels ??
+    (process.env.PINGPAL_CRITICAL_LABELS ?? "")
+      .split(",")
+      .map((label) => label.trim())
+      .filter(Boolean);
+
+  return {
+    window: windowValue ? parseTimeWindow(windowValue) : null,
+    quietDays: weekends ? weekendDays.map((day) => WEEKDAYS.indexOf(day)) : [],
+    criticalLabels,
+    timeZone: getSubscriberTimeZone(subscriber),
+  };
+}
+
+export function isInQuietHours(
+  settings: QuietHoursSettings,
+  now = new Date(),
+): boolean {
+  const zoned = getZonedParts(now, settings.timeZone);
+  if (settings.quietDays.includes(zoned.weekday)) {
+    return true;
+  }
+  if (!settings.window) {
+    return false;
+  }
+
+  const minutes = zoned.hour * 60 + zoned.minute;
+  const { start, end } = settings.window;
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Critical alerts break through quiet hours: a `critical` priority (from
+ * the LLM or a rule) or one of the configured critical labels on the thread.
+ */
+export function isCriticalAlert(
+  settings: QuietHoursSettings,
+  priority: Priority | undefined,
+  labels: string[],
+): boolean {
+  if (priority === "critical") {
+    return true;
+  }
+  const critical = settings.criticalLabels.map((label) => label.toLowerCase());
+  return labels.some((label) => critical.includes(label.toLowerCase()));
+}
+
+function getProcessedMemoryIds(alert: HeldAlert): UUID[] {
+  return [
+    ...(alert.processedMemoryId ? [alert.processedMemoryId] : []),
+    ...(alert.foldedProcessedMemoryIds ?? []),
+  ];
+}
+
+/**
+ * Holds an alert until quiet hours or the pause end. Only the latest update
+ * per thread is sent; the records of earlier ones are carried along.
+ */
+export function holdAlert(
+  runtime: IAgentRuntime,
+  alert: HeldAlert,
+): Promise<void> {
+  const isSameThread = (existing: HeldAlert) =>
+    existing.subscriberId === alert.subscriberId &&
+    existing.notification.id === alert.notification.id;
+
+  return updateHeldAlerts(runtime, (held) => {
+    const folded = held
+      .filter(isSameThread)
+      .flatMap(getProcessedMemoryIds)
+      .filter((id) => id !== alert.processedMemoryId);
+    return [
+      ...held.filter((existing) => !isSameThread(existing)),
+      {
+        ...alert,
+        foldedProcessedMemoryIds: [
+          ...new Set([...(alert.foldedProcessedMemoryIds ?? []), ...folded]),
+        ],
+      },
+    ];
+  });
+}
+
+/**
+ * Sends held alerts as one batch per subscriber once their quiet hours and
+ * any pause are over. Channels that failed get the alerts through the
+ * outbox, which retries them with backoff.
+ */
+export async function flushHeldAlerts(runtime: IAgentRuntime): Promise<void> {
+  const held =
+    (await runtime.getCache<HeldAlert[]>(HELD_ALERTS_CACHE_KEY)) ?? [];
+  if (held.length === 0) {
+    return;
+  }
+
+  const subscribers = loadSubscribers();
+  const heldKey = (alert: HeldAlert) =>
+    `${alert.subscriberId}:${alert.notification.id}:${alert.heldAt}`;
+  const flushed = new Set<string>();
+
+  for (const subscriber of subscribers) {
+    const alerts = held.filter((alert) => alert.subscriberId === subscriber.id);
+    const settings = getQuietHoursSettings(subscriber);
+    if (
+      alerts.length === 0 ||
+      isInQuietHours(settings) ||
+      (await getPausedUntil(runtime, subscriber.id)) !== null
+    ) {
+      continue;
+    }
+
+    const channelAlerts = alerts.map((alert) =>
+      createChannelAlert(subscriber, {
+        ...alert,
+        priority: alert.priority ?? "high",
+      }),
+    );
+    const deliveries = await deliverAlertBatch(
+      runtime,
+      subscriber,
+      channelAlerts,
+      `🌅 PingPal: ${alerts.length} alert${alerts.length === 1 ? "" : "s"} held while you were away`,
+    );
+    const delivered = deliveries
+      .filter((delivery) => delivery.ok)
+      .map((delivery) => delivery.channel);
+    const failed = deliveries
+      .filter((delivery) => !delivery.ok)
+      .map((delivery) => delivery.channel);
+
+    for (const [index, alert] of alerts.entries()) {
+      if (failed.length > 0) {
+        // Retried one by one, only on the channels that failed
+        await enqueueAlert(
+          runtime,
+          subscriber,
+          channelAlerts[index],
+          alert.processedMemoryId ?? null,
+          {
+            channels: failed,
+            foldedProcessedMemoryIds: alert.foldedProcessedMemoryIds,
+            deliveredAt: delivered.length > 0 ? Date.now() : null,
+          },
+        );
+      }
+      flushed.add(heldKey(alert));
+      if (delivered.length === 0) {
+        continue;
+      }
+      // Held critical alerts (e.g. during a pause) escalate from now on
+      await scheduleEscalation(runtime, subscriber, channelAlerts[index]).catch(
+        (error) =>
+          logger.warn(
+            { error, alertId: channelAlerts[index].alertId },
+            "[PingPal GitHub] Failed to schedule escalation",
+          ),
+      );
+      for (const processedMemoryId of getProcessedMemoryIds(alert)) {
+        try {
+          await markAlertDelivered(runtime, processedMemoryId, delivered);
+        } catch (error) {
+          logger.error(
+            { error, processedMemoryId },
+            "[PingPal GitHub] Failed to mark processed notification as notified",
+          );
+        }
+      }
+    }
+    logger.info(
+      {
+        subscriberId: subscriber.id,
+        count: alerts.length,
+        delivered,
+        retrying: failed,
+      },
+      "[PingPal GitHub] Flushed alerts held during quiet hours",
+    );
+  }
+
+  if (flushed.size > 0) {
+    await updateHeldAlerts(runtime, (current) =>
+      current.filter((alert) => !flushed.has(heldKey(alert))),
+    );
+  }
+}
@@ -0,0 +1,312 @@
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import { logger } from "@elizaos/core";
+import type {
+  GitHubNotification,
+  GitHubOpenRequestKind,
+} from "./githubService";
+import type { Category } from "../priority";
+import { loadSubscribers, type Subscriber } from "../subscribers";
+import { createGitHubService } from "../auth";
+import { getInternalRoomIdForAgent } from "../utils/internalRoom";
+import { parseDuration } from "../utils/time";
+
+const TRACKED_REQUESTS_CACHE_KEY = "pingpal_github_tracked_requests";
+const DEFAULT_REVIEW_REMINDERS = "4h,24h,3d";
+// How often GitHub is asked whether a tracked request is still open
+const STATUS_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+/**
+ * A review request or assignment that was alerted and still waits on the
+ * subscriber. It is alerted again as it ages, until it is dealt with.
+ */
+export interface TrackedRequest {
+  subscriberId: string;
+  threadId: string;
+  kind: GitHubOpenRequestKind;
+  notification: GitHubNotification;
+  reason: string;
+  link: string;
+  /** When the first alert went out; reminder ages count from here. */
+  requestedAt: number;
+  /** Reminder ages (ms) already sent or skipped. */
+  remindersSent: number[];
+  checkedAt: number;
+}
+
+// Serializes read-modify-write of the tracked requests within this process
+let trackedRequestUpdates: Promise<unknown> = Promise.resolve();
+
+function updateTrackedRequests(
+  runtime: IAgentRuntime,
+  update: (requests: TrackedRequest[]) => TrackedRequest[],
+): Promise<void> {
+  const run = trackedRequestUpdates.then(async () => {
+    const requests =
+      (await runtime.getCache<TrackedRequest[]>(TRACKED_REQUESTS_CACHE_KEY)) ??
+      [];
+    await runtime.setCache<TrackedRequest[]>(
+      TRACKED_REQUESTS_CACHE_KEY,
+      update(requests),
+    );
+  });
+  trackedRequestUpdates = run.catch(() => undefined);
+  return run;
+}
+
+function isSameRequest(
+  a: Pick<TrackedRequest, "subscriberId" | "threadId">,
+  b: Pick<TrackedRequest, "subscriberId" | "threadId">,
+): boolean {
+  return a.subscriberId === b.subscriberId && a.threadId === b.threadId;
+}
+
+/**
+ * Reminder ages for the subscriber, shortest first, from `reviewReminders`
+ * or PINGPAL_REVIEW_REMINDERS ("4h,24h,3d" by default, "off" for none).
+ */
+export function getReviewReminderAges(subscriber: Subscriber): number[] {
+  const values =
+    subscriber.reviewReminders ??
+    (process.env.PINGPAL_REVIEW_REMINDERS ?? DEFAULT_REVIEW_REMINDERS)
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value && value.toLowerCase() !== "off");
+  return values
+    .map(parseDuration)
+    .filter((age): age is number => age !== null)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Review requests and assignments are tracked; other notification reasons
+ * don't wait on the user in a way GitHub can tell.
+ */
+function getRequestKind(
+  notification: GitHubNotification,
+): GitHubOpenRequestKind | null {
+  if (!notification.subject.url) {
+    return null;
+  }
+  if (
+    notification.reason === "review_requested" &&
+    notification.subject.type === "PullRequest"
+  ) {
+    return "review";
+  }
+  if (
+    notification.reason === "assign" &&
+    (notification.subject.type === "PullRequest" ||
+      notification.subject.type === "Issue")
+  ) {
+    return "assignment";
+  }
+  return null;
+}
+
+/**
+ * Starts tracking an alerted review request or assignment. A thread that is
+ * already tracked keeps its original request time.
+ */
+export async function trackOpenRequest(
+  runtime: IAgentRuntime,
+  subscriber: Subscriber,
+  notification: GitHubNotification,
+  reason: string,
+  link: string,
+): Promise<void> {
+  const kind = getRequestKind(notification);
+  if (!kind || getReviewReminderAges(subscriber).length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const request: TrackedRequest = {
+    subscriberId: subscriber.id,
+    threadId: notification.id,
+    kind,
+    notification,
+    reason,
+    link,
+    requestedAt: now,
+    remindersSent: [],
+    checkedAt: now,
+  };
+  await updateTrackedRequests(runtime, (requests) =>
+    requests.some((tracked) => isSameRequest(tracked, request))
+      ? requests
+      : [...requests, request],
+  );
+}
+
+/**
+ * Tracked review requests and assignments of the subscriber, oldest first.
+ */
+export async function getTrackedRequests(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+): Promise<TrackedRequest[]> {
+  const requests =
+    (await runtime.getCache<TrackedRequest[]>(TRACKED_REQUESTS_CACHE_KEY)) ??
+    [];
+  return requests
+    .filter((request) => request.subscriberId === subscriberId)
+    .sort((a, b) => a.requestedAt - b.requestedAt);
+}
+
+/**
+ * "4 hours", "1 day", "90 minutes".
+ */
+function formatAge(ms: number): string {
+  const [value, unit] =
+    ms % (24 * 60 * 60 * 1000) === 0
+      ? [ms / (24 * 60 * 60 * 1000), "day"]
+      : ms % (60 * 60 * 1000) === 0
+        ? [ms / (60 * 60 * 1000), "hour"]
+        : [Math.round(ms / (60 * 1000)), "minute"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+async function sendReminder(
+  runtime: IAgentRuntime,
+  request: TrackedRequest,
+  age: number,
+): Promise<void> {
+  const sendAction = runtime.actions?.find(
+    (action) => action.name === "SEND_NOTIFICATION",
+  );
+  if (!sendAction) {
+    logger.warn("[PingPal GitHub] SEND_NOTIFICATION action not found");
+    return;
+  }
+
+  const category: Category | null =
+    request.kind === "review" ? "review_needed" : null;
+  const reminderMemory: Memory = {
+    id: crypto.randomUUID(),
+    entityId: runtime.agentId,
+    roomId: getInternalRoomIdForAgent(runtime.agentId),
+    agentId: runtime.agentId,
+    content: {
+      text: "Send Telegram notification",
+      githubNotification: request.notification,
+      analysisReason: `⏰ ${
+        request.kind === "review"
+          ? "Your review has been pending"
+          : "You have been assigned"
+      } for ${formatAge(age)}. ${request.reason}`,
+      priority: "high",
+      category,
+      suggestedAction:
+        request.kind === "review"
+          ? "Review the pull request or ask to be removed as reviewer"
+          : null,
+      webUrl: request.link,
+      subscriberId: request.subscriberId,
+    },
+    createdAt: Date.now(),
+  };
+
+  if (await sendAction.validate(runtime, reminderMemory)) {
+    await sendAction.handler(runtime, reminderMemory);
+  }
+}
+
+/**
+ * Checks tracked review requests and assignments against GitHub and sends
+ * the reminders that are due. Tracking stops once the subscriber reviewed,
+ * the pull request or issue was merged or closed, or the subscriber was
+ * removed as reviewer or assignee.
+ */
+export async function processTrackedRequests(
+  runtime: IAgentRuntime,
+): Promise<void> {
+  const requests =
+    (await runtime.getCache<TrackedRequest[]>(TRACKED_REQUESTS_CACHE_KEY)) ??
+    [];
+  if (requests.length === 0) {
+    return;
+  }
+  const subscribers = loadSubscribers();
+
+  for (const request of requests) {
+    const subscriber = subscribers.find(
+      (candidate) => candidate.id === request.subscriberId,
+    );
+    const ages = subscriber ? getReviewReminderAges(subscriber) : [];
+    if (!subscriber || ages.length === 0) {
+      await updateTrackedRequests(runtime, (current) =>
+        current.filter((tracked) => !isSameRequest(tracked, request)),
+      );
+      continue;
+    }
+
+    const now = Date.now();
+    const dueAges = ages.filter(
+      (age) =>
+        request.requestedAt + age <= now &&
+        !request.remindersSent.includes(age),
+    );
+    if (
+      dueAges.length === 0 &&
+      request.checkedAt + STATUS_CHECK_INTERVAL_MS > now
+    ) {
+      continue;
+    }
+
+    const status = await createGitHubService(
+      runtime,
+      subscriber,
+    ).getOpenRequestStatus(
+      request.kind,
+      request.notification.subject.url!,
+      subscriber.githubUsername,
+      request.requestedAt,
+    );
+    if (status === null) {
+      // Asked again on the next pass
+      continue;
+    }
+    const remindersSent = [...request.remindersSent, ...dueAges];
+    // Nothing is left to send after the last reminder
+    const finished = ages.every((age) => remindersSent.includes(age));
+    if (status !== "pending" || finished) {
+      await updateTrackedRequests(runtime, (current) =>
+        current.filter((tracked) => !isSameRequest(tracked, request)),
+      );
+      logger.info(
+        {
+          subscriberId: request.subscriberId,
+          threadId: request.threadId,
+          kind: request.kind,
+          status,
+        },
+        "[PingPal GitHub] Stopped tracking review request or assignment",
+      );
+    } else {
+      await updateTrackedRequests(runtime, (current) =>
+        current.map((tracked) =>
+          isSameRequest(tracked, request)
+            ? { ...tracked, checkedAt: now, remindersSent }
+            : tracked,
+        ),
+      );
+    }
+
+    if (status === "pending" && dueAges.length > 0) {
+      // After downtime only the longest overdue reminder is sent
+      const age = dueAges[dueAges.length - 1];
+      try {
+        await sendReminder(runtime, request, age);
+      } catch (error) {
+        logger.error(
+          {
+            error,
+            subscriberId: request.subscriberId,
+            threadId: request.threadId,
+          },
+          "[PingPal GitHub] Failed to send review reminder",
+        );
+      }
+    }
+  }
+}
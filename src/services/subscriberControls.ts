@@ -0,0 +1,98 @@
+import type { IAgentRuntime } from "@elizaos/core";
+
+const MUTED_REPOS_CACHE_PREFIX = "pingpal_github_muted_repos_";
+const PAUSED_UNTIL_CACHE_PREFIX = "pingpal_github_paused_until_";
+
+/**
+ * Repositories (`owner/repo`, lowercase) whose notifications the subscriber
+ * muted from the chat.
+ */
+export async function getMutedRepos(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+): Promise<string[]> {
+  return (
+    (await runtime.getCache<string[]>(
+      `${MUTED_REPOS_CACHE_PREFIX}${subscriberId}`,
+    )) ?? []
+  );
+}
+
+export async function isRepoMuted(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  repository: string,
+): Promise<boolean> {
+  return (await getMutedRepos(runtime, subscriberId)).includes(
+    repository.toLowerCase(),
+  );
+}
+
+export async function muteRepo(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  repository: string,
+): Promise<void> {
+  const muted = await getMutedRepos(runtime, subscriberId);
+  const repo = repository.toLowerCase();
+  if (!muted.includes(repo)) {
+    await runtime.setCache<string[]>(
+      `${MUTED_REPOS_CACHE_PREFIX}${subscriberId}`,
+      [...muted, repo],
+    );
+  }
+}
+
+/**
+ * Unmutes one repository, or all of them when none is given. Returns the
+ * repositories that were unmuted.
+ */
+export async function unmuteRepo(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  repository?: string,
+): Promise<string[]> {
+  const muted = await getMutedRepos(runtime, subscriberId);
+  const removed = repository
+    ? muted.filter((repo) => repo === repository.toLowerCase())
+    : muted;
+  if (removed.length > 0) {
+    await runtime.setCache<string[]>(
+      `${MUTED_REPOS_CACHE_PREFIX}${subscriberId}`,
+      muted.filter((repo) => !removed.includes(repo)),
+    );
+  }
+  return removed;
+}
+
+/**
+ * End of the subscriber's alert pause in epoch milliseconds, or null when
+ * alerts aren't paused.
+ */
+export async function getPausedUntil(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+): Promise<number | null> {
+  const until = await runtime.getCache<number>(
+    `${PAUSED_UNTIL_CACHE_PREFIX}${subscriberId}`,
+  );
+  return until && until > Date.now() ? until : null;
+}
+
+export async function pauseAlerts(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  until: number,
+): Promise<void> {
+  await runtime.setCache<number>(
+    `${PAUSED_UNTIL_CACHE_PREFIX}${subscriberId}`,
+    until,
+  );
+}
+
+export async function resumeAlerts(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+): Promise<void> {
+  await runtime.deleteCache(`${PAUSED_UNTIL_CACHE_PREFIX}${subscriberId}`);
+}
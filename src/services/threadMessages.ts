@@ -0,0 +1,89 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import type { Priority } from "../priority";
+
+const THREAD_MESSAGES_CACHE_KEY = "pingpal_github_thread_messages";
+const DEFAULT_COALESCE_WINDOW_MINUTES = 10;
+
+/**
+ * The Telegram message last sent as an alert for a thread. Later alerts for
+ * the thread edit it while the coalescing window lasts.
+ */
+export interface ThreadMessage {
+  subscriberId: string;
+  threadId: string;
+  alertId: string;
+  chatId: string;
+  messageId: number;
+  priority: Priority;
+  sentAt: number;
+  /** Alerts folded into the message since it was sent. */
+  updates: number;
+}
+
+// Serializes read-modify-write of the records within this process
+let threadMessageUpdates: Promise<unknown> = Promise.resolve();
+
+function getThreadKey(subscriberId: string, threadId: string): string {
+  return `${subscriberId}:${threadId}`;
+}
+
+/**
+ * How long after an alert further activity on its thread edits the message
+ * instead of sending a new one, from PINGPAL_COALESCE_WINDOW_MINUTES; 0
+ * sends every alert as a new message.
+ */
+export function getCoalesceWindowMs(): number {
+  const value = Number(process.env.PINGPAL_COALESCE_WINDOW_MINUTES);
+  const minutes =
+    process.env.PINGPAL_COALESCE_WINDOW_MINUTES !== undefined &&
+    Number.isFinite(value) &&
+    value >= 0
+      ? value
+      : DEFAULT_COALESCE_WINDOW_MINUTES;
+  return minutes * 60 * 1000;
+}
+
+/**
+ * The thread's alert message, if it was sent within the coalescing window.
+ */
+export async function getActiveThreadMessage(
+  runtime: IAgentRuntime,
+  subscriberId: string,
+  threadId: string,
+): Promise<ThreadMessage | null> {
+  const messages =
+    (await runtime.getCache<Record<string, ThreadMessage>>(
+      THREAD_MESSAGES_CACHE_KEY,
+    )) ?? {};
+  const message = messages[getThreadKey(subscriberId, threadId)];
+  return message && message.sentAt + getCoalesceWindowMs() > Date.now()
+    ? message
+    : null;
+}
+
+/**
+ * Stores the thread's alert message, dropping records whose window is over.
+ */
+export function saveThreadMessage(
+  runtime: IAgentRuntime,
+  message: ThreadMessage,
+): Promise<void> {
+  const run = threadMessageUpdates.then(async () => {
+    const messages =
+      (await runtime.getCache<Record<string, ThreadMessage>>(
+        THREAD_MESSAGES_CACHE_KEY,
+      )) ?? {};
+    messages[getThreadKey(message.subscriberId, message.threadId)] = message;
+    const windowMs = getCoalesceWindowMs();
+    await runtime.setCache(
+      THREAD_MESSAGES_CACHE_KEY,
+      Object.fromEntries(
+        Object.entries(messages).filter(
+          ([, entry]) => entry.sentAt + windowMs > Date.now(),
+        ),
+      ),
+    );
+  });
+  threadMessageUpdates = run.catch(() => undefined);
+  return run;
+}
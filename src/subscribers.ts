@@ -0,0 +1,334 @@
+import type { Memory } from "@elizaos/core";
+import { z } from "zod";
+import {
+  getDefaultTimeZone,
+  isValidTimeZone,
+  parseDuration,
+  parseTimeOfDay,
+  parseTimeWindow,
+  WEEKDAYS,
+} from "./utils/time";
+import { channelConfigSchema, type ChannelConfig } from "./channels/types";
+import { GITHUB_AUTH_TYPES, githubAuthConfigSchema } from "./auth/types";
+
+export const DIGEST_SCHEDULES = ["daily", "weekly", "off"] as const;
+
+/**
+ * Subscriber id used when the plugin is configured through the single-user
+ * environment variables. Processed records written before multi-user support
+ * carry no subscriber id and are treated as belonging to this subscriber.
+ */
+export const DEFAULT_SUBSCRIBER_ID = "default";
+
+/**
+ * One person PingPal monitors: whose GitHub notifications to poll and where
+ * their alerts go.
+ */
+const subscriberSchema = z.object({
+  id: z.string().min(1, "Subscriber id is required"),
+  githubUsername: z.string().min(1, "Subscriber githubUsername is required"),
+  /** Classic personal access token; shorthand for `githubAuth: { type: "pat" }`. */
+  githubToken: z
+    .string()
+    .min(1, "Subscriber githubToken is required")
+    .optional(),
+  /** Other ways to authenticate (fine-grained PAT, OAuth device flow, GitHub App). */
+  githubAuth: githubAuthConfigSchema.optional(),
+  /** Also used for chat commands, alert buttons and digests. */
+  telegramChatId: z
+    .union([
+      z.string().min(1, "Subscriber telegramChatId is required"),
+      z.number(),
+    ])
+    .transform((value) => String(value))
+    .optional(),
+  /** Where alerts are delivered; defaults to Telegram only. */
+  channels: z.array(channelConfigSchema).min(1).optional(),
+  pollIntervalSeconds: z.number().int().min(30).optional(),
+  /** Path to this subscriber's rules file; overrides PINGPAL_RULES_FILE. */
+  rulesFile: z.string().min(1).optional(),
+  /** IANA timezone, e.g. "Europe/Berlin"; overrides PINGPAL_TIMEZONE. */
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, "Subscriber timezone must be an IANA timezone")
+    .optional(),
+  /** Digest of non-urgent notifications; unset fields fall back to PINGPAL_DIGEST_* */
+  digest: z
+    .object({
+      schedule: z.enum(DIGEST_SCHEDULES).optional(),
+      time: z
+        .string()
+        .refine(
+          (value) => parseTimeOfDay(value) !== null,
+          "Digest time must be HH:MM",
+        )
+        .optional(),
+      weekday: z.enum(WEEKDAYS).optional(),
+    })
+    .optional(),
+  /** Alerts are held during these times; unset fields fall back to PINGPAL_QUIET_* */
+  quietHours: z
+    .object({
+      /** "HH:MM-HH:MM" in the subscriber's timezone, may wrap past midnight. */
+      window: z
+        .string()
+        .refine(
+          (value) => parseTimeWindow(value) !== null,
+          "Quiet hours window must be HH:MM-HH:MM",
+        )
+        .optional(),
+      /** Treat the whole of `weekendDays` as quiet. */
+      weekends: z.boolean().optional(),
+      weekendDays: z.array(z.enum(WEEKDAYS)).optional(),
+    })
+    .optional(),
+  /** Labels that make an alert critical, so it breaks through quiet hours. */
+  criticalLabels: z.array(z.string().min(1)).optional(),
+  /**
+   * Ages ("4h", "1d") at which a review request or assignment still waiting
+   * on the subscriber is alerted again; overrides PINGPAL_REVIEW_REMINDERS.
+   */
+  reviewReminders: z
+    .array(
+      z
+        .string()
+        .refine(
+          (value) => parseDuration(value) !== null,
+          "Review reminders must be durations such as 4h or 1d",
+        ),
+    )
+    .optional(),
+  /** Critical alerts left unacknowledged go to a second Telegram contact; unset fields fall back to PINGPAL_ESCALATION_* */
+  escalation: z
+    .object({
+      telegramChatId: z
+        .union([z.string().min(1), z.number()])
+        .transform((value) => String(value))
+        .optional(),
+      /** How long an alert may go unacknowledged, e.g. "30m". */
+      after: z
+        .string()
+        .refine(
+          (value) => parseDuration(value) !== null,
+          "Escalation delay must be a duration such as 30m",
+        )
+        .optional(),
+    })
+    .optional(),
+});
+
+const subscribersSchema = z
+  .array(
+    subscriberSchema
+      .refine(
+        (subscriber) =>
+          subscriber.telegramChatId !== undefined ||
+          (subscriber.channels !== undefined &&
+            subscriber.channels.every(
+              (channel) => channel.type !== "telegram",
+            )),
+        "Subscriber telegramChatId is required for Telegram delivery",
+      )
+      .refine(
+        (subscriber) =>
+          subscriber.githubToken !== undefined ||
+          subscriber.githubAuth !== undefined,
+        "Subscriber githubToken or githubAuth is required",
+      ),
+  )
+  .min(1, "PINGPAL_SUBSCRIBERS must list at least one subscriber")
+  .refine(
+    (subscribers) =>
+      new Set(subscribers.map((subscriber) => subscriber.id)).size ===
+      subscribers.length,
+    "Subscriber ids must be unique",
+  );
+
+export type Subscriber = z.infer<typeof subscriberSchema>;
+
+/**
+ * Loads subscriber profiles from PINGPAL_SUBSCRIBERS (a JSON array), falling
+ * back to a single subscriber built from GITHUB_ACCESS_TOKEN (or the
+ * PINGPAL_GITHUB_AUTH_MODE settings), PINGPAL_TARGET_GITHUB_USERNAME,
+ * PINGPAL_TARGET_TELEGRAM_USERID and PINGPAL_CHANNELS.
+ * Throws when neither is configured or the profiles are invalid.
+ */
+export function loadSubscribers(): Subscriber[] {
+  const rawSubscribers = process.env.PINGPAL_SUBSCRIBERS;
+
+  if (rawSubscribers) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawSubscribers);
+    } catch (error) {
+      throw new Error(
+        `PINGPAL_SUBSCRIBERS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    try {
+      return subscribersSchema.parse(parsed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(
+          `Invalid PINGPAL_SUBSCRIBERS configuration: ${error.errors.map((e) => e.message).join(", ")}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  const githubCredentials = loadGitHubAuthFromEnv();
+  const targetUsername = process.env.PINGPAL_TARGET_GITHUB_USERNAME;
+  const targetTelegramUserId = process.env.PINGPAL_TARGET_TELEGRAM_USERID;
+  const channels = loadChannelsFromEnv();
+
+  if (!targetUsername) {
+    throw new Error(
+      "PINGPAL_TARGET_GITHUB_USERNAME environment variable is required",
+    );
+  }
+  if (
+    !targetTelegramUserId &&
+    (!channels || channels.some((channel) => channel.type === "telegram"))
+  ) {
+    throw new Error(
+      "PINGPAL_TARGET_TELEGRAM_USERID environment variable is required",
+    );
+  }
+
+  return [
+    {
+      id: DEFAULT_SUBSCRIBER_ID,
+      githubUsername: targetUsername,
+      ...githubCredentials,
+      telegramChatId: targetTelegramUserId || undefined,
+      channels,
+    },
+  ];
+}
+
+/**
+ * GitHub credentials for the single-user configuration. PINGPAL_GITHUB_AUTH_MODE
+ * picks the kind (a classic PAT in GITHUB_ACCESS_TOKEN by default).
+ */
+function loadGitHubAuthFromEnv(): Pick<
+  Subscriber,
+  "githubToken" | "githubAuth"
+> {
+  const mode = process.env.PINGPAL_GITHUB_AUTH_MODE || "pat";
+  const accessToken = process.env.GITHUB_ACCESS_TOKEN;
+
+  switch (mode) {
+    case "pat":
+    case "fine_grained_pat":
+      if (!accessToken) {
+        throw new Error("GITHUB_ACCESS_TOKEN environment variable is required");
+      }
+      return mode === "pat"
+        ? { githubToken: accessToken }
+        : { githubAuth: { type: mode, token: accessToken } };
+    case "oauth_device": {
+      const clientId = process.env.GITHUB_OAUTH_CLIENT_ID;
+      if (!clientId) {
+        throw new Error(
+          "GITHUB_OAUTH_CLIENT_ID environment variable is required for OAuth device flow auth",
+        );
+      }
+      return { githubAuth: { type: mode, clientId } };
+    }
+    case "github_app": {
+      const appId = process.env.GITHUB_APP_ID;
+      const installationId = process.env.GITHUB_APP_INSTALLATION_ID;
+      const privateKey = process.env.GITHUB_APP_PRIVATE_KEY;
+      const privateKeyPath = process.env.GITHUB_APP_PRIVATE_KEY_PATH;
+      if (!appId || !installationId) {
+        throw new Error(
+          "GITHUB_APP_ID and GITHUB_APP_INSTALLATION_ID environment variables are required for GitHub App auth",
+        );
+      }
+      if (!privateKey && !privateKeyPath) {
+        throw new Error(
+          "GITHUB_APP_PRIVATE_KEY or GITHUB_APP_PRIVATE_KEY_PATH environment variable is required for GitHub App auth",
+        );
+      }
+      return {
+        githubAuth: {
+          type: mode,
+          appId,
+          installationId,
+          privateKey: privateKey || undefined,
+          privateKeyPath: privateKeyPath || undefined,
+        },
+      };
+    }
+    default:
+      throw new Error(
+        `PINGPAL_GITHUB_AUTH_MODE must be one of ${GITHUB_AUTH_TYPES.join(", ")}, got '${mode}'`,
+      );
+  }
+}
+
+/**
+ * Parses PINGPAL_CHANNELS (a JSON array of channel configs) for the
+ * single-user configuration.
+ */
+function loadChannelsFromEnv(): ChannelConfig[] | undefined {
+  const rawChannels = process.env.PINGPAL_CHANNELS;
+  if (!rawChannels) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawChannels);
+  } catch (error) {
+    throw new Error(
+      `PINGPAL_CHANNELS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  try {
+    return z.array(channelConfigSchema).min(1).parse(parsed);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new Error(
+        `Invalid PINGPAL_CHANNELS configuration: ${error.errors.map((e) => e.message).join(", ")}`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolves the subscriber a message is about from `content.subscriberId`.
+ * Messages without one (e.g. a manually triggered poll) resolve to the first
+ * configured subscriber. Returns null when the id is unknown or nothing is
+ * configured.
+ */
+export function getSubscriberForMessage(message: Memory): Subscriber | null {
+  let subscribers: Subscriber[];
+  try {
+    subscribers = loadSubscribers();
+  } catch {
+    return null;
+  }
+
+  const subscriberId = (message.content as any)?.subscriberId as
+    | string
+    | undefined;
+  if (!subscriberId) {
+    return subscribers[0];
+  }
+  return (
+    subscribers.find((subscriber) => subscriber.id === subscriberId) ?? null
+  );
+}
+
+/**
+ * The subscriber's timezone, falling back to PINGPAL_TIMEZONE and then the
+ * server's timezone.
+ */
+export function getSubscriberTimeZone(subscriber: Subscriber): string {
+  return subscriber.timezone ?? getDefaultTimeZone();
+}
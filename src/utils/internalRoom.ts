@@ -0,0 +1,14 @@
+import { stringToUuid, type UUID } from "@elizaos/core";
+
+/**
+ * Generates a consistent internal room ID for the agent following the email plugin pattern
+ */
+export const getInternalRoomIdForAgent = (agentId: UUID): UUID => {
+  // Take first 13 chars of agentId to create a unique suffix (following email plugin pattern)
+  const agentSpecificRoomSuffix = agentId.slice(0, 13);
+
+  // Use stringToUuid with a clean, short seed string for proper UUID generation
+  return stringToUuid(
+    `pingpal-github-internal-room-${agentSpecificRoomSuffix}`,
+  );
+};
@@ -0,0 +1,136 @@
+import type {
+  GitHubNotification,
+  GitHubThreadContext,
+} from "../services/githubService";
+import {
+  getGitHubApiBaseUrl,
+  getGitHubWebBaseUrl,
+} from "../services/githubHost";
+
+// API resource paths whose web page differs only in the segment name
+const WEB_PATH_SEGMENTS: Record<string, string> = {
+  pulls: "pull",
+  issues: "issues",
+  commits: "commit",
+};
+
+// Comment API URLs and the anchor of the comment on the subject's web page.
+// Commit comments (`/repos/o/r/comments/1`) must be matched last.
+const COMMENT_ANCHORS: [RegExp, string][] = [
+  [/\/issues\/comments\/(\d+)$/, "issuecomment-"],
+  [/\/pulls\/comments\/(\d+)$/, "discussion_r"],
+  [/\/pulls\/\d+\/reviews\/(\d+)$/, "pullrequestreview-"],
+  [/\/comments\/(\d+)$/, "commitcomment-"],
+];
+
+function toTime(timestamp: string | null): number {
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
+
+/**
+ * Maps an issue, pull request or commit API URL onto the web base URL.
+ */
+function toWebUrl(apiUrl: string | null): string | null {
+  const reposPrefix = `${getGitHubApiBaseUrl()}/repos/`;
+  if (!apiUrl?.startsWith(reposPrefix)) {
+    return null;
+  }
+  // owner/repo/<resource>/<id>
+  const [owner, repo, resource, id] = apiUrl
+    .slice(reposPrefix.length)
+    .split("/");
+  const webSegment = WEB_PATH_SEGMENTS[resource];
+  if (!owner || !repo || !webSegment || !id) {
+    return null;
+  }
+  return `${getGitHubWebBaseUrl()}/${owner}/${repo}/${webSegment}/${id}`;
+}
+
+function getCommentAnchor(notification: GitHubNotification): string {
+  const commentUrl = notification.subject.latest_comment_url;
+  // Without comments, latest_comment_url points at the subject itself
+  if (!commentUrl || commentUrl === notification.subject.url) {
+    return "";
+  }
+  for (const [pattern, prefix] of COMMENT_ANCHORS) {
+    const match = commentUrl.match(pattern);
+    if (match) {
+      return `#${prefix}${match[1]}`;
+    }
+  }
+  return "";
+}
+
+/**
+ * The newer of the latest comment and the latest review, as fetched with
+ * the thread; their `html_url` already carries the anchor.
+ */
+function getLatestActivityUrl(
+  context: GitHubThreadContext | null | undefined,
+): string | null {
+  const activities = [
+    context?.latestComment && {
+      htmlUrl: context.latestComment.htmlUrl,
+      time: toTime(context.latestComment.createdAt),
+    },
+    context?.latestReview && {
+      htmlUrl: context.latestReview.htmlUrl,
+      time: toTime(context.latestReview.submittedAt),
+    },
+  ].filter((activity) => !!activity?.htmlUrl) as {
+    htmlUrl: string;
+    time: number;
+  }[];
+  activities.sort((a, b) => b.time - a.time);
+  return activities[0]?.htmlUrl ?? null;
+}
+
+/**
+ * Link for a subject whose thread couldn't be fetched, by subject type.
+ */
+function getFallbackWebUrl(notification: GitHubNotification): string {
+  const repositoryUrl = notification.repository.html_url;
+  switch (notification.subject.type) {
+    case "Issue":
+    case "PullRequest":
+    case "Commit": {
+      const subjectUrl = toWebUrl(notification.subject.url);
+      return subjectUrl
+        ? `${subjectUrl}${getCommentAnchor(notification)}`
+        : repositoryUrl;
+    }
+    case "Release":
+      return `${repositoryUrl}/releases`;
+    case "Discussion":
+      // Discussion notifications carry no URL; search for the title instead.
+      // Parentheses are encoded too, as they would end a Markdown link.
+      return `${repositoryUrl}/discussions?discussions_q=${encodeURIComponent(
+        `"${notification.subject.title}"`,
+      ).replace(/[()]/g, (char) => (char === "(" ? "%28" : "%29"))}`;
+    case "CheckSuite":
+    case "WorkflowRun":
+      return `${repositoryUrl}/actions`;
+    case "RepositoryVulnerabilityAlert":
+    case "RepositoryDependabotAlertsThread":
+      return `${repositoryUrl}/security/dependabot`;
+    default:
+      return repositoryUrl;
+  }
+}
+
+/**
+ * Web URL of what triggered the notification: the latest comment or review
+ * (with its `#issuecomment-…` / `#pullrequestreview-…` anchor) when the
+ * thread was fetched, else the subject's own page, else a link built from
+ * the notification by subject type.
+ */
+export function getNotificationWebUrl(
+  notification: GitHubNotification,
+  context?: GitHubThreadContext | null,
+): string {
+  return (
+    getLatestActivityUrl(context) ??
+    context?.htmlUrl ??
+    getFallbackWebUrl(notification)
+  );
+}
@@ -0,0 +1,12 @@
+export function escapeMarkdownV2(text: string): string {
+  // Escape characters: \ _ * [ ] ( ) ~ ` > # + - = | { } . !
+  return text.replace(/([\\_*[\]()~`>#+\-=|{}.!])/g, "\\$1");
+}
+
+/**
+ * Escapes a URL for use as a MarkdownV2 link target, where `)` and `\` have
+ * to be escaped.
+ */
+export function escapeMarkdownV2Url(url: string): string {
+  return url.replace(/([)\\])/g, "\\$1");
+}
@@ -0,0 +1,24 @@
+/**
+ * Whether a GitHub login is `username`. Logins are case-insensitive.
+ */
+export function isSameUser(
+  login: string | null | undefined,
+  username: string,
+): boolean {
+  return !!login && login.toLowerCase() === username.toLowerCase();
+}
+
+/**
+ * Whether the text @-mentions `username` (case-insensitive, not as part of a
+ * longer name or an email address).
+ */
+export function mentions(
+  body: string | null | undefined,
+  username: string,
+): boolean {
+  if (!body) {
+    return false;
+  }
+  const escaped = username.replace(/[.*+?^${}()|[\]\\-]/g, "\\$&");
+  return new RegExp(`(^|[^\\w-])@${escaped}(?![\\w-])`, "i").test(body);
+}
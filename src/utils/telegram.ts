@@ -0,0 +1,62 @@
+import type { IAgentRuntime } from "@elizaos/core";
+
+/**
+ * The Telegraf bot behind @elizaos/plugin-telegram's service, or null when
+ * the Telegram service isn't running.
+ */
+export function getTelegramBot(runtime: IAgentRuntime): any | null {
+  const telegramService = runtime.getService("telegram");
+  return (telegramService as any)?.bot ?? null;
+}
+
+/**
+ * Makes the bot's long polling ask Telegram for `callback_query` updates,
+ * which inline buttons produce. @elizaos/plugin-telegram 1.0.x launches
+ * Telegraf with `allowedUpdates: ["message", "message_reaction"]`, which
+ * leaves them out. Telegraf sends the list with every getUpdates call, so
+ * the change applies from the next call.
+ *
+ * Returns whether button presses reach the bot: null while polling hasn't
+ * started yet, false when the bot isn't long polling the way Telegraf 4
+ * does and the list can't be changed.
+ */
+export function ensureCallbackQueryUpdates(bot: any): boolean | null {
+  const polling = bot?.polling;
+  if (!polling) {
+    return bot?.webhookServer ? false : null;
+  }
+  const allowedUpdates: unknown = polling.allowedUpdates;
+  // Missing or empty means Telegram's default, which includes callback queries
+  if (allowedUpdates === undefined) {
+    return true;
+  }
+  if (!Array.isArray(allowedUpdates)) {
+    return false;
+  }
+  if (allowedUpdates.length > 0 && !allowedUpdates.includes("callback_query")) {
+    polling.allowedUpdates = [...allowedUpdates, "callback_query"];
+  }
+  return true;
+}
+
+/**
+ * Runs `middleware` ahead of everything registered on the bot so far.
+ * Telegraf only appends middleware, and @elizaos/plugin-telegram's message
+ * handler doesn't pass messages on, so whatever has to see a message before
+ * the plugin does goes in front of its chain. Returns false when the bot
+ * doesn't look like Telegraf 4.
+ */
+export function prependTelegramMiddleware(
+  bot: any,
+  middleware: (ctx: any, next: () => Promise<void>) => Promise<void>,
+): boolean {
+  const handler = bot?.handler;
+  if (typeof handler !== "function") {
+    return false;
+  }
+  bot.handler = (ctx: any, next: () => Promise<void>) =>
+    middleware(ctx, async () => {
+      await handler(ctx, next);
+    });
+  return true;
+}
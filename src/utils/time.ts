@@ -0,0 +1,181 @@
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getDefaultTimeZone(): string {
+  return (
+    process.env.PINGPAL_TIMEZONE ||
+    Intl.DateTimeFormat().resolvedOptions().timeZone ||
+    "UTC"
+  );
+}
+
+/**
+ * Wall-clock date and time of `date` in `timeZone`.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "long",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    weekday: WEEKDAYS.indexOf(get("weekday").toLowerCase() as Weekday),
+  };
+}
+
+/**
+ * Parses "HH:MM" into minutes after midnight, or null if malformed.
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD.
+ */
+export function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Moves a calendar date by whole days (calendar arithmetic, no DST issues).
+ */
+export function addDays(
+  year: number,
+  month: number,
+  day: number,
+  days: number,
+): { year: number; month: number; day: number; weekday: number } {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+  };
+}
+
+/**
+ * Epoch milliseconds of a wall-clock date and time (minutes after midnight)
+ * in `timeZone`.
+ */
+export function getZonedTime(
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timeZone: string,
+): number {
+  const target = Date.UTC(year, month - 1, day, 0, minutes);
+  // Correct by the zone's offset twice, in case the first guess landed on
+  // the other side of a DST change
+  let time = target;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const zoned = getZonedParts(new Date(time), timeZone);
+    time +=
+      target -
+      Date.UTC(
+        zoned.year,
+        zoned.month - 1,
+        zoned.day,
+        zoned.hour,
+        zoned.minute,
+      );
+  }
+  return time;
+}
+
+/**
+ * Human-readable date/time in the given timezone, e.g. "Oct 19, 09:00 AM CEST".
+ */
+export function formatDateTime(date: Date, timeZone: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * Parses "HH:MM-HH:MM" into start/end minutes after midnight. The window
+ * may wrap past midnight (e.g. "22:00-08:00"). Returns null if malformed.
+ */
+export function parseTimeWindow(
+  value: string,
+): { start: number; end: number } | null {
+  const [start, end] = value.split("-").map((part) => part.trim());
+  if (!start || !end) {
+    return null;
+  }
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null) {
+    return null;
+  }
+  return { start: startMinutes, end: endMinutes };
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as "30m", "2h" or "1d" into milliseconds, or null
+ * if malformed.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*([mhd])$/i);
+  if (!match || Number(match[1]) === 0) {
+    return null;
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2].toLowerCase()];
+}